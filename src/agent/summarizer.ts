@@ -68,3 +68,23 @@ export async function summarizeSession(sessionId?: string): Promise<string> {
     return `Last message: ${parsed.lastMessage || "(none)"}`;
   }
 }
+
+const RESPONSE_SYSTEM = `Summarize a coding agent's reply for someone reading it on a phone.
+
+Lead with the outcome or answer, then the key details: files changed, commands run, errors, open questions.
+Keep file names, identifiers and numbers exact. Do not add anything the agent did not say.
+
+Plain text only. No markdown, no bullet points, no headers. 2-5 sentences.`;
+
+/** Condense one long agent reply. Throws when the API call fails. */
+export async function summarizeResponse(text: string): Promise<string> {
+  const response = await getClient().messages.create({
+    model: "claude-haiku-4-5-20251001",
+    max_tokens: 512,
+    system: RESPONSE_SYSTEM,
+    messages: [{ role: "user", content: text }],
+  });
+  const block = response.content[0];
+  if (!block || block.type !== "text") throw new Error("Unexpected summarizer response");
+  return block.text;
+}
@@ -1,10 +1,59 @@
 import { readFile, writeFile, mkdir } from "fs/promises";
 import { homedir } from "os";
 import { join, dirname } from "path";
+import type { PriceTable } from "../session/usage.js";
+import type { BudgetConfig } from "../session/budget.js";
+import type { ContextConfig } from "../session/context.js";
+import type { PermissionPolicyConfig } from "../session/policy.js";
+
+/** Read by the permission hook itself, so changes apply to the next request without a restart. */
+export type PermissionTimeoutConfig = {
+  /** Seconds to wait for an answer on Telegram (default 300). */
+  seconds?: number;
+  /** What an unanswered request gets: deny (default), approve, or wait to never expire. */
+  action?: "approve" | "deny" | "wait";
+};
+
+// A tmux pane without an on-disk transcript (a local LLM CLI, a Python REPL, a long
+// test run) whose screen output is scraped and forwarded like an agent response.
+export type PaneScraperConfig = {
+  /** Label shown in notifications and /sessions (defaults to "pane"). */
+  name?: string;
+  /** Regex matched against the pane's command and its full child command line. */
+  panePattern: string;
+  /** Regex matched against the last non-blank screen line; a match ends the turn. */
+  promptPattern?: string;
+  /** Seconds without new output before the turn is considered over (default 10). */
+  idleSeconds?: number;
+};
+
+export type LongResponseConfig = {
+  /** Responses longer than this many characters go out as a .md file with a preview; 0 disables. */
+  threshold?: number;
+  /** Preview shown with the file: the first paragraph (default) or a short model summary. */
+  preview?: "paragraph" | "summary";
+};
 
 export type BotConfig = {
   reposFolder: string;
   allowedChatId?: number;
+  paneScrapers?: PaneScraperConfig[];
+  /** Per-model prices (USD per million tokens) merged over the built-in table. */
+  prices?: PriceTable;
+  /** Append a token/cost line to each forwarded response. */
+  usageFooter?: boolean;
+  /** Daily and per-session token/cost budgets with warnings at 50%, 80% and 100%. */
+  budgets?: BudgetConfig;
+  /** Context window alert threshold and auto-compact policy. */
+  context?: ContextConfig;
+  /** Tools shown in the live tool-status message, e.g. ["Bash", "Edit", "mcp__*"]. All when omitted. */
+  notifyTools?: string[];
+  /** Send responses past a length threshold as a .md file with a preview. */
+  longResponses?: LongResponseConfig;
+  /** Rules that approve or deny permission requests without asking on Telegram. */
+  permissionPolicy?: PermissionPolicyConfig;
+  /** How long the permission hook waits for an answer, and what happens then. */
+  permissionTimeout?: PermissionTimeoutConfig;
 };
 
 export const DEFAULT_CONFIG_PATH = join(homedir(), ".codedove", "config.json");
@@ -142,7 +142,11 @@ const PERMISSION_HOOK: HookSpec = {
   addStrategy: "find-or-create",
   scriptContent: `#!/bin/bash
 # Forwards Claude Code tool permission requests to the codedove Telegram bot.
-# Waits for the user to approve or deny via Telegram, then exits accordingly.
+# Waits for the user to approve or deny via Telegram, then exits accordingly;
+# a denial reason from Telegram is printed to stderr for Claude to read, and an
+# edited command is returned as the tool's updated input.
+# Unanswered requests expire after permissionTimeout.seconds (config.json) with
+# permissionTimeout.action: deny (default), approve, or wait to never expire.
 # Clarifying questions (no matching tool name) are ignored — they arrive via the
 # normal JSONL text path and the user replies by sending a message in Telegram.
 
@@ -172,6 +176,7 @@ print(d.get('message', json.dumps(d)))
 " 2>/dev/null || echo "$INPUT")
 
 TRANSCRIPT_PATH=$(echo "$INPUT" | python3 -c "import sys,json; print(json.load(sys.stdin).get('transcript_path',''))" 2>/dev/null || echo "")
+HOOK_CWD=$(echo "$INPUT" | python3 -c "import sys,json; print(json.load(sys.stdin).get('cwd',''))" 2>/dev/null || echo "")
 
 REQUEST_ID=$(python3 -c "import uuid; print(str(uuid.uuid4()))")
 REQUEST_FILE="$CODEDOVE_DIR/permission-request-\${REQUEST_ID}.json"
@@ -184,24 +189,50 @@ data = {
     'toolName': sys.argv[2],
     'toolInput': sys.argv[3],
     'transcriptPath': sys.argv[4],
+    'cwd': sys.argv[5],
 }
 print(json.dumps(data))
-" "$REQUEST_ID" "$TOOL_NAME" "$TOOL_INPUT" "$TRANSCRIPT_PATH" > "$REQUEST_FILE"
+" "$REQUEST_ID" "$TOOL_NAME" "$TOOL_INPUT" "$TRANSCRIPT_PATH" "$HOOK_CWD" > "$REQUEST_FILE"
+
+read -r TIMEOUT TIMEOUT_ACTION <<< "$(python3 -c "
+import json, os
+try:
+    t = json.load(open(os.path.join(os.environ['HOME'], '.codedove', 'config.json'))).get('permissionTimeout') or {}
+except Exception:
+    t = {}
+print(int(t.get('seconds', 300)), t.get('action', 'deny'))
+" 2>/dev/null)"
+case "$TIMEOUT" in ''|*[!0-9]*) TIMEOUT=300 ;; esac
+case "$TIMEOUT_ACTION" in approve|deny|wait) ;; *) TIMEOUT_ACTION=deny ;; esac
 
-TIMEOUT=300
 ELAPSED=0
-while [ $ELAPSED -lt $TIMEOUT ]; do
+while [ "$TIMEOUT_ACTION" = "wait" ] || [ $ELAPSED -lt $TIMEOUT ]; do
   if [ -f "$RESPONSE_FILE" ]; then
-    RESPONSE=$(cat "$RESPONSE_FILE" | tr -d '\\n\\r' | tr '[:upper:]' '[:lower:]')
+    python3 -c "
+import json, sys
+r = json.load(open(sys.argv[1]))
+if r.get('updatedInput'):
+    print(json.dumps({'hookSpecificOutput': {
+        'hookEventName': 'PreToolUse',
+        'permissionDecision': 'allow',
+        'updatedInput': r['updatedInput'],
+    }}))
+if r.get('reason'):
+    print(r['reason'], file=sys.stderr)
+sys.exit(0 if r.get('action') == 'approve' else 2)
+" "$RESPONSE_FILE"
+    STATUS=$?
     rm -f "$REQUEST_FILE" "$RESPONSE_FILE"
-    [ "$RESPONSE" = "approve" ] && exit 0 || exit 2
+    [ $STATUS -eq 0 ] && exit 0 || exit 2
   fi
   sleep 1
   ELAPSED=$((ELAPSED + 1))
 done
 
+# Tell the bot which action the expired request got, so it can update the prompt
 rm -f "$REQUEST_FILE"
-exit 0
+echo "$TIMEOUT_ACTION $TIMEOUT" > "$CODEDOVE_DIR/permission-expired-\${REQUEST_ID}"
+[ "$TIMEOUT_ACTION" = "approve" ] && exit 0 || exit 2
 `,
 };
 
@@ -258,7 +289,10 @@ export async function installHook(): Promise<void> {
 }
 
 export async function isPermissionHookInstalled(): Promise<boolean> {
-  return isSpecInstalled(await readSettings(), PERMISSION_HOOK);
+  if (!isSpecInstalled(await readSettings(), PERMISSION_HOOK)) return false;
+  // An older script (e.g. one that approved on timeout) counts as missing so setup rewrites it
+  const script = await readFile(PERMISSION_HOOK.scriptPath, "utf8").catch(() => "");
+  return script === PERMISSION_HOOK.scriptContent;
 }
 
 export async function installPermissionHook(): Promise<void> {
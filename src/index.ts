@@ -2,9 +2,21 @@ import { createBot } from "./telegram/bot.js";
 import { BOT_COMMANDS } from "./telegram/handlers/commands.js";
 import { loadConfig } from "./config/config.js";
 import { startMonitor } from "./session/monitor.js";
+import { refreshSessionIndex } from "./session/history.js";
+import { sessionIndex } from "./session/session-index.js";
+import { collectUsage, configureUsage } from "./session/usage.js";
+import { BudgetTracker } from "./session/budget.js";
+import { ContextTracker, configureContext } from "./session/context.js";
 import { watchPermissionRequests } from "./session/permissions.js";
+import { watchCodexApprovals } from "./session/codex-approvals.js";
 import { SessionStreamManager, setStreamManager } from "./session/stream-manager.js";
-import { notifyWaiting, sendStartupMessage, notifyPermission, registerForNotifications } from "./telegram/notifications.js";
+import { adapters, registerAdapter } from "./session/adapters/index.js";
+import { PaneScrapeAdapter } from "./session/adapters/pane.js";
+import { loadUserAdapters } from "./session/adapters/user.js";
+import { enforceBudget } from "./telegram/handlers/budget.js";
+import { watchContext } from "./telegram/handlers/context.js";
+import { applyPermissionPolicy, handlePermissionExpired } from "./telegram/handlers/policy.js";
+import { notifyWaiting, sendStartupMessage, registerForNotifications, setNotifiedTools, setLongResponseConfig } from "./telegram/notifications.js";
 import { readFile } from "fs/promises";
 import { existsSync } from "fs";
 import { writeFile, mkdir } from "fs/promises";
@@ -27,6 +39,10 @@ for (const key of required) {
 
 const token = process.env.TELEGRAM_BOT_TOKEN!;
 const config = await loadConfig();
+configureUsage({ prices: config.prices, footer: config.usageFooter });
+configureContext(config.context);
+setNotifiedTools(config.notifyTools);
+setLongResponseConfig(config.longResponses);
 const bot = createBot(token, config.allowedChatId);
 bot.catch(console.error);
 
@@ -49,11 +65,60 @@ mkdir(join(homedir(), ".codedove"), { recursive: true })
   .then(() => writeFile(join(homedir(), ".codedove", "bot-token"), token, { mode: 0o600 }))
   .catch((err) => console.error("Failed to write bot-token:", err));
 
-// Start session monitor — watches all Claude JSONL files for waiting state
-const stopMonitor = startMonitor(notifyWaiting);
+// Register user-defined adapters from ~/.codedove/adapters/
+for (const adapter of await loadUserAdapters()) registerAdapter(adapter);
+
+// Register pane scrapers for CLIs that write no transcript (REPLs, local LLM CLIs, test runs)
+const paneScrapers: PaneScrapeAdapter[] = [];
+for (const scraperConfig of config.paneScrapers ?? []) {
+  try {
+    const scraper = new PaneScrapeAdapter(scraperConfig);
+    // Scrapers are watched by their transcript directory, which comes from the name
+    if (paneScrapers.some((s) => s.projectsPath === scraper.projectsPath)) {
+      console.error(`Pane scraper "${scraper.name}" skipped: another scraper already uses that name`);
+      continue;
+    }
+    registerAdapter(scraper);
+    scraper.start();
+    paneScrapers.push(scraper);
+  } catch (err) {
+    console.error(`Invalid pane scraper "${scraperConfig.name ?? scraperConfig.panePattern}":`, err);
+  }
+}
+
+// Load the session index and catch up on transcripts written while we were stopped
+await sessionIndex.load();
+void refreshSessionIndex().catch((err) =>
+  console.error("Session index refresh failed:", err)
+);
+
+// Budgets start from today's usage so a restart doesn't repeat warnings already sent.
+// Seed before the monitor starts, or the seed would overwrite usage it reported since.
+const budgets = config.budgets ? new BudgetTracker(config.budgets) : null;
+if (budgets) {
+  await collectUsage(adapters, new Date(new Date().toISOString().slice(0, 10)))
+    .then((sessions) => budgets.seed(sessions))
+    .catch((err) => console.error("Budget seeding failed:", err));
+}
+
+const contextTracker = new ContextTracker(config.context ?? {});
+
+// Start session monitor — watches every adapter's transcripts for waiting state,
+// keeps the session index current and checks usage against the budgets and
+// the context window threshold
+const stopMonitor = startMonitor(notifyWaiting, adapters, sessionIndex, async (usage) => {
+  if (budgets) await enforceBudget(budgets, usage);
+  await watchContext(contextTracker, usage);
+});
+
+// Permission requests matching a policy or learned rule are answered without asking on Telegram
+const onPermissionRequest = applyPermissionPolicy(config.permissionPolicy ?? {});
 
 // Start permission request watcher
-const stopPermissionWatcher = watchPermissionRequests(notifyPermission);
+const stopPermissionWatcher = watchPermissionRequests(onPermissionRequest, handlePermissionExpired);
+
+// Start Codex approval watcher — Codex asks in its TUI instead of through a hook
+const stopCodexApprovals = watchCodexApprovals(onPermissionRequest);
 
 // Start session stream manager
 const streamManager = new SessionStreamManager();
@@ -64,13 +129,19 @@ void streamManager.start();
 process.on("SIGINT", () => {
   stopMonitor();
   stopPermissionWatcher();
+  stopCodexApprovals();
   streamManager.stop();
+  for (const scraper of paneScrapers) scraper.stop();
+  sessionIndex.flushSync();
   process.exit(0);
 });
 process.on("SIGTERM", () => {
   stopMonitor();
   stopPermissionWatcher();
+  stopCodexApprovals();
   streamManager.stop();
+  for (const scraper of paneScrapers) scraper.stop();
+  sessionIndex.flushSync();
   process.exit(0);
 });
 
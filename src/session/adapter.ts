@@ -1,8 +1,64 @@
 import type { TmuxPane } from "./tmux.js";
 import type { ToolUseEntry } from "./jsonl.js";
+import type { WaitingType } from "./monitor.js";
 
 export type LatestSessionFile = { filePath: string; sessionId: string };
 
+export type LaunchOption = {
+  /** Button label ("Codex (full auto)"). */
+  label: string;
+  /** Flags appended to the launch command. */
+  args: string[];
+};
+
+export type WaitingClassification = {
+  waitingType: WaitingType;
+  prompt: string;
+  choices?: string[];
+  /** Stable key for this prompt, so repeat writes to the file don't re-notify. */
+  dedupKey: string;
+};
+
+/** One step of a conversation, as shown in transcript exports. */
+export type TranscriptEntry = {
+  kind: "user" | "assistant" | "tool_call" | "tool_result";
+  /** Message text, the tool input (JSON or a shell command), or the tool output. */
+  text: string;
+  toolName?: string;
+  /** Links a tool_result to its tool_call. */
+  callId?: string;
+  isError?: boolean;
+  timestamp?: Date;
+};
+
+export type TokenUsage = {
+  input: number;
+  output: number;
+  /** Prompt tokens written to the cache (billed above the input rate). */
+  cacheWrite: number;
+  /** Prompt tokens served from the cache (billed below the input rate). */
+  cacheRead: number;
+};
+
+/** Tokens used by one model request. */
+export type UsageRecord = {
+  usage: TokenUsage;
+  model?: string;
+  timestamp?: Date;
+  /** Size of the model's context window, when the CLI records it. */
+  contextWindow?: number;
+};
+
+/** How to start this CLI in a new tmux window from Telegram. */
+export type LaunchSpec = {
+  /** Display name for launch messages ("Claude Code"). */
+  label: string;
+  /** Command typed into the new window ("claude -c"). */
+  command: string;
+  /** Flag presets offered as buttons; the first should launch with no extra flags. */
+  options: LaunchOption[];
+};
+
 export interface SessionAdapter {
   /** Short label for logs and the message prefix ("claude", "codex"). */
   name: string;
@@ -10,15 +66,47 @@ export interface SessionAdapter {
   /** Root directory watched for this CLI's transcripts. */
   projectsPath: string;
 
+  /** Directory levels below projectsPath that the monitor watches (default 2). */
+  watchDepth?: number;
+
+  /**
+   * Whether a changed file below projectsPath is one of this CLI's transcripts.
+   * Optional: the monitor takes .jsonl files, and .json for adapters (Gemini).
+   */
+  isTranscriptFile?(filePath: string): boolean;
+
+  /**
+   * Transcript files to watch for CLIs without a central projectsPath, e.g. Aider's
+   * log inside each project. The monitor asks again every minute.
+   */
+  watchPaths?(): Promise<string[]>;
+
   /** Whether this adapter can detect images written by the agent (Claude only for now). */
   supportsImageDetection: boolean;
 
+  /** How to launch this CLI. Adapters without one are not offered in the launch keyboard. */
+  launch?: LaunchSpec;
+
   /** Detect a tmux pane running this CLI. */
   isAgentPane(pane: TmuxPane): boolean;
 
   /** Find the most recent transcript file for a given working directory. */
   getLatestSessionFileForCwd(cwd: string): Promise<LatestSessionFile | null>;
 
+  /**
+   * Read transcript entries written after `from` — a byte offset, or what
+   * transcriptPosition returned — one JSON entry per line.
+   * Optional: only needed for CLIs that don't append JSONL (Gemini, Aider).
+   * Callers fall back to slicing the file at `from`.
+   */
+  readLines?(filePath: string, from: number): Promise<string[]>;
+
+  /**
+   * Where the transcript ends now, to pass to readLines later. Defaults to the
+   * file size; CLIs that rewrite the whole file (Gemini) count entries instead.
+   */
+  transcriptPosition?(filePath: string): Promise<number>;
+
   /** Extract the latest assistant text (scanning backwards). */
   parseAssistantText(lines: string[]): {
     text: string | null;
@@ -26,10 +114,25 @@ export interface SessionAdapter {
     model: string | undefined;
   };
 
-  /** Detect turn completion (Claude: `result` event; Codex: `task_complete`). */
+  /**
+   * Decide whether the session is blocked on the user. Optional: without it the
+   * monitor checks the latest assistant text for a y/n or Enter prompt.
+   */
+  classifyWaiting?(lines: string[]): WaitingClassification | null;
+
+  /**
+   * The whole conversation: prompts, replies, tool calls and their results. Optional:
+   * sessions of adapters without it can't be exported.
+   */
+  readTranscript?(lines: string[]): TranscriptEntry[];
+
+  /** Token usage per model request. Optional: adapters without it report no usage. */
+  extractUsage?(lines: string[]): UsageRecord[];
+
+  /** Detect turn completion (Claude: `result` event; Codex: `task_complete`; Gemini: final reply). */
   findResultEvent(lines: string[]): boolean;
 
-  /** Extract tool_use / exec_command entries with stable IDs. Bash-equivalent only. */
+  /** Extract every tool call (tool_use, exec_command, ...) with a stable ID, a command or detail, and file edits. */
   extractToolUses(lines: string[]): ToolUseEntry[];
 
   /** Convert a model identifier to a short display name. */
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../tmux.js", () => ({ listTmuxPanes: vi.fn() }));
+
+import { AiderAdapter, parseChatHistory } from "./aider.js";
+import { listTmuxPanes } from "../tmux.js";
+import { mkdtemp, writeFile, appendFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const HISTORY = [
+  "",
+  "# aider chat started at 2026-04-23 10:00:00",
+  "",
+  "> /usr/local/bin/aider --model sonnet",
+  "> Main model: claude-sonnet-4-5 with diff edit format",
+  "",
+  "#### fix the failing test  ",
+  "",
+  "#### Plan",
+  "",
+  "The assertion compares the wrong field.",
+  "",
+  "I updated `user.test.ts`.",
+  "",
+  "> Applied edit to user.test.ts",
+  "> Tokens: 2.1k sent, 150 received. Cost: $0.01 message, $0.02 session.",
+  "",
+  "#### /run npm test  ",
+  "",
+  "> Add command output to the chat? (Y)es/(N)o [Yes]: y",
+  "",
+].join("\n");
+
+const INPUT_HISTORY = [
+  "",
+  "# 2026-04-23 10:00:05.000000",
+  "+fix the failing test",
+  "",
+  "# 2026-04-23 10:01:00.000000",
+  "+/run npm test",
+  "",
+].join("\n");
+
+function entriesAsLines(content: string, inputs: Set<string> | null): string[] {
+  return parseChatHistory(content, 0, "/repo", inputs).map((e) => JSON.stringify(e));
+}
+
+describe("parseChatHistory", () => {
+  const inputs = new Set(["fix the failing test", "/run npm test"]);
+
+  it("splits the log into session, user, assistant and output blocks", () => {
+    const entries = parseChatHistory(HISTORY, 0, "/repo", inputs);
+    expect(entries.map((e) => e.type)).toEqual([
+      "session_start",
+      "output",
+      "user",
+      "assistant",
+      "output",
+      "user",
+      "output",
+    ]);
+    expect(entries[0].text).toBe("2026-04-23 10:00:00");
+    expect(entries[2].text).toBe("fix the failing test");
+  });
+
+  it("keeps model-written #### headings in the assistant reply", () => {
+    const entries = parseChatHistory(HISTORY, 0, "/repo", inputs);
+    expect(entries[3].text).toBe(
+      "#### Plan\n\nThe assertion compares the wrong field.\n\nI updated `user.test.ts`."
+    );
+  });
+
+  it("treats every #### line as user input when the input history is unavailable", () => {
+    const entries = parseChatHistory(HISTORY, 0, "/repo", null);
+    expect(entries.filter((e) => e.type === "user").map((e) => e.text)).toEqual([
+      "fix the failing test\nPlan",
+      "/run npm test",
+    ]);
+  });
+
+  it("records byte offsets relative to the file", () => {
+    const entries = parseChatHistory("#### /run ls\n", 100, "/repo", null);
+    expect(entries[0].offset).toBe(100);
+  });
+});
+
+describe("AiderAdapter parsing", () => {
+  const adapter = new AiderAdapter();
+  const inputs = new Set(["fix the failing test", "/run npm test"]);
+
+  it("isAgentPane detects aider by command or python command line", () => {
+    expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "aider", cwd: "/tmp" })).toBe(true);
+    expect(
+      adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "Python", cwd: "/tmp", commandLine: "Python /opt/bin/aider --yes" })
+    ).toBe(true);
+    expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "zsh", cwd: "/tmp" })).toBe(false);
+  });
+
+  it("parseAssistantText returns the latest reply with model and cwd", () => {
+    const lines = entriesAsLines(HISTORY.split("#### /run")[0], inputs);
+    expect(adapter.parseAssistantText(lines)).toEqual({
+      text: "#### Plan\n\nThe assertion compares the wrong field.\n\nI updated `user.test.ts`.",
+      cwd: "/repo",
+      model: "claude-sonnet-4-5",
+    });
+  });
+
+  it("parseAssistantText stops at the user boundary", () => {
+    const lines = entriesAsLines(HISTORY, inputs);
+    expect(adapter.parseAssistantText(lines).text).toBeNull();
+  });
+
+  it("findResultEvent detects the token usage report", () => {
+    expect(adapter.findResultEvent(entriesAsLines(HISTORY, inputs))).toBe(true);
+    expect(adapter.findResultEvent(entriesAsLines("#### fix the failing test\n\nWorking on it\n", inputs))).toBe(false);
+  });
+
+  it("extractToolUses returns /run and ! commands with offset-based IDs", () => {
+    const content = "#### /run npm test\n\n#### !ls -la\n";
+    const tools = adapter.extractToolUses(entriesAsLines(content, null));
+    expect(tools).toEqual([
+      { id: "aider-run-0", name: "Bash", command: "npm test" },
+      { id: "aider-run-20", name: "Bash", command: "ls -la" },
+    ]);
+  });
+
+  it("friendlyModelName falls back to 'aider'", () => {
+    expect(adapter.friendlyModelName(undefined)).toBe("aider");
+    expect(adapter.friendlyModelName("gpt-4o")).toBe("gpt-4o");
+  });
+});
+
+describe("AiderAdapter session files", () => {
+  it("finds the chat history in the cwd and derives the session ID from the latest header", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "aider-adapter-"));
+    await writeFile(join(dir, ".aider.chat.history.md"), HISTORY + "\n# aider chat started at 2026-04-24 09:30:00\n");
+    const adapter = new AiderAdapter();
+
+    const result = await adapter.getLatestSessionFileForCwd(dir);
+    expect(result).toEqual({
+      filePath: join(dir, ".aider.chat.history.md"),
+      sessionId: "aider-20260424093000",
+    });
+  });
+
+  it("watchPaths names the chat history of each project running aider", async () => {
+    vi.mocked(listTmuxPanes).mockResolvedValue([
+      { paneId: "%1", shellPid: 1, command: "aider", cwd: "/repo/a" },
+      { paneId: "%2", shellPid: 2, command: "python3", cwd: "/repo/a", commandLine: "python3 /usr/bin/aider" },
+      { paneId: "%3", shellPid: 3, command: "zsh", cwd: "/repo/b" },
+    ]);
+    expect(await new AiderAdapter().watchPaths()).toEqual(["/repo/a/.aider.chat.history.md"]);
+
+    vi.mocked(listTmuxPanes).mockRejectedValue(new Error("no server running"));
+    expect(await new AiderAdapter().watchPaths()).toEqual([]);
+  });
+
+  it("returns null when the cwd has no chat history", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "aider-adapter-"));
+    expect(await new AiderAdapter().getLatestSessionFileForCwd(dir)).toBeNull();
+  });
+
+  it("readLines parses only bytes after the baseline, using the input history", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "aider-adapter-"));
+    const file = join(dir, ".aider.chat.history.md");
+    await writeFile(join(dir, ".aider.input.history"), INPUT_HISTORY);
+    await writeFile(file, "# aider chat started at 2026-04-23 10:00:00\n");
+    const baseline = Buffer.byteLength("# aider chat started at 2026-04-23 10:00:00\n");
+    await appendFile(file, "#### fix the failing test\n\n#### Plan\n\nDone.\n");
+
+    const adapter = new AiderAdapter();
+    const lines = await adapter.readLines(file, baseline);
+    const entries = lines.map((l) => JSON.parse(l));
+    expect(entries.map((e) => e.type)).toEqual(["user", "assistant"]);
+    expect(entries[0].offset).toBe(baseline);
+    expect(entries[1].cwd).toBe(dir);
+  });
+});
@@ -0,0 +1,249 @@
+import { readFile, stat } from "fs/promises";
+import { dirname, join } from "path";
+import type { SessionAdapter, LatestSessionFile, LaunchSpec } from "../adapter.js";
+import { listTmuxPanes, type TmuxPane } from "../tmux.js";
+import type { ToolUseEntry } from "../jsonl.js";
+
+const CHAT_HISTORY_FILE = ".aider.chat.history.md";
+const INPUT_HISTORY_FILE = ".aider.input.history";
+const COMMAND_TRUNCATE_LIMIT = 60;
+const SESSION_HEADER_RE = /^# aider chat started at (.+)$/;
+const USER_PREFIX = "#### ";
+// Aider reports token usage after every LLM reply, which makes it the end-of-turn marker.
+const USAGE_RE = /^Tokens: .+ sent, .+ received/;
+const MODEL_RE = /^(?:Main model|Model): (\S+)/;
+
+// One normalised entry per block of the markdown log. `offset` is the byte offset of
+// the block's first line in the chat history file, which gives /run commands a stable ID.
+type AiderEntry = {
+  type: "session_start" | "user" | "assistant" | "output";
+  text: string;
+  offset: number;
+  cwd: string;
+};
+
+// Aider keeps its transcript as markdown in the repo it runs in, not under a central
+// projects directory: user input is echoed as "#### " lines, aider's own output as
+// "> " blockquotes, and everything else is the model's reply. readLines converts that
+// log into one JSON entry per block so the parse methods below work on JSON lines like
+// every other adapter.
+export class AiderAdapter implements SessionAdapter {
+  name = "aider";
+  // Transcripts live next to the code (<cwd>/.aider.chat.history.md); see watchPaths.
+  projectsPath = "";
+  supportsImageDetection = false;
+  launch: LaunchSpec = {
+    label: "Aider",
+    command: "aider",
+    options: [
+      { label: "Aider", args: [] },
+      { label: "Aider (auto-confirm)", args: ["--yes-always"] },
+    ],
+  };
+
+  isAgentPane(pane: TmuxPane): boolean {
+    if (/aider/i.test(pane.command)) return true;
+    // Aider is a Python entry point, so pane.command is often "python3" or "Python".
+    if (pane.commandLine && /aider/i.test(pane.commandLine)) return true;
+    return false;
+  }
+
+  // The monitor can't watch a central directory, so it follows the chat history of
+  // every project an Aider pane is running in.
+  async watchPaths(): Promise<string[]> {
+    const panes = await listTmuxPanes().catch(() => []);
+    return [...new Set(panes.filter((p) => this.isAgentPane(p)).map((p) => join(p.cwd, CHAT_HISTORY_FILE)))];
+  }
+
+  async getLatestSessionFileForCwd(cwd: string): Promise<LatestSessionFile | null> {
+    const filePath = join(cwd, CHAT_HISTORY_FILE);
+    let content: string;
+    try {
+      await stat(filePath);
+      content = await readFile(filePath, "utf8");
+    } catch {
+      return null;
+    }
+
+    // Every aider launch appends a "# aider chat started at <ts>" header; the latest
+    // one identifies the current session.
+    let startedAt: string | null = null;
+    for (const line of content.split("\n")) {
+      const m = line.match(SESSION_HEADER_RE);
+      if (m) startedAt = m[1].trim();
+    }
+    const sessionId = startedAt ? `aider-${startedAt.replace(/[^0-9]/g, "")}` : "aider";
+    return { filePath, sessionId };
+  }
+
+  async readLines(filePath: string, fromByte: number): Promise<string[]> {
+    let buf: Buffer;
+    try {
+      buf = await readFile(filePath);
+    } catch {
+      return [];
+    }
+    const cwd = dirname(filePath);
+    const userInputs = await readInputHistory(join(cwd, INPUT_HISTORY_FILE));
+    return parseChatHistory(buf.subarray(fromByte).toString("utf8"), fromByte, cwd, userInputs)
+      .map((e) => JSON.stringify(e));
+  }
+
+  parseAssistantText(lines: string[]): {
+    text: string | null;
+    cwd: string | null;
+    model: string | undefined;
+  } {
+    const entries = parseEntries(lines);
+    let model: string | undefined;
+    for (const e of entries) {
+      if (e.type !== "output") continue;
+      for (const line of e.text.split("\n")) {
+        const m = line.match(MODEL_RE);
+        if (m) model = m[1];
+      }
+    }
+
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const e = entries[i];
+      if (e.type === "user" || e.type === "session_start") break;
+      if (e.type !== "assistant" || !e.text.trim()) continue;
+      return { text: e.text, cwd: e.cwd, model };
+    }
+    return { text: null, cwd: null, model };
+  }
+
+  findResultEvent(lines: string[]): boolean {
+    return parseEntries(lines).some(
+      (e) => e.type === "output" && e.text.split("\n").some((l) => USAGE_RE.test(l))
+    );
+  }
+
+  extractToolUses(lines: string[]): ToolUseEntry[] {
+    const result: ToolUseEntry[] = [];
+    for (const e of parseEntries(lines)) {
+      if (e.type !== "user") continue;
+      const cmd = runCommand(e.text);
+      if (cmd === null) continue;
+      const truncated =
+        cmd.length > COMMAND_TRUNCATE_LIMIT
+          ? cmd.slice(0, COMMAND_TRUNCATE_LIMIT - 3) + "..."
+          : cmd;
+      result.push({ id: `aider-run-${e.offset}`, name: "Bash", command: truncated });
+    }
+    return result;
+  }
+
+  friendlyModelName(modelId: string | undefined): string {
+    return modelId ?? "aider";
+  }
+}
+
+function parseEntries(lines: string[]): AiderEntry[] {
+  const entries: AiderEntry[] = [];
+  for (const line of lines) {
+    try {
+      const e = JSON.parse(line);
+      if (typeof e?.type === "string" && typeof e.text === "string") entries.push(e);
+    } catch {
+      continue;
+    }
+  }
+  return entries;
+}
+
+// "/run <cmd>" and its "!<cmd>" shorthand both execute a shell command in aider.
+function runCommand(input: string): string | null {
+  const trimmed = input.trim();
+  const m = trimmed.match(/^\/run\s+([\s\S]+)$/);
+  if (m) return m[1].trim();
+  if (trimmed.startsWith("!") && trimmed.length > 1) return trimmed.slice(1).trim();
+  return null;
+}
+
+// Aider's input history stores each submitted input as a "# <timestamp>" header followed
+// by "+"-prefixed lines. Returns the set of individual lines the user typed, or null if
+// the file is unreadable (in which case every "#### " line is treated as user input).
+async function readInputHistory(filePath: string): Promise<Set<string> | null> {
+  try {
+    const content = await readFile(filePath, "utf8");
+    const inputs = new Set<string>();
+    for (const line of content.split("\n")) {
+      if (line.startsWith("+")) inputs.add(line.slice(1).trim());
+    }
+    return inputs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split aider's markdown chat log into blocks. `baseOffset` is the byte offset of
+ * `content` within the file. Consecutive lines of the same kind are merged; blank
+ * lines are kept inside assistant blocks so paragraphs survive.
+ */
+export function parseChatHistory(
+  content: string,
+  baseOffset: number,
+  cwd: string,
+  userInputs: Set<string> | null
+): AiderEntry[] {
+  const entries: AiderEntry[] = [];
+  let offset = baseOffset;
+
+  const push = (type: AiderEntry["type"], text: string, at: number) => {
+    const last = entries[entries.length - 1];
+    if (last && last.type === type && type !== "session_start") {
+      last.text += "\n" + text;
+    } else {
+      entries.push({ type, text, offset: at, cwd });
+    }
+  };
+
+  for (const rawLine of content.split("\n")) {
+    const lineOffset = offset;
+    offset += Buffer.byteLength(rawLine, "utf8") + 1;
+    // Aider ends echoed lines with two spaces (a markdown hard break).
+    const line = rawLine.replace(/\s+$/, "");
+
+    const header = line.match(SESSION_HEADER_RE);
+    if (header) {
+      entries.push({ type: "session_start", text: header[1].trim(), offset: lineOffset, cwd });
+      continue;
+    }
+
+    if (line.startsWith(USER_PREFIX) || line === "####") {
+      const input = line.slice(USER_PREFIX.length).trim();
+      // The model may write its own "####" headings; only treat the line as user
+      // input if it matches something the user actually typed.
+      if (userInputs === null || userInputs.has(input) || input === "<blank>") {
+        const prev = entries[entries.length - 1];
+        // Each submitted input becomes its own entry so /run commands stay separate.
+        if (prev?.type === "user" && runCommand(prev.text) === null && runCommand(input) === null) {
+          prev.text += "\n" + input;
+        } else {
+          entries.push({ type: "user", text: input, offset: lineOffset, cwd });
+        }
+        continue;
+      }
+    }
+
+    if (line === ">" || line.startsWith("> ")) {
+      push("output", line.slice(2), lineOffset);
+      continue;
+    }
+
+    if (!line.trim()) {
+      const last = entries[entries.length - 1];
+      if (last?.type === "assistant") last.text += "\n";
+      continue;
+    }
+
+    push("assistant", line, lineOffset);
+  }
+
+  for (const e of entries) {
+    if (e.type === "assistant") e.text = e.text.trim();
+  }
+  return entries;
+}
@@ -1,4 +1,4 @@
-import type { SessionAdapter, LatestSessionFile } from "../adapter.js";
+import type { SessionAdapter, LatestSessionFile, LaunchSpec } from "../adapter.js";
 import type { TmuxPane } from "../tmux.js";
 import { isClaudePane } from "../tmux.js";
 import { PROJECTS_PATH, getLatestSessionFileForCwd } from "../history.js";
@@ -6,14 +6,25 @@ import {
   parseAssistantText,
   findResultEvent,
   extractToolUses,
+  extractTranscript,
+  extractUsage,
   type ToolUseEntry,
 } from "../jsonl.js";
+import { classifyClaudeWaiting } from "../monitor.js";
 import { friendlyModelName } from "../../telegram/notifications.js";
 
 export class ClaudeCodeAdapter implements SessionAdapter {
   name = "claude";
   projectsPath = PROJECTS_PATH;
   supportsImageDetection = true;
+  launch: LaunchSpec = {
+    label: "Claude Code",
+    command: "claude -c",
+    options: [
+      { label: "Claude", args: [] },
+      { label: "Claude (skip permissions)", args: ["--dangerously-skip-permissions"] },
+    ],
+  };
 
   isAgentPane(pane: TmuxPane): boolean {
     return isClaudePane(pane);
@@ -27,6 +38,18 @@ export class ClaudeCodeAdapter implements SessionAdapter {
     return parseAssistantText(lines);
   }
 
+  classifyWaiting(lines: string[]) {
+    return classifyClaudeWaiting(lines);
+  }
+
+  readTranscript(lines: string[]) {
+    return extractTranscript(lines);
+  }
+
+  extractUsage(lines: string[]) {
+    return extractUsage(lines);
+  }
+
   findResultEvent(lines: string[]): boolean {
     return findResultEvent(lines);
   }
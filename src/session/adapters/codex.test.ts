@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { CodexAdapter } from "./codex.js";
+import { CodexAdapter, findPendingApproval, parseApprovalPrompt } from "./codex.js";
 import { mkdtemp, mkdir, writeFile, utimes } from "fs/promises";
 import { tmpdir } from "os";
 import { join } from "path";
@@ -148,6 +148,22 @@ describe("CodexAdapter parsing", () => {
       const tools = adapter.extractToolUses(lines);
       expect(tools[0].command).toBe("ls /tmp");
     });
+
+    it("reports patches, web searches and MCP calls under Claude Code's tool names", () => {
+      const event = (payload: Record<string, unknown>) => JSON.stringify({ type: "event_msg", payload });
+      const lines = [
+        event({ type: "patch_apply_begin", call_id: "p1", changes: { "/repo/src/a.ts": { update: {} } } }),
+        event({ type: "patch_apply_begin", call_id: "p2", changes: { "/repo/a.ts": {}, "/repo/b.ts": {} } }),
+        event({ type: "web_search_end", call_id: "w1", query: "vitest fake timers" }),
+        event({ type: "mcp_tool_call_begin", call_id: "m1", invocation: { server: "github", tool: "get_issue", arguments: {} } }),
+      ];
+      expect(adapter.extractToolUses(lines)).toEqual([
+        { id: "p1", name: "Edit", detail: "/repo/src/a.ts" },
+        { id: "p2", name: "MultiEdit", detail: "/repo/a.ts, /repo/b.ts" },
+        { id: "w1", name: "WebSearch", detail: "vitest fake timers" },
+        { id: "m1", name: "mcp__github__get_issue" },
+      ]);
+    });
   });
 
   describe("friendlyModelName", () => {
@@ -218,3 +234,147 @@ describe("CodexAdapter session discovery", () => {
     expect(result).toBeNull();
   });
 });
+
+describe("Codex approvals", () => {
+  const execRequest = JSON.stringify({
+    type: "event_msg",
+    payload: { type: "exec_approval_request", call_id: "call_1", command: ["/bin/zsh", "-lc", "rm -rf dist"] },
+  });
+
+  it("findPendingApproval returns an unanswered exec request", () => {
+    expect(findPendingApproval([execRequest])).toEqual({ callId: "call_1", toolName: "Bash", command: "rm -rf dist" });
+  });
+
+  it("findPendingApproval ignores requests Codex already acted on", () => {
+    const begin = JSON.stringify({ type: "event_msg", payload: { type: "exec_command_begin", call_id: "call_1" } });
+    expect(findPendingApproval([execRequest, begin])).toBeNull();
+  });
+
+  it("findPendingApproval lists the paths of a patch request", () => {
+    const patch = JSON.stringify({
+      type: "event_msg",
+      payload: { type: "apply_patch_approval_request", call_id: "call_2", changes: { "/p/a.ts": {}, "/p/b.ts": {} } },
+    });
+    expect(findPendingApproval([execRequest, patch])).toEqual({ callId: "call_2", toolName: "Edit", command: "/p/a.ts\n/p/b.ts" });
+  });
+
+  it("parseApprovalPrompt reads the command from the overlay", () => {
+    const screen = [
+      "Would you like to run the following command?",
+      "",
+      "$ npm test -- --run",
+      "",
+      "› 1. Yes, proceed (y)",
+      "  2. No, and tell Codex what to do differently (esc)",
+    ].join("\n");
+    expect(parseApprovalPrompt(screen)).toEqual({ toolName: "Bash", command: "npm test -- --run" });
+    expect(parseApprovalPrompt("Would you like to make the following edits?\n")).toEqual({ toolName: "Edit" });
+    expect(parseApprovalPrompt("› fix the tests\n")).toBeNull();
+  });
+});
+
+describe("CodexAdapter.classifyWaiting", () => {
+  const adapter = new CodexAdapter();
+  const msg = (type: string, extra: object) => JSON.stringify({ type: "event_msg", payload: { type, ...extra } });
+
+  it("returns null while the turn is still running", () => {
+    const lines = [msg("user_message", { message: "go" }), msg("agent_message", { message: "Proceed? (y/n)" })];
+    expect(adapter.classifyWaiting(lines)).toBeNull();
+  });
+
+  it("classifies a finished turn ending on a y/n question", () => {
+    const lines = [
+      msg("user_message", { message: "go" }),
+      msg("task_complete", { last_agent_message: "Should I push the branch? (y/n)" }),
+    ];
+    expect(adapter.classifyWaiting(lines)).toMatchObject({ waitingType: "YES_NO", prompt: "Should I push the branch? (y/n)" });
+  });
+
+  it("offers the choices of a question that ends in a numbered list", () => {
+    const text = "Which approach should I take?\n1. **Patch** the parser\n2. Rewrite it";
+    const lines = [msg("agent_message", { message: text }), msg("task_complete", {})];
+    expect(adapter.classifyWaiting(lines)).toEqual({
+      waitingType: "MULTIPLE_CHOICE",
+      prompt: text,
+      choices: ["Patch the parser", "Rewrite it"],
+      dedupKey: text,
+    });
+  });
+
+  it("ignores a numbered summary that is not a question", () => {
+    const lines = [msg("agent_message", { message: "Done:\n1. Fixed a\n2. Fixed b" }), msg("task_complete", {})];
+    expect(adapter.classifyWaiting(lines)).toBeNull();
+  });
+});
+
+describe("CodexAdapter.readTranscript", () => {
+  const adapter = new CodexAdapter();
+  const event = (payload: Record<string, unknown>) =>
+    JSON.stringify({ type: "event_msg", timestamp: "2026-03-01T10:00:00Z", payload });
+
+  it("maps messages, commands and patches to transcript entries", () => {
+    const entries = adapter.readTranscript([
+      JSON.stringify({ type: "session_meta", payload: { cwd: "/tmp/proj" } }),
+      event({ type: "user_message", message: "fix the build" }),
+      event({ type: "exec_command_begin", call_id: "c1", command: ["/bin/zsh", "-lc", "npm run build"] }),
+      event({ type: "exec_command_end", call_id: "c1", aggregated_output: "error TS2345", exit_code: 2 }),
+      event({ type: "patch_apply_begin", call_id: "c2", changes: { "/tmp/proj/a.ts": { update: { unified_diff: "@@ -1 +1 @@\n-a\n+b" } } } }),
+      event({ type: "patch_apply_end", call_id: "c2", stdout: "Success", success: true }),
+      event({ type: "agent_message", message: "Fixed." }),
+    ]);
+
+    expect(entries.map((e) => [e.kind, e.toolName, e.callId])).toEqual([
+      ["user", undefined, undefined],
+      ["tool_call", "Bash", "c1"],
+      ["tool_result", undefined, "c1"],
+      ["tool_call", "Edit", "c2"],
+      ["tool_result", undefined, "c2"],
+      ["assistant", undefined, undefined],
+    ]);
+    expect(entries[1].text).toBe("npm run build");
+    expect(entries[2]).toMatchObject({ text: "error TS2345", isError: true });
+    expect(entries[3].text).toBe("update /tmp/proj/a.ts\n@@ -1 +1 @@\n-a\n+b");
+    expect(entries[4].isError).toBeUndefined();
+    expect(entries[0].timestamp).toEqual(new Date("2026-03-01T10:00:00Z"));
+  });
+});
+
+describe("CodexAdapter.extractUsage", () => {
+  const adapter = new CodexAdapter();
+  const tokenCount = (input: number, cached: number, output: number, total: number) => JSON.stringify({
+    type: "event_msg",
+    timestamp: "2026-03-01T10:00:00Z",
+    payload: {
+      type: "token_count",
+      info: {
+        total_token_usage: { total_tokens: total },
+        last_token_usage: { input_tokens: input, cached_input_tokens: cached, output_tokens: output },
+      },
+    },
+  });
+
+  it("reports each request's usage with the current model and skips repeated totals", () => {
+    const records = adapter.extractUsage([
+      JSON.stringify({ type: "turn_context", payload: { cwd: "/tmp/proj", model: "gpt-5" } }),
+      JSON.stringify({ type: "event_msg", payload: { type: "token_count", info: null } }),
+      tokenCount(1000, 800, 50, 1050),
+      tokenCount(1000, 800, 50, 1050),
+      tokenCount(1200, 1000, 20, 2270),
+    ]);
+    expect(records.map((r) => [r.usage, r.model])).toEqual([
+      [{ input: 200, output: 50, cacheWrite: 0, cacheRead: 800 }, "gpt-5"],
+      [{ input: 200, output: 20, cacheWrite: 0, cacheRead: 1000 }, "gpt-5"],
+    ]);
+  });
+
+  it("keeps the context window Codex reports", () => {
+    const [record] = adapter.extractUsage([JSON.stringify({
+      type: "event_msg",
+      payload: {
+        type: "token_count",
+        info: { last_token_usage: { input_tokens: 10, output_tokens: 1 }, model_context_window: 272_000 },
+      },
+    })]);
+    expect(record.contextWindow).toBe(272_000);
+  });
+});
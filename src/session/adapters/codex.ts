@@ -1,17 +1,30 @@
 import { homedir } from "os";
 import { readdir, readFile, stat } from "fs/promises";
 import { join } from "path";
-import type { SessionAdapter, LatestSessionFile } from "../adapter.js";
+import type { SessionAdapter, LatestSessionFile, LaunchSpec, WaitingClassification, TranscriptEntry, UsageRecord } from "../adapter.js";
+import { classifyWaitingType, WaitingType } from "../monitor.js";
 import type { TmuxPane } from "../tmux.js";
-import type { ToolUseEntry } from "../jsonl.js";
+import { describeToolUse, type ToolUseEntry } from "../jsonl.js";
 
 const CODEX_PROJECTS_PATH = `${homedir()}/.codex/sessions`;
-const COMMAND_TRUNCATE_LIMIT = 60;
 
 export class CodexAdapter implements SessionAdapter {
   name = "codex";
   projectsPath = CODEX_PROJECTS_PATH;
+  // <projectsPath>/YYYY/MM/DD/rollout-*.jsonl
+  watchDepth = 3;
   supportsImageDetection = false;
+  launch: LaunchSpec = {
+    label: "Codex",
+    command: "codex",
+    options: [
+      { label: "Codex", args: [] },
+      { label: "Codex (full auto)", args: ["--full-auto"] },
+      { label: "Sandbox: read-only", args: ["--sandbox", "read-only"] },
+      { label: "Sandbox: workspace-write", args: ["--sandbox", "workspace-write"] },
+      { label: "Sandbox: full access", args: ["--sandbox", "danger-full-access"] },
+    ],
+  };
 
   isAgentPane(pane: TmuxPane): boolean {
     if (/codex/i.test(pane.command)) return true;
@@ -60,10 +73,7 @@ export class CodexAdapter implements SessionAdapter {
         }
 
         if (best === null || mtime > best.mtime) {
-          const sessionId = file
-            .replace(/^rollout-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-/, "")
-            .replace(/\.jsonl$/, "");
-          best = { filePath, sessionId, mtime };
+          best = { filePath, sessionId: codexSessionId(file), mtime };
         }
       }
     }
@@ -128,6 +138,126 @@ export class CodexAdapter implements SessionAdapter {
     return { text, cwd, model };
   }
 
+  classifyWaiting(lines: string[]): WaitingClassification | null {
+    // Codex has no question tool: it is blocked on the user when a turn ends on a
+    // question. Messages before task_complete are progress updates, not questions.
+    let completed = false;
+    let text: string | null = null;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      try {
+        const entry = JSON.parse(lines[i]);
+        if (entry.type !== "event_msg") continue;
+        const p = entry.payload;
+        if (p?.type === "user_message") break;
+        if (p?.type === "task_complete") {
+          completed = true;
+          if (typeof p.last_agent_message === "string") text = p.last_agent_message;
+        }
+        if (p?.type === "agent_message" && text === null && typeof p.message === "string") {
+          text = p.message;
+        }
+      } catch {
+        continue;
+      }
+    }
+    if (!completed || !text) return null;
+
+    const waitingType = classifyWaitingType(text);
+    if (waitingType) return { waitingType, prompt: text, dedupKey: text };
+    const choices = trailingChoices(text);
+    if (choices) return { waitingType: WaitingType.MULTIPLE_CHOICE, prompt: text, choices, dedupKey: text };
+    return null;
+  }
+
+  readTranscript(lines: string[]): TranscriptEntry[] {
+    const result: TranscriptEntry[] = [];
+    for (const line of lines) {
+      let entry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (entry.type !== "event_msg") continue;
+      const p = entry.payload;
+      const timestamp = typeof entry.timestamp === "string" ? new Date(entry.timestamp) : undefined;
+      const callId = typeof p?.call_id === "string" ? p.call_id : undefined;
+      switch (p?.type) {
+        case "user_message":
+          if (typeof p.message === "string") result.push({ kind: "user", text: p.message, timestamp });
+          break;
+        case "agent_message":
+          if (typeof p.message === "string") result.push({ kind: "assistant", text: p.message, timestamp });
+          break;
+        case "exec_command_begin":
+          result.push({ kind: "tool_call", toolName: "Bash", text: pickCommandString(p.command), callId, timestamp });
+          break;
+        case "exec_command_end":
+          result.push({
+            kind: "tool_result",
+            text: typeof p.aggregated_output === "string" ? p.aggregated_output : [p.stdout, p.stderr].filter(Boolean).join("\n"),
+            callId,
+            ...(typeof p.exit_code === "number" && p.exit_code !== 0 ? { isError: true } : {}),
+            timestamp,
+          });
+          break;
+        case "patch_apply_begin":
+          result.push({ kind: "tool_call", toolName: "Edit", text: describePatch(p.changes), callId, timestamp });
+          break;
+        case "patch_apply_end":
+          result.push({
+            kind: "tool_result",
+            text: [p.stdout, p.stderr].filter(Boolean).join("\n"),
+            callId,
+            ...(p.success === false ? { isError: true } : {}),
+            timestamp,
+          });
+          break;
+      }
+    }
+    return result;
+  }
+
+  extractUsage(lines: string[]): UsageRecord[] {
+    // token_count events carry the usage of the latest request (last_token_usage)
+    // and a running total; Codex re-emits them unchanged on rate-limit updates, so a
+    // repeated total is skipped. OpenAI counts cached tokens inside input_tokens.
+    const result: UsageRecord[] = [];
+    let model: string | undefined;
+    let lastTotal: number | undefined;
+    for (const line of lines) {
+      try {
+        const entry = JSON.parse(line);
+        if (entry.type === "turn_context" && typeof entry.payload?.model === "string") {
+          model = entry.payload.model;
+          continue;
+        }
+        if (entry.type !== "event_msg" || entry.payload?.type !== "token_count") continue;
+        const info = entry.payload.info;
+        const last = info?.last_token_usage;
+        if (!last) continue;
+        const total = info.total_token_usage?.total_tokens;
+        if (total !== undefined && total === lastTotal) continue;
+        lastTotal = total;
+        const cached = last.cached_input_tokens ?? 0;
+        result.push({
+          usage: {
+            input: (last.input_tokens ?? 0) - cached,
+            output: last.output_tokens ?? 0,
+            cacheWrite: 0,
+            cacheRead: cached,
+          },
+          model,
+          timestamp: typeof entry.timestamp === "string" ? new Date(entry.timestamp) : undefined,
+          ...(typeof info.model_context_window === "number" ? { contextWindow: info.model_context_window } : {}),
+        });
+      } catch {
+        continue;
+      }
+    }
+    return result;
+  }
+
   findResultEvent(lines: string[]): boolean {
     return lines.some((line) => {
       try {
@@ -146,14 +276,26 @@ export class CodexAdapter implements SessionAdapter {
         const entry = JSON.parse(line);
         if (entry.type !== "event_msg") continue;
         const p = entry.payload;
-        if (p?.type !== "exec_command_end") continue;
-        if (typeof p.call_id !== "string") continue;
-        const cmd = pickCommandString(p.command);
-        const truncated =
-          cmd.length > COMMAND_TRUNCATE_LIMIT
-            ? cmd.slice(0, COMMAND_TRUNCATE_LIMIT - 3) + "..."
-            : cmd;
-        result.push({ id: p.call_id, name: "Bash", command: truncated });
+        if (typeof p?.call_id !== "string") continue;
+        // Named like Claude Code's tools so one notifyTools setting covers both CLIs.
+        switch (p.type) {
+          case "exec_command_end":
+            result.push({ id: p.call_id, name: "Bash", ...describeToolUse("Bash", { command: pickCommandString(p.command) }) });
+            break;
+          case "patch_apply_begin": {
+            const paths = p.changes && typeof p.changes === "object" ? Object.keys(p.changes) : [];
+            result.push({ id: p.call_id, name: paths.length > 1 ? "MultiEdit" : "Edit", ...describeToolUse("Edit", { file_path: paths.join(", ") }) });
+            break;
+          }
+          case "web_search_end":
+            result.push({ id: p.call_id, name: "WebSearch", ...describeToolUse("WebSearch", { query: p.query }) });
+            break;
+          case "mcp_tool_call_begin": {
+            const { server, tool } = p.invocation ?? {};
+            if (typeof server === "string" && typeof tool === "string") result.push({ id: p.call_id, name: `mcp__${server}__${tool}` });
+            break;
+          }
+        }
       } catch {
         continue;
       }
@@ -166,10 +308,46 @@ export class CodexAdapter implements SessionAdapter {
   }
 }
 
+// A question followed by a numbered list at the very end of the message, e.g.
+// "Which approach should I take?\n1. Patch it\n2. Rewrite it". A numbered list
+// alone is usually a summary of what was done, so the question mark is required.
+function trailingChoices(text: string): string[] | null {
+  const lines = text.trim().split("\n");
+  const choices: string[] = [];
+  let i = lines.length - 1;
+  for (; i >= 0; i--) {
+    const m = lines[i].match(/^\s*\d+[.)]\s+(.+)$/);
+    if (!m) break;
+    choices.unshift(m[1].replace(/\*\*/g, "").trim());
+  }
+  if (choices.length < 2) return null;
+  const before = lines.slice(0, i + 1).join("\n").trim();
+  return before.endsWith("?") || before.endsWith("?:") ? choices : null;
+}
+
+// A patch's changes are keyed by path; updates carry a unified diff, adds the new content.
+function describePatch(changes: unknown): string {
+  if (!changes || typeof changes !== "object") return "";
+  return Object.entries(changes as Record<string, Record<string, { unified_diff?: string; content?: string }>>)
+    .map(([path, change]) => {
+      const [action, detail] = Object.entries(change ?? {})[0] ?? ["update", {}];
+      const body = detail?.unified_diff ?? detail?.content ?? "";
+      return body ? `${action} ${path}\n${body}` : `${action} ${path}`;
+    })
+    .join("\n\n");
+}
+
+/** Session ID from a rollout filename: rollout-<timestamp>-<uuid>.jsonl → <uuid>. */
+export function codexSessionId(file: string): string {
+  return file
+    .replace(/^rollout-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-/, "")
+    .replace(/\.jsonl$/, "");
+}
+
 // Codex's command is usually ["/bin/zsh", "-lc", "<actual command>"]. The actual
 // command is the last element. If the array doesn't match that pattern, fall back
 // to joining all tokens.
-function pickCommandString(command: unknown): string {
+export function pickCommandString(command: unknown): string {
   if (!Array.isArray(command)) return "";
   const lcIndex = command.indexOf("-lc");
   if (lcIndex !== -1 && lcIndex < command.length - 1) {
@@ -178,3 +356,62 @@ function pickCommandString(command: unknown): string {
   }
   return command.filter((t) => typeof t === "string").join(" ");
 }
+
+export type CodexApproval = {
+  callId: string;
+  toolName: "Bash" | "Edit";
+  /** Shell command for exec approvals, changed paths for patch approvals. */
+  command: string;
+};
+
+/**
+ * Find the latest approval request in a rollout that Codex has not acted on yet
+ * (no exec_command_begin / patch_apply_begin with the same call_id after it).
+ */
+export function findPendingApproval(lines: string[]): CodexApproval | null {
+  const started = new Set<string>();
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const entry = JSON.parse(lines[i]);
+      if (entry.type !== "event_msg") continue;
+      const p = entry.payload;
+      if (typeof p?.call_id !== "string") continue;
+      if (p.type === "exec_command_begin" || p.type === "patch_apply_begin") {
+        started.add(p.call_id);
+        continue;
+      }
+      if (started.has(p.call_id)) continue;
+      if (p.type === "exec_approval_request") {
+        return { callId: p.call_id, toolName: "Bash", command: pickCommandString(p.command) };
+      }
+      if (p.type === "apply_patch_approval_request") {
+        const paths = p.changes && typeof p.changes === "object" ? Object.keys(p.changes) : [];
+        return { callId: p.call_id, toolName: "Edit", command: paths.join("\n") };
+      }
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+// Codex's approval overlay. Older releases ask "Allow command?" / "Allow patch?".
+const EXEC_PROMPT_RE = /Would you like to run the following command\?|Allow command\?/;
+const PATCH_PROMPT_RE = /Would you like to (?:make|apply) the following edits\?|Allow patch\?/;
+
+/**
+ * Detect an approval prompt on a captured Codex pane. The command is taken from the
+ * first "$ " line below the prompt header, when there is one.
+ */
+export function parseApprovalPrompt(screen: string): { toolName: "Bash" | "Edit"; command?: string } | null {
+  const lines = screen.split("\n");
+  const headerIndex = lines.findIndex((l) => EXEC_PROMPT_RE.test(l) || PATCH_PROMPT_RE.test(l));
+  if (headerIndex === -1) return null;
+  if (PATCH_PROMPT_RE.test(lines[headerIndex])) return { toolName: "Edit" };
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    const m = line.match(/^[\s│|]*\$ (.+?)[\s│|]*$/);
+    if (m) return { toolName: "Bash", command: m[1] };
+  }
+  return { toolName: "Bash" };
+}
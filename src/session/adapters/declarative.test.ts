@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, mkdir, writeFile, utimes } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../tmux.js", () => ({ listTmuxPanes: vi.fn() }));
+
+import { listTmuxPanes } from "../tmux.js";
+import { DeclarativeAdapter, getPath, expandGlob, type DeclarativeAdapterSpec } from "./declarative.js";
+
+const SPEC: DeclarativeAdapterSpec = {
+  name: "mycli",
+  panePattern: "^mycli$",
+  transcriptGlob: "/tmp/mycli/sessions/*.jsonl",
+  text: { where: { kind: "reply" }, path: "body.parts" },
+  completion: { where: { kind: "done" } },
+  toolCalls: { where: { kind: "tool", "call.tool": "shell" }, id: "call.id", command: "call.args[0]" },
+  userTurn: { where: { kind: "prompt" } },
+  cwd: "meta.cwd",
+  model: "meta.model",
+};
+
+const LINES = [
+  JSON.stringify({ kind: "meta", meta: { cwd: "/proj", model: "local-7b" } }),
+  JSON.stringify({ kind: "prompt", text: "hi" }),
+  JSON.stringify({ kind: "tool", call: { tool: "shell", id: 42, args: ["ls -la"] } }),
+  JSON.stringify({ kind: "tool", call: { tool: "edit", id: 43, args: ["a.ts"] } }),
+  JSON.stringify({ kind: "reply", body: { parts: [{ text: "Hello " }, "there"] } }),
+  JSON.stringify({ kind: "done" }),
+];
+
+describe("getPath", () => {
+  it("resolves dot and bracket paths, with an optional $. prefix", () => {
+    const value = { a: { b: [{ c: 1 }, { c: 2 }] } };
+    expect(getPath(value, "a.b[1].c")).toBe(2);
+    expect(getPath(value, "$.a.b[0].c")).toBe(1);
+    expect(getPath(value, "a.x.c")).toBeUndefined();
+  });
+});
+
+describe("DeclarativeAdapter parsing", () => {
+  const adapter = new DeclarativeAdapter(SPEC);
+
+  it("derives projectsPath from the static part of the glob", () => {
+    expect(adapter.projectsPath).toBe("/tmp/mycli/sessions");
+    expect(new DeclarativeAdapter({ ...SPEC, transcriptGlob: "{cwd}/.mycli/log.jsonl" }).projectsPath).toBe("");
+  });
+
+  it("watches as deep as the glob reaches, and only files its name part matches", () => {
+    expect(adapter.watchDepth).toBe(0);
+    expect(new DeclarativeAdapter({ ...SPEC, transcriptGlob: "/tmp/mycli/*/logs/*.jsonl" }).watchDepth).toBe(2);
+
+    const nested = new DeclarativeAdapter({ ...SPEC, transcriptGlob: "/tmp/mycli/**/session-*.log" });
+    expect(nested.projectsPath).toBe("/tmp/mycli");
+    expect(nested.watchDepth).toBe(Infinity);
+    expect(nested.isTranscriptFile("/tmp/mycli/a/b/c/session-1.log")).toBe(true);
+    expect(nested.isTranscriptFile("/tmp/mycli/a/notes.log")).toBe(false);
+    expect(adapter.isTranscriptFile("/tmp/mycli/sessions/x.json")).toBe(false);
+  });
+
+  it("matches panes with the configured regex", () => {
+    expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "mycli", cwd: "/tmp" })).toBe(true);
+    expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "zsh", cwd: "/tmp" })).toBe(false);
+  });
+
+  it("extracts text, cwd and model using the JSON-path rules", () => {
+    expect(adapter.parseAssistantText(LINES)).toEqual({ text: "Hello there", cwd: "/proj", model: "local-7b" });
+  });
+
+  it("stops at the user turn", () => {
+    expect(adapter.parseAssistantText(LINES.slice(0, 2)).text).toBeNull();
+  });
+
+  it("detects completion and shell tool calls", () => {
+    expect(adapter.findResultEvent(LINES)).toBe(true);
+    expect(adapter.findResultEvent(LINES.slice(0, 5))).toBe(false);
+    expect(adapter.extractToolUses(LINES)).toEqual([{ id: "42", name: "Bash", command: "ls -la" }]);
+  });
+
+  it("rejects specs without the required rules", () => {
+    expect(() => new DeclarativeAdapter({ ...SPEC, completion: undefined } as any)).toThrow(/completion/);
+    expect(() => new DeclarativeAdapter({ ...SPEC, transcriptGlob: "" })).toThrow(/transcriptGlob/);
+  });
+});
+
+describe("DeclarativeAdapter session files", () => {
+  it("expandGlob matches * and ** segments", async () => {
+    const root = await mkdtemp(join(tmpdir(), "decl-glob-"));
+    await mkdir(join(root, "a", "b"), { recursive: true });
+    await writeFile(join(root, "a", "one.jsonl"), "");
+    await writeFile(join(root, "a", "b", "two.jsonl"), "");
+    await writeFile(join(root, "a", "b", "skip.txt"), "");
+
+    expect((await expandGlob(join(root, "*", "*.jsonl"))).sort()).toEqual([join(root, "a", "one.jsonl")]);
+    expect((await expandGlob(join(root, "**", "*.jsonl"))).sort()).toEqual([
+      join(root, "a", "b", "two.jsonl"),
+      join(root, "a", "one.jsonl"),
+    ]);
+  });
+
+  it("substitutes {cwd} and picks the newest file", async () => {
+    const cwd = await mkdtemp(join(tmpdir(), "decl-cwd-"));
+    await mkdir(join(cwd, ".mycli"));
+    await writeFile(join(cwd, ".mycli", "old.jsonl"), "");
+    await writeFile(join(cwd, ".mycli", "new.jsonl"), "");
+    await utimes(join(cwd, ".mycli", "old.jsonl"), new Date(1000), new Date(1000));
+
+    const adapter = new DeclarativeAdapter({ ...SPEC, cwd: undefined, transcriptGlob: "{cwd}/.mycli/*.jsonl" });
+    expect(await adapter.getLatestSessionFileForCwd(cwd)).toEqual({
+      filePath: join(cwd, ".mycli", "new.jsonl"),
+      sessionId: "new",
+    });
+  });
+
+  it("watches the {cwd} transcripts of projects running the CLI", async () => {
+    const cwd = await mkdtemp(join(tmpdir(), "decl-watch-"));
+    await mkdir(join(cwd, ".mycli"));
+    await writeFile(join(cwd, ".mycli", "a.jsonl"), "");
+    vi.mocked(listTmuxPanes).mockResolvedValue([
+      { paneId: "%1", shellPid: 1, command: "mycli", cwd },
+      { paneId: "%2", shellPid: 2, command: "zsh", cwd: "/elsewhere" },
+    ]);
+
+    const adapter = new DeclarativeAdapter({ ...SPEC, transcriptGlob: "{cwd}/.mycli/*.jsonl" });
+    expect(await adapter.watchPaths?.()).toEqual([join(cwd, ".mycli", "a.jsonl")]);
+    expect(new DeclarativeAdapter(SPEC).watchPaths).toBeUndefined();
+  });
+
+  it("filters shared transcripts by the cwd path", async () => {
+    const root = await mkdtemp(join(tmpdir(), "decl-shared-"));
+    await writeFile(join(root, "a.jsonl"), JSON.stringify({ meta: { cwd: "/proj" } }) + "\n");
+    await writeFile(join(root, "b.jsonl"), JSON.stringify({ meta: { cwd: "/other" } }) + "\n");
+    await utimes(join(root, "a.jsonl"), new Date(1000), new Date(1000));
+
+    const adapter = new DeclarativeAdapter({ ...SPEC, transcriptGlob: join(root, "*.jsonl") });
+    expect((await adapter.getLatestSessionFileForCwd("/proj"))?.sessionId).toBe("a");
+    expect(await adapter.getLatestSessionFileForCwd("/nowhere")).toBeNull();
+  });
+});
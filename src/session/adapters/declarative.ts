@@ -0,0 +1,304 @@
+import { homedir } from "os";
+import { readdir, stat } from "fs/promises";
+import { basename, extname, join } from "path";
+import type { SessionAdapter, LatestSessionFile, LaunchSpec } from "../adapter.js";
+import { listTmuxPanes, type TmuxPane } from "../tmux.js";
+import type { ToolUseEntry } from "../jsonl.js";
+import { readSessionLines } from "../history.js";
+
+const COMMAND_TRUNCATE_LIMIT = 60;
+
+/** Matches a JSONL entry when every listed JSON path equals the given value. */
+export type EntryRule = {
+  where: Record<string, string | number | boolean>;
+};
+
+/**
+ * Declarative adapter spec, loaded from a `.json` file in ~/.codedove/adapters/.
+ *
+ * JSON paths use dot and bracket syntax, e.g. `payload.message` or
+ * `message.content[0].text` (a leading `$.` is allowed).
+ */
+export type DeclarativeAdapterSpec = {
+  name: string;
+  /** Regex matched against the pane's command and its full child command line. */
+  panePattern: string;
+  /**
+   * Glob for transcript files. Supports `*`, `?`, `**`, a leading `~`, and the
+   * placeholders `{cwd}` (the pane's cwd) and `{cwdSlug}` (the cwd with every
+   * non-alphanumeric character replaced by `-`). A glob starting with `{cwd}` is
+   * watched in the projects of the panes running this CLI.
+   */
+  transcriptGlob: string;
+  /** Entries carrying assistant text, and the path of the text within them. */
+  text: EntryRule & { path: string };
+  /** Entries that mark the end of a turn. */
+  completion: EntryRule;
+  /** Entries for shell tool calls, with paths to a stable call ID and the command. */
+  toolCalls?: EntryRule & { id: string; command: string };
+  /** Entries for user prompts — parseAssistantText stops scanning at these. */
+  userTurn?: EntryRule;
+  /** Path of the working directory in any entry. Also used to filter transcripts by cwd. */
+  cwd?: string;
+  /** Path of the model identifier in any entry. */
+  model?: string;
+  /** Command that starts the CLI, offered in the Telegram launch keyboard. */
+  launchCommand?: string;
+};
+
+export class DeclarativeAdapter implements SessionAdapter {
+  name: string;
+  projectsPath: string;
+  supportsImageDetection = false;
+  launch?: LaunchSpec;
+  watchDepth: number;
+  watchPaths?: () => Promise<string[]>;
+
+  private spec: DeclarativeAdapterSpec;
+  private panePattern: RegExp;
+  private fileNamePattern: RegExp;
+
+  constructor(spec: DeclarativeAdapterSpec) {
+    for (const key of ["name", "panePattern", "transcriptGlob"] as const) {
+      if (typeof spec[key] !== "string" || !spec[key]) throw new Error(`missing "${key}"`);
+    }
+    if (!spec.text?.where || typeof spec.text.path !== "string") throw new Error(`missing "text" rule`);
+    if (!spec.completion?.where) throw new Error(`missing "completion" rule`);
+    this.spec = spec;
+    this.name = spec.name;
+    this.panePattern = new RegExp(spec.panePattern, "i");
+    const glob = expandHome(spec.transcriptGlob);
+    this.projectsPath = staticPrefix(glob);
+    this.watchDepth = globDepth(glob, this.projectsPath);
+    // The file name part of the glob, with placeholders matching any name
+    this.fileNamePattern = segmentRegex(basename(glob).replace(/\{cwd(?:Slug)?\}/g, "*"));
+    // A glob under the project ({cwd}/...) has no root to watch, so the monitor
+    // follows the transcripts of every project a pane of this CLI runs in
+    if (!this.projectsPath) this.watchPaths = () => this.paneTranscripts();
+    if (spec.launchCommand) {
+      this.launch = { label: spec.name, command: spec.launchCommand, options: [{ label: spec.name, args: [] }] };
+    }
+  }
+
+  isTranscriptFile(filePath: string): boolean {
+    return this.fileNamePattern.test(basename(filePath));
+  }
+
+  isAgentPane(pane: TmuxPane): boolean {
+    if (this.panePattern.test(pane.command)) return true;
+    if (pane.commandLine && this.panePattern.test(pane.commandLine)) return true;
+    return false;
+  }
+
+  private globFor(cwd: string): string {
+    return expandHome(this.spec.transcriptGlob)
+      .replaceAll("{cwdSlug}", cwd.replace(/[^a-zA-Z0-9]/g, "-"))
+      .replaceAll("{cwd}", cwd);
+  }
+
+  private async paneTranscripts(): Promise<string[]> {
+    const panes = (await listTmuxPanes().catch(() => [])).filter((p) => this.isAgentPane(p));
+    const files = await Promise.all([...new Set(panes.map((p) => p.cwd))].map((cwd) => expandGlob(this.globFor(cwd))));
+    return [...new Set(files.flat())];
+  }
+
+  async getLatestSessionFileForCwd(cwd: string): Promise<LatestSessionFile | null> {
+    const files = await expandGlob(this.globFor(cwd));
+
+    const candidates: { filePath: string; mtime: number }[] = [];
+    for (const filePath of files) {
+      try {
+        candidates.push({ filePath, mtime: (await stat(filePath)).mtime.getTime() });
+      } catch {
+        continue;
+      }
+    }
+    candidates.sort((a, b) => b.mtime - a.mtime);
+
+    for (const { filePath } of candidates) {
+      if (this.spec.cwd) {
+        const lines = await readSessionLines(filePath).catch(() => []);
+        if (firstValue(lines, this.spec.cwd, "forward") !== cwd) continue;
+      }
+      return { filePath, sessionId: basename(filePath, extname(filePath)) };
+    }
+    return null;
+  }
+
+  parseAssistantText(lines: string[]): {
+    text: string | null;
+    cwd: string | null;
+    model: string | undefined;
+  } {
+    const cwd = this.spec.cwd ? firstValue(lines, this.spec.cwd, "backward") : null;
+    const model = this.spec.model ? firstValue(lines, this.spec.model, "backward") ?? undefined : undefined;
+
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const entry = parseLine(lines[i]);
+      if (entry === undefined) continue;
+      if (this.spec.userTurn && matches(entry, this.spec.userTurn)) break;
+      if (!matches(entry, this.spec.text)) continue;
+      const text = asText(getPath(entry, this.spec.text.path));
+      if (!text?.trim()) continue;
+      return { text, cwd, model };
+    }
+    return { text: null, cwd, model };
+  }
+
+  findResultEvent(lines: string[]): boolean {
+    return lines.some((line) => {
+      const entry = parseLine(line);
+      return entry !== undefined && matches(entry, this.spec.completion);
+    });
+  }
+
+  extractToolUses(lines: string[]): ToolUseEntry[] {
+    const rule = this.spec.toolCalls;
+    if (!rule) return [];
+    const result: ToolUseEntry[] = [];
+    for (const line of lines) {
+      const entry = parseLine(line);
+      if (entry === undefined || !matches(entry, rule)) continue;
+      const id = getPath(entry, rule.id);
+      if (typeof id !== "string" && typeof id !== "number") continue;
+      const cmd = asText(getPath(entry, rule.command)) ?? "";
+      const truncated =
+        cmd.length > COMMAND_TRUNCATE_LIMIT
+          ? cmd.slice(0, COMMAND_TRUNCATE_LIMIT - 3) + "..."
+          : cmd;
+      result.push({ id: String(id), name: "Bash", command: truncated });
+    }
+    return result;
+  }
+
+  friendlyModelName(modelId: string | undefined): string {
+    return modelId ?? this.name;
+  }
+}
+
+function parseLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+}
+
+function matches(entry: unknown, rule: EntryRule): boolean {
+  return Object.entries(rule.where).every(([path, value]) => getPath(entry, path) === value);
+}
+
+/** Resolve a dot/bracket JSON path (`a.b[0].c`, optionally prefixed with `$.`). */
+export function getPath(value: unknown, path: string): unknown {
+  const keys = path
+    .replace(/^\$\.?/, "")
+    .split(/\.|\[(\d+)\]/)
+    .filter((k) => k !== undefined && k !== "");
+  let current: unknown = value;
+  for (const key of keys) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+// Text fields are either a string or a list of strings / { text } parts.
+function asText(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) {
+    const parts = value
+      .map((v) => (typeof v === "string" ? v : typeof v?.text === "string" ? v.text : null))
+      .filter((v): v is string => v !== null);
+    return parts.length > 0 ? parts.join("") : null;
+  }
+  return null;
+}
+
+function firstValue(lines: string[], path: string, direction: "forward" | "backward"): string | null {
+  const n = lines.length;
+  for (let k = 0; k < n; k++) {
+    const entry = parseLine(lines[direction === "forward" ? k : n - 1 - k]);
+    if (entry === undefined) continue;
+    const value = getPath(entry, path);
+    if (typeof value === "string") return value;
+  }
+  return null;
+}
+
+function expandHome(pattern: string): string {
+  return pattern.startsWith("~/") ? join(homedir(), pattern.slice(2)) : pattern;
+}
+
+// The directory part of a glob before its first wildcard or placeholder — the root
+// that holds all of this adapter's transcripts ("" when it depends on the cwd).
+function staticPrefix(pattern: string): string {
+  const segments = pattern.split("/");
+  const fixed: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (/[*?{]/.test(segment)) break;
+    fixed.push(segment);
+  }
+  if (fixed.length === 0 || pattern.startsWith("{cwd")) return "";
+  return fixed.join("/") || "/";
+}
+
+// Directory levels between the watched root and the transcripts; any number for `**`.
+function globDepth(pattern: string, root: string): number {
+  if (!root) return 0;
+  const below = pattern.slice(root.length).split("/").filter(Boolean);
+  return below.includes("**") ? Infinity : Math.max(below.length - 1, 0);
+}
+
+function segmentRegex(segment: string): RegExp {
+  const escaped = segment.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]");
+  return new RegExp(`^${escaped}$`);
+}
+
+/** Expand an absolute glob (`*`, `?` within a segment; `**` across directories). */
+export async function expandGlob(pattern: string): Promise<string[]> {
+  const segments = pattern.split("/").filter(Boolean);
+  const results: string[] = [];
+
+  const walk = async (dir: string, i: number): Promise<void> => {
+    if (i === segments.length) {
+      results.push(dir);
+      return;
+    }
+    const segment = segments[i];
+    if (segment === "**") {
+      await walk(dir, i + 1);
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const e of entries) {
+        if (e.isDirectory()) await walk(join(dir, e.name), i);
+      }
+      return;
+    }
+    if (!/[*?]/.test(segment)) {
+      const next = join(dir, segment);
+      if (i === segments.length - 1) {
+        await stat(next).then(() => results.push(next), () => {});
+      } else {
+        await walk(next, i + 1);
+      }
+      return;
+    }
+    let names: string[];
+    try {
+      names = await readdir(dir);
+    } catch {
+      return;
+    }
+    const re = segmentRegex(segment);
+    for (const name of names) {
+      if (re.test(name)) await walk(join(dir, name), i + 1);
+    }
+  };
+
+  await walk("/", 0);
+  return results;
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import { GeminiAdapter, projectHash } from "./gemini.js";
+import { mkdtemp, mkdir, writeFile, utimes } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+function chatRecord(messages: object[], extra: object = {}): string {
+  return JSON.stringify(
+    { sessionId: "abc-123", projectHash: projectHash("/tmp/proj"), messages, ...extra },
+    null,
+    2
+  );
+}
+
+describe("GeminiAdapter parsing", () => {
+  const adapter = new GeminiAdapter();
+
+  describe("isAgentPane", () => {
+    it("detects Gemini by command or node wrapper command line", () => {
+      expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "gemini", cwd: "/tmp" })).toBe(true);
+      expect(
+        adapter.isAgentPane({
+          paneId: "%1",
+          shellPid: 1,
+          command: "node",
+          cwd: "/tmp",
+          commandLine: "node /usr/local/lib/node_modules/@google/gemini-cli/dist/index.js",
+        })
+      ).toBe(true);
+      expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "zsh", cwd: "/tmp" })).toBe(false);
+    });
+  });
+
+  describe("parseAssistantText", () => {
+    it("returns the latest gemini reply with model and cwd", () => {
+      const lines = [
+        JSON.stringify({ id: "m1", type: "user", content: "hi" }),
+        JSON.stringify({ id: "m2", type: "gemini", content: "Hello there", model: "gemini-2.5-pro", cwd: "/tmp/proj" }),
+      ];
+      const result = adapter.parseAssistantText(lines);
+      expect(result.text).toBe("Hello there");
+      expect(result.model).toBe("gemini-2.5-pro");
+      expect(result.cwd).toBe("/tmp/proj");
+    });
+
+    it("joins text parts when content is a part list", () => {
+      const lines = [
+        JSON.stringify({ id: "m1", type: "gemini", content: [{ text: "Part one. " }, { text: "Part two." }] }),
+      ];
+      expect(adapter.parseAssistantText(lines).text).toBe("Part one. Part two.");
+    });
+
+    it("stops at user message boundary", () => {
+      const lines = [
+        JSON.stringify({ id: "m1", type: "gemini", content: "old reply" }),
+        JSON.stringify({ id: "m2", type: "user", content: "new question" }),
+      ];
+      expect(adapter.parseAssistantText(lines).text).toBeNull();
+    });
+  });
+
+  describe("findResultEvent", () => {
+    it("is true when the latest message is a text reply without tool calls", () => {
+      const lines = [
+        JSON.stringify({ id: "m1", type: "user", content: "go" }),
+        JSON.stringify({ id: "m2", type: "gemini", content: "Done.", toolCalls: [] }),
+      ];
+      expect(adapter.findResultEvent(lines)).toBe(true);
+    });
+
+    it("is false while the latest reply still has tool calls", () => {
+      const lines = [
+        JSON.stringify({
+          id: "m2",
+          type: "gemini",
+          content: "",
+          toolCalls: [{ id: "t1", name: "run_shell_command", args: { command: "ls" }, status: "executing" }],
+        }),
+      ];
+      expect(adapter.findResultEvent(lines)).toBe(false);
+    });
+
+    it("is false when the latest message is from the user", () => {
+      const lines = [
+        JSON.stringify({ id: "m1", type: "gemini", content: "Done." }),
+        JSON.stringify({ id: "m2", type: "user", content: "next" }),
+      ];
+      expect(adapter.findResultEvent(lines)).toBe(false);
+    });
+
+    it("treats an error message as the end of the turn, skipping info messages", () => {
+      const lines = [
+        JSON.stringify({ id: "m1", type: "error", content: "quota exceeded" }),
+        JSON.stringify({ id: "m2", type: "info", content: "retrying" }),
+      ];
+      expect(adapter.findResultEvent(lines)).toBe(true);
+    });
+  });
+
+  describe("extractToolUses", () => {
+    it("returns Bash entries for run_shell_command calls only", () => {
+      const lines = [
+        JSON.stringify({
+          id: "m1",
+          type: "gemini",
+          content: "",
+          toolCalls: [
+            { id: "run_shell_command-1", name: "run_shell_command", args: { command: "npm test" } },
+            { id: "read_file-2", name: "read_file", args: { absolute_path: "/tmp/a" } },
+          ],
+        }),
+      ];
+      expect(adapter.extractToolUses(lines)).toEqual([
+        { id: "run_shell_command-1", name: "Bash", command: "npm test" },
+      ]);
+    });
+
+    it("truncates long commands", () => {
+      const lines = [
+        JSON.stringify({
+          id: "m1",
+          type: "gemini",
+          toolCalls: [{ id: "c1", name: "run_shell_command", args: { command: "a".repeat(100) } }],
+        }),
+      ];
+      expect(adapter.extractToolUses(lines)[0].command).toBe("a".repeat(57) + "...");
+    });
+  });
+
+  describe("friendlyModelName", () => {
+    it("returns model ID as-is, falling back to 'gemini'", () => {
+      expect(adapter.friendlyModelName("gemini-2.5-flash")).toBe("gemini-2.5-flash");
+      expect(adapter.friendlyModelName(undefined)).toBe("gemini");
+    });
+  });
+});
+
+describe("GeminiAdapter session files", () => {
+  it("finds the newest chat file under the cwd's project hash and reads its sessionId", async () => {
+    const root = await mkdtemp(join(tmpdir(), "gemini-adapter-"));
+    const adapter = new GeminiAdapter();
+    (adapter as any).projectsPath = root;
+
+    const chatsDir = join(root, projectHash("/tmp/proj"), "chats");
+    await mkdir(chatsDir, { recursive: true });
+    const oldFile = join(chatsDir, "session-2026-04-20T10-00-aaaaaaaa.json");
+    const newFile = join(chatsDir, "session-2026-04-23T10-00-bbbbbbbb.json");
+    await writeFile(oldFile, chatRecord([], { sessionId: "aaaaaaaa-old" }));
+    await writeFile(newFile, chatRecord([], { sessionId: "bbbbbbbb-new" }));
+    const nowMs = Date.now();
+    await utimes(oldFile, new Date(nowMs - 10_000), new Date(nowMs - 10_000));
+    await utimes(newFile, new Date(nowMs), new Date(nowMs));
+
+    const result = await adapter.getLatestSessionFileForCwd("/tmp/proj");
+    expect(result).toEqual({ filePath: newFile, sessionId: "bbbbbbbb-new" });
+  });
+
+  it("returns null when the project has no chats", async () => {
+    const root = await mkdtemp(join(tmpdir(), "gemini-adapter-"));
+    const adapter = new GeminiAdapter();
+    (adapter as any).projectsPath = root;
+
+    expect(await adapter.getLatestSessionFileForCwd("/tmp/nonexistent")).toBeNull();
+  });
+
+  it("readLines returns only messages written after the baseline position, annotated with cwd", async () => {
+    const root = await mkdtemp(join(tmpdir(), "gemini-adapter-"));
+    const adapter = new GeminiAdapter();
+    (adapter as any).projectsPath = root;
+
+    const chatsDir = join(root, projectHash("/tmp/proj"), "chats");
+    await mkdir(chatsDir, { recursive: true });
+    const file = join(chatsDir, "session-2026-04-23T10-00-cccccccc.json");
+    const before = chatRecord([
+      { id: "m1", type: "user", content: "first" },
+      { id: "m2", type: "gemini", content: "first reply" },
+    ]);
+    await writeFile(file, before);
+    await adapter.getLatestSessionFileForCwd("/tmp/proj");
+    const baseline = await adapter.transcriptPosition(file);
+    expect(baseline).toBe(2);
+
+    await writeFile(
+      file,
+      chatRecord([
+        { id: "m1", type: "user", content: "first" },
+        { id: "m2", type: "gemini", content: "first reply" },
+        { id: "m3", type: "user", content: "second" },
+        { id: "m4", type: "gemini", content: "second reply" },
+      ])
+    );
+
+    const lines = await adapter.readLines(file, baseline);
+    expect(lines.map((l) => JSON.parse(l).id)).toEqual(["m3", "m4"]);
+    expect(adapter.parseAssistantText(lines)).toEqual({ text: "second reply", cwd: "/tmp/proj", model: undefined });
+
+    const all = await adapter.readLines(file, 0);
+    expect(all).toHaveLength(4);
+
+    // Mid-write: the last count read stands in
+    await writeFile(file, "{ \"messages\": [");
+    expect(await adapter.transcriptPosition(file)).toBe(4);
+  });
+});
@@ -0,0 +1,204 @@
+import { homedir } from "os";
+import { createHash } from "crypto";
+import { readdir, readFile, stat } from "fs/promises";
+import { join } from "path";
+import type { SessionAdapter, LatestSessionFile, LaunchSpec } from "../adapter.js";
+import type { TmuxPane } from "../tmux.js";
+import type { ToolUseEntry } from "../jsonl.js";
+
+const GEMINI_PROJECTS_PATH = `${homedir()}/.gemini/tmp`;
+const COMMAND_TRUNCATE_LIMIT = 60;
+const SHELL_TOOL_NAME = "run_shell_command";
+
+type GeminiToolCall = {
+  id?: string;
+  name?: string;
+  args?: Record<string, unknown>;
+  status?: string;
+};
+
+type GeminiMessage = {
+  id?: string;
+  type?: string;
+  content?: unknown;
+  model?: string;
+  toolCalls?: GeminiToolCall[];
+  cwd?: string;
+};
+
+// Gemini CLI records each chat as a single JSON document at
+// <projectsPath>/<sha256(cwd)>/chats/session-<ts>-<id>.json and rewrites it in place
+// after every message. readLines flattens the messages into one JSON line each so the
+// rest of the adapter (and watchForResponse) can treat it like any other transcript.
+export class GeminiAdapter implements SessionAdapter {
+  name = "gemini";
+  projectsPath = GEMINI_PROJECTS_PATH;
+  supportsImageDetection = false;
+  launch: LaunchSpec = {
+    label: "Gemini CLI",
+    command: "gemini",
+    options: [
+      { label: "Gemini", args: [] },
+      { label: "Gemini (YOLO)", args: ["--yolo"] },
+    ],
+  };
+
+  // projectHash → cwd, learned in getLatestSessionFileForCwd. The chat file only
+  // stores the hash, so this is how parsed messages get their cwd back.
+  private cwdByHash = new Map<string, string>();
+  // filePath → messages in the chat when last read successfully
+  private messageCounts = new Map<string, number>();
+
+  isAgentPane(pane: TmuxPane): boolean {
+    if (/gemini/i.test(pane.command)) return true;
+    // Gemini CLI is a node script, so pane.command is usually "node".
+    if (pane.commandLine && /gemini/i.test(pane.commandLine)) return true;
+    return false;
+  }
+
+  async getLatestSessionFileForCwd(cwd: string): Promise<LatestSessionFile | null> {
+    const hash = projectHash(cwd);
+    const chatsDir = join(this.projectsPath, hash, "chats");
+
+    let files: string[];
+    try {
+      files = (await readdir(chatsDir)).filter((f) => f.startsWith("session-") && f.endsWith(".json"));
+    } catch {
+      return null;
+    }
+
+    let best: { file: string; mtime: number } | null = null;
+    for (const file of files) {
+      try {
+        const mtime = (await stat(join(chatsDir, file))).mtime.getTime();
+        if (best === null || mtime > best.mtime) best = { file, mtime };
+      } catch {
+        continue;
+      }
+    }
+    if (!best) return null;
+
+    this.cwdByHash.set(hash, cwd);
+    const filePath = join(chatsDir, best.file);
+    let sessionId = best.file.replace(/^session-/, "").replace(/\.json$/, "");
+    try {
+      const record = JSON.parse(await readFile(filePath, "utf8"));
+      if (typeof record.sessionId === "string") sessionId = record.sessionId;
+    } catch {
+      // file mid-write — keep the filename-derived id
+    }
+    return { filePath, sessionId };
+  }
+
+  async readLines(filePath: string, from: number): Promise<string[]> {
+    const record = await readChatRecord(filePath);
+    if (!record) return [];
+    const messages = Array.isArray(record.messages) ? record.messages : [];
+    this.messageCounts.set(filePath, messages.length);
+    const cwd = record.projectHash ? this.cwdByHash.get(record.projectHash) : undefined;
+
+    // The file is rewritten rather than appended, but messages are only ever appended
+    // to the array, so `from` (see transcriptPosition) is a message count.
+    return messages.slice(from).map((m) => JSON.stringify(cwd ? { ...m, cwd } : m));
+  }
+
+  /** Messages in the chat so far; the last count read stands in while the file is mid-write. */
+  async transcriptPosition(filePath: string): Promise<number> {
+    const record = await readChatRecord(filePath);
+    if (!record) return this.messageCounts.get(filePath) ?? 0;
+    const count = Array.isArray(record.messages) ? record.messages.length : 0;
+    this.messageCounts.set(filePath, count);
+    return count;
+  }
+
+  parseAssistantText(lines: string[]): {
+    text: string | null;
+    cwd: string | null;
+    model: string | undefined;
+  } {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      try {
+        const msg: GeminiMessage = JSON.parse(lines[i]);
+        if (msg.type === "user") break;
+        if (msg.type !== "gemini") continue;
+        const text = contentText(msg.content);
+        if (!text.trim()) continue;
+        return { text, cwd: msg.cwd ?? null, model: msg.model };
+      } catch {
+        continue;
+      }
+    }
+    return { text: null, cwd: null, model: undefined };
+  }
+
+  findResultEvent(lines: string[]): boolean {
+    // Gemini writes no explicit end-of-turn marker. A turn is over once the latest
+    // message is a text reply with no tool calls attached, or an error.
+    for (let i = lines.length - 1; i >= 0; i--) {
+      try {
+        const msg: GeminiMessage = JSON.parse(lines[i]);
+        if (msg.type === "info" || msg.type === "warning") continue;
+        if (msg.type === "error") return true;
+        if (msg.type !== "gemini") return false;
+        const hasToolCalls = Array.isArray(msg.toolCalls) && msg.toolCalls.length > 0;
+        return !hasToolCalls && contentText(msg.content).trim().length > 0;
+      } catch {
+        continue;
+      }
+    }
+    return false;
+  }
+
+  extractToolUses(lines: string[]): ToolUseEntry[] {
+    const result: ToolUseEntry[] = [];
+    for (const line of lines) {
+      try {
+        const msg: GeminiMessage = JSON.parse(line);
+        if (msg.type !== "gemini" || !Array.isArray(msg.toolCalls)) continue;
+        for (const call of msg.toolCalls) {
+          if (call.name !== SHELL_TOOL_NAME || typeof call.id !== "string") continue;
+          const cmd = typeof call.args?.command === "string" ? call.args.command : "";
+          const truncated =
+            cmd.length > COMMAND_TRUNCATE_LIMIT
+              ? cmd.slice(0, COMMAND_TRUNCATE_LIMIT - 3) + "..."
+              : cmd;
+          result.push({ id: call.id, name: "Bash", command: truncated });
+        }
+      } catch {
+        continue;
+      }
+    }
+    return result;
+  }
+
+  friendlyModelName(modelId: string | undefined): string {
+    return modelId ?? "gemini";
+  }
+}
+
+type ChatRecord = { projectHash?: string; messages?: GeminiMessage[] };
+
+async function readChatRecord(filePath: string): Promise<ChatRecord | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// Gemini CLI keys its per-project temp dir by the sha256 of the project root.
+export function projectHash(cwd: string): string {
+  return createHash("sha256").update(cwd).digest("hex");
+}
+
+// Message content is a plain string in older Gemini CLI versions and a list of
+// parts ({ text }) in newer ones.
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === "string" ? part : typeof part?.text === "string" ? part.text : ""))
+      .join("");
+  }
+  return "";
+}
@@ -1,12 +1,24 @@
 import type { SessionAdapter } from "../adapter.js";
 import type { TmuxPane } from "../tmux.js";
+import { registerAgentPanePredicate } from "../tmux.js";
 import { ClaudeCodeAdapter } from "./claude.js";
 import { CodexAdapter } from "./codex.js";
+import { GeminiAdapter } from "./gemini.js";
+import { AiderAdapter } from "./aider.js";
 
 export const adapters: SessionAdapter[] = [
   new ClaudeCodeAdapter(),
   new CodexAdapter(),
+  new GeminiAdapter(),
+  new AiderAdapter(),
 ];
+for (const adapter of adapters) registerAgentPanePredicate((p) => adapter.isAgentPane(p));
+
+/** Add an adapter configured at startup. It is tried after the built-in ones. */
+export function registerAdapter(adapter: SessionAdapter): void {
+  adapters.push(adapter);
+  registerAgentPanePredicate((p) => adapter.isAgentPane(p));
+}
 
 /** Pick the first adapter that recognises this pane, or null. */
 export function adapterForPane(pane: TmuxPane): SessionAdapter | null {
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { access, mkdtemp, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../../logger.js", () => ({
+  log: vi.fn(),
+}));
+
+vi.mock("../tmux.js", () => ({
+  listTmuxPanes: vi.fn(),
+  capturePaneContent: vi.fn(),
+}));
+
+import { PaneScrapeAdapter, diffCapture } from "./pane.js";
+import { listTmuxPanes, capturePaneContent } from "../tmux.js";
+
+describe("diffCapture", () => {
+  it("returns lines appended below the previous output", () => {
+    expect(diffCapture(">>> 1+1\n2\n", ">>> 1+1\n2\n>>> 2+2\n4\n")).toEqual([">>> 2+2", "4"]);
+  });
+
+  it("handles the screen scrolling up", () => {
+    expect(diffCapture("a\nb\nc\n", "b\nc\nd\ne\n")).toEqual(["d", "e"]);
+  });
+
+  it("reports a grown last line in full", () => {
+    expect(diffCapture("out\n>>> ", "out\n>>> print(1)\n1\n")).toEqual([">>> print(1)", "1"]);
+  });
+
+  it("returns nothing for an unchanged screen, ignoring blank padding", () => {
+    expect(diffCapture("x\ny\n\n\n", "x\ny\n")).toEqual([]);
+  });
+
+  it("returns the whole screen when nothing overlaps (screen cleared)", () => {
+    expect(diffCapture("old\nstuff\n", "fresh\n")).toEqual(["fresh"]);
+  });
+});
+
+describe("PaneScrapeAdapter parsing", () => {
+  const adapter = new PaneScrapeAdapter({ name: "python", panePattern: "^python" });
+
+  it("uses the configured name and matches panes by pattern", () => {
+    expect(adapter.name).toBe("python");
+    expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "python3", cwd: "/tmp" })).toBe(true);
+    expect(adapter.isAgentPane({ paneId: "%1", shellPid: 1, command: "zsh", cwd: "/tmp" })).toBe(false);
+    expect(adapter.friendlyModelName(undefined)).toBe("python");
+  });
+
+  it("returns no text until the turn has ended", () => {
+    const lines = [JSON.stringify({ type: "output", text: "running...", cwd: "/p" })];
+    expect(adapter.parseAssistantText(lines).text).toBeNull();
+    expect(adapter.findResultEvent(lines)).toBe(false);
+  });
+
+  it("joins all output of the latest turn once it has ended", () => {
+    const lines = [
+      JSON.stringify({ type: "output", text: "old turn", cwd: "/p" }),
+      JSON.stringify({ type: "turn_end", reason: "idle" }),
+      JSON.stringify({ type: "output", text: "line 1", cwd: "/p" }),
+      JSON.stringify({ type: "output", text: "line 2", cwd: "/p" }),
+      JSON.stringify({ type: "turn_end", reason: "prompt" }),
+    ];
+    expect(adapter.parseAssistantText(lines)).toEqual({ text: "line 1\nline 2", cwd: "/p", model: undefined });
+    expect(adapter.findResultEvent(lines)).toBe(true);
+    expect(adapter.extractToolUses(lines)).toEqual([]);
+  });
+});
+
+describe("PaneScrapeAdapter polling", () => {
+  let adapter: PaneScrapeAdapter;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.mocked(listTmuxPanes).mockResolvedValue([
+      { paneId: "%7", shellPid: 1, command: "python3", cwd: "/proj" },
+    ]);
+  });
+
+  afterEach(() => {
+    adapter?.stop();
+    vi.useRealTimers();
+  });
+
+  async function makeAdapter(config: { promptPattern?: string; idleSeconds?: number }) {
+    adapter = new PaneScrapeAdapter({ panePattern: "python", ...config });
+    (adapter as any).projectsPath = await mkdtemp(join(tmpdir(), "pane-adapter-"));
+    return adapter;
+  }
+
+  // One poll a second of (fake) time, each run to completion including its file writes
+  async function pollFor(seconds: number) {
+    for (let i = 0; i < seconds; i++) {
+      vi.advanceTimersByTime(1000);
+      await (adapter as any).poll();
+    }
+  }
+
+  async function readEntries(filePath: string) {
+    return (await readFile(filePath, "utf8")).trim().split("\n").filter(Boolean).map((l) => JSON.parse(l));
+  }
+
+  it("returns null when no matching pane runs at the cwd", async () => {
+    await makeAdapter({});
+    expect(await adapter.getLatestSessionFileForCwd("/elsewhere")).toBeNull();
+  });
+
+  it("polls only once started, and not after stop", async () => {
+    await makeAdapter({});
+    const poll = vi.spyOn(adapter as any, "poll").mockResolvedValue(undefined);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(poll).not.toHaveBeenCalled();
+
+    adapter.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(poll).toHaveBeenCalledTimes(3);
+
+    adapter.stop();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(poll).toHaveBeenCalledTimes(3);
+  });
+
+  it("appends new output and ends the turn when the prompt regex matches", async () => {
+    await makeAdapter({ promptPattern: "^>>>$" });
+    const screens = [">>> ", ">>> print('hi')\nhi\n>>> "];
+    vi.mocked(capturePaneContent).mockImplementation(async () => screens.shift() ?? ">>> print('hi')\nhi\n>>> ");
+
+    const file = await adapter.getLatestSessionFileForCwd("/proj");
+    expect(file).toEqual({ filePath: join(adapter.projectsPath, "pane-7.jsonl"), sessionId: "pane-7" });
+
+    await pollFor(2);
+
+    const entries = await readEntries(file!.filePath);
+    expect(entries.map((e) => e.type)).toEqual(["output", "turn_end"]);
+    expect(entries[1].reason).toBe("prompt");
+    const lines = entries.map((e) => JSON.stringify(e));
+    expect(adapter.parseAssistantText(lines).text).toBe(">>> print('hi')\nhi\n>>>");
+  });
+
+  it("ends the turn after the idle period without a prompt regex", async () => {
+    await makeAdapter({ idleSeconds: 3 });
+    const screens = ["$ npm test", "$ npm test\nPASS a.test.ts"];
+    vi.mocked(capturePaneContent).mockImplementation(async () => screens.shift() ?? "$ npm test\nPASS a.test.ts");
+
+    const file = await adapter.getLatestSessionFileForCwd("/proj");
+    await pollFor(2);
+    expect((await readEntries(file!.filePath)).map((e) => e.type)).toEqual(["output"]);
+
+    await pollFor(3);
+    const entries = await readEntries(file!.filePath);
+    expect(entries.map((e) => e.type)).toEqual(["output", "turn_end"]);
+    expect(entries[1].reason).toBe("idle");
+  });
+
+  it("keeps each scraper's transcripts in a directory of its own", () => {
+    const python = new PaneScrapeAdapter({ name: "python", panePattern: "python" });
+    const node = new PaneScrapeAdapter({ name: "node repl", panePattern: "node" });
+    expect(python.projectsPath).not.toBe(node.projectsPath);
+    expect(node.projectsPath.endsWith("node_repl")).toBe(true);
+  });
+
+  it("empties a transcript past the size cap when the next turn starts", async () => {
+    await makeAdapter({ idleSeconds: 1 });
+    const big = "x".repeat(1024 * 1024 + 10);
+    const screens = ["$ ", `$ \n${big}`, `$ \n${big}`];
+    vi.mocked(capturePaneContent).mockImplementation(async () => screens.shift() ?? "fresh screen");
+
+    const file = await adapter.getLatestSessionFileForCwd("/proj");
+    await pollFor(3);
+    expect((await readEntries(file!.filePath)).map((e) => e.type)).toEqual(["output", "turn_end"]);
+
+    await pollFor(1);
+    expect((await readEntries(file!.filePath)).map((e) => e.text)).toEqual(["fresh screen"]);
+  });
+
+  it("stops polling a pane once it is gone and removes its transcript", async () => {
+    await makeAdapter({});
+    vi.mocked(capturePaneContent).mockResolvedValue("$ ");
+
+    const file = await adapter.getLatestSessionFileForCwd("/proj");
+    await pollFor(1);
+    await access(file!.filePath);
+
+    vi.mocked(listTmuxPanes).mockResolvedValue([]);
+    vi.mocked(capturePaneContent).mockClear();
+    await pollFor(2);
+
+    expect(capturePaneContent).not.toHaveBeenCalled();
+    await expect(access(file!.filePath)).rejects.toThrow();
+  });
+});
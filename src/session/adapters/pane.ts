@@ -0,0 +1,252 @@
+import { homedir } from "os";
+import { appendFile, mkdir, writeFile, unlink } from "fs/promises";
+import { join } from "path";
+import type { SessionAdapter, LatestSessionFile } from "../adapter.js";
+import type { TmuxPane } from "../tmux.js";
+import { listTmuxPanes, capturePaneContent } from "../tmux.js";
+import type { ToolUseEntry } from "../jsonl.js";
+import type { PaneScraperConfig } from "../../config/config.js";
+import { log } from "../../logger.js";
+
+const PANES_PATH = join(homedir(), ".codedove", "panes");
+const POLL_INTERVAL = 1000;
+const DEFAULT_IDLE_SECONDS = 10;
+// A pane's transcript is emptied when a new turn starts past this size. Watchers
+// tailing it notice the truncation and start over from the top.
+const MAX_TRANSCRIPT_BYTES = 1024 * 1024;
+
+type PaneState = {
+  cwd: string;
+  filePath: string;
+  previous: string | null;
+  lastOutputAt: number;
+  turnOpen: boolean;
+  bytes: number;
+};
+
+// Fallback adapter for tmux panes that write no transcript. While started, it polls
+// matching panes with capture-pane, diffs successive snapshots, and appends what
+// changed to a transcript of its own under ~/.codedove/panes/<name>/:
+//   {"type":"output","text":"...","cwd":"..."}  — new screen lines
+//   {"type":"turn_end","reason":"idle"|"prompt"} — output went quiet or the prompt returned
+// watchForResponse then tails that file exactly like a Claude or Codex JSONL.
+export class PaneScrapeAdapter implements SessionAdapter {
+  name: string;
+  projectsPath: string;
+  supportsImageDetection = false;
+
+  private panePattern: RegExp;
+  private promptPattern: RegExp | null;
+  private idleMs: number;
+  private panes = new Map<string, PaneState>();
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(config: PaneScraperConfig) {
+    this.name = config.name ?? "pane";
+    this.panePattern = new RegExp(config.panePattern, "i");
+    this.promptPattern = config.promptPattern ? new RegExp(config.promptPattern) : null;
+    this.idleMs = (config.idleSeconds ?? DEFAULT_IDLE_SECONDS) * 1000;
+    // A directory per scraper, so the monitor watches each one with its own adapter
+    this.projectsPath = join(PANES_PATH, this.name.replace(/[^a-zA-Z0-9_-]/g, "_"));
+  }
+
+  isAgentPane(pane: TmuxPane): boolean {
+    if (this.panePattern.test(pane.command)) return true;
+    if (pane.commandLine && this.panePattern.test(pane.commandLine)) return true;
+    return false;
+  }
+
+  async getLatestSessionFileForCwd(cwd: string): Promise<LatestSessionFile | null> {
+    const pane = (await listTmuxPanes()).find((p) => p.cwd === cwd && this.isAgentPane(p));
+    if (!pane) return null;
+    const sessionId = paneSessionId(pane.paneId);
+    return { filePath: join(this.projectsPath, `${sessionId}.jsonl`), sessionId };
+  }
+
+  /** Start polling matching panes. Panes that appear later are picked up, and ones that go away dropped. */
+  start(): void {
+    if (this.intervalId) return;
+    this.intervalId = setInterval(() => void this.poll(), POLL_INTERVAL);
+    log({ message: `pane scraper (${this.name}): started` });
+  }
+
+  /** Stop polling (used on shutdown). */
+  stop(): void {
+    if (this.intervalId) clearInterval(this.intervalId);
+    this.intervalId = null;
+    this.panes.clear();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const live = (await listTmuxPanes()).filter((p) => this.isAgentPane(p));
+      const liveIds = new Set(live.map((p) => p.paneId));
+      for (const [paneId, state] of this.panes) {
+        if (liveIds.has(paneId)) continue;
+        // Pane is gone — so is its transcript. A new one starts if it reappears.
+        this.panes.delete(paneId);
+        await unlink(state.filePath).catch(() => {});
+        log({ message: `pane scraper (${this.name}): pane ${paneId} gone, stopped polling` });
+      }
+      for (const pane of live) {
+        let state = this.panes.get(pane.paneId);
+        if (!state) {
+          state = await this.track(pane);
+          this.panes.set(pane.paneId, state);
+        }
+        await this.capture(pane.paneId, state);
+      }
+    } catch (err) {
+      log({ message: `pane scraper (${this.name}) error: ${err instanceof Error ? err.message : String(err)}` });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async track(pane: TmuxPane): Promise<PaneState> {
+    await mkdir(this.projectsPath, { recursive: true });
+    const filePath = join(this.projectsPath, `${paneSessionId(pane.paneId)}.jsonl`);
+    // Start each pane's transcript empty, so getFileSize and chokidar have a file to work with.
+    await writeFile(filePath, "", "utf8");
+    log({ message: `pane scraper (${this.name}): polling ${pane.paneId} at ${pane.cwd}` });
+    return { cwd: pane.cwd, filePath, previous: null, lastOutputAt: 0, turnOpen: false, bytes: 0 };
+  }
+
+  private async capture(paneId: string, state: PaneState): Promise<void> {
+    let screen: string;
+    try {
+      screen = await capturePaneContent(paneId);
+    } catch {
+      return; // dropped on the next poll if the pane is gone
+    }
+
+    const entries: object[] = [];
+    if (state.previous !== null) {
+      const newLines = diffCapture(state.previous, screen);
+      if (newLines.length > 0) {
+        if (!state.turnOpen && state.bytes > MAX_TRANSCRIPT_BYTES) {
+          await writeFile(state.filePath, "", "utf8");
+          state.bytes = 0;
+        }
+        entries.push({ type: "output", text: newLines.join("\n"), cwd: state.cwd, timestamp: new Date().toISOString() });
+        state.lastOutputAt = Date.now();
+        state.turnOpen = true;
+      }
+    }
+    state.previous = screen;
+
+    if (state.turnOpen) {
+      const lastLine = screenLines(screen).pop() ?? "";
+      const atPrompt = this.promptPattern !== null && this.promptPattern.test(lastLine);
+      const idle = Date.now() - state.lastOutputAt >= this.idleMs;
+      if (atPrompt || idle) {
+        entries.push({ type: "turn_end", reason: atPrompt ? "prompt" : "idle" });
+        state.turnOpen = false;
+      }
+    }
+
+    if (entries.length > 0) {
+      const text = entries.map((e) => JSON.stringify(e)).join("\n") + "\n";
+      await appendFile(state.filePath, text, "utf8");
+      state.bytes += Buffer.byteLength(text);
+    }
+  }
+
+  parseAssistantText(lines: string[]): {
+    text: string | null;
+    cwd: string | null;
+    model: string | undefined;
+  } {
+    // A scraped turn is delivered as one message once it has ended: all output
+    // between the previous turn_end and the latest one.
+    let end = -1;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (entryType(lines[i]) === "turn_end") { end = i; break; }
+    }
+    if (end === -1) return { text: null, cwd: null, model: undefined };
+
+    const chunks: string[] = [];
+    let cwd: string | null = null;
+    for (let i = end - 1; i >= 0; i--) {
+      try {
+        const entry = JSON.parse(lines[i]);
+        if (entry.type === "turn_end") break;
+        if (entry.type !== "output" || typeof entry.text !== "string") continue;
+        chunks.unshift(entry.text);
+        if (cwd === null && typeof entry.cwd === "string") cwd = entry.cwd;
+      } catch {
+        continue;
+      }
+    }
+    const text = chunks.join("\n").trim();
+    return { text: text || null, cwd, model: undefined };
+  }
+
+  findResultEvent(lines: string[]): boolean {
+    return lines.some((line) => entryType(line) === "turn_end");
+  }
+
+  extractToolUses(_lines: string[]): ToolUseEntry[] {
+    return [];
+  }
+
+  friendlyModelName(modelId: string | undefined): string {
+    return modelId ?? this.name;
+  }
+}
+
+function paneSessionId(paneId: string): string {
+  return `pane-${paneId.replace(/[^a-zA-Z0-9]/g, "")}`;
+}
+
+function entryType(line: string): string | null {
+  try {
+    return JSON.parse(line).type ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// capture-pane pads the visible screen with blank lines below the cursor.
+function screenLines(screen: string): string[] {
+  const lines = screen.split("\n").map((l) => l.replace(/\s+$/, ""));
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Return the lines in `current` that were not on screen in `previous`.
+ *
+ * Finds the longest tail of `previous` that lines up with the top of `current`
+ * (the screen scrolled by that many lines) and returns whatever follows it. The
+ * last overlapping line may have grown since (e.g. a command typed after the
+ * prompt), in which case it is reported again in full. With no overlap at all
+ * (screen cleared) the whole current screen is new.
+ */
+export function diffCapture(previous: string, current: string): string[] {
+  const prev = screenLines(previous);
+  const cur = screenLines(current);
+
+  for (let start = 0; start < prev.length; start++) {
+    const overlap = prev.slice(start);
+    if (overlap.length > cur.length) continue;
+    let matches = true;
+    let grew = false;
+    for (let i = 0; i < overlap.length; i++) {
+      if (cur[i] === overlap[i]) continue;
+      if (i === overlap.length - 1 && overlap[i] !== "" && cur[i].startsWith(overlap[i])) {
+        grew = true;
+        continue;
+      }
+      matches = false;
+      break;
+    }
+    if (!matches) continue;
+    const from = grew ? overlap.length - 1 : overlap.length;
+    return cur.slice(from);
+  }
+  return cur;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../../logger.js", () => ({
+  log: vi.fn(),
+}));
+
+import { loadUserAdapters } from "./user.js";
+import { DeclarativeAdapter } from "./declarative.js";
+import { log } from "../../logger.js";
+
+const MODULE_SOURCE = `
+export default class {
+  name = "custom";
+  projectsPath = "/tmp/custom";
+  supportsImageDetection = false;
+  isAgentPane(p) { return p.command === "custom"; }
+  async getLatestSessionFileForCwd() { return null; }
+  parseAssistantText() { return { text: null, cwd: null, model: undefined }; }
+  findResultEvent() { return false; }
+  extractToolUses() { return []; }
+  friendlyModelName(m) { return m ?? "custom"; }
+}
+`;
+
+describe("loadUserAdapters", () => {
+  it("returns nothing when the directory does not exist", async () => {
+    expect(await loadUserAdapters(join(tmpdir(), "codedove-no-such-dir"))).toEqual([]);
+  });
+
+  it("loads JSON specs and JS modules, skipping invalid files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "user-adapters-"));
+    await writeFile(join(dir, "a-spec.json"), JSON.stringify({
+      name: "spec",
+      panePattern: "spec",
+      transcriptGlob: "/tmp/spec/*.jsonl",
+      text: { where: { type: "reply" }, path: "text" },
+      completion: { where: { type: "done" } },
+    }));
+    await writeFile(join(dir, "b-module.mjs"), MODULE_SOURCE);
+    await writeFile(join(dir, "c-broken.json"), JSON.stringify({ name: "broken" }));
+    await writeFile(join(dir, "d-notes.txt"), "ignored");
+
+    const loaded = await loadUserAdapters(dir);
+    expect(loaded.map((a) => a.name)).toEqual(["spec", "custom"]);
+    expect(loaded[0]).toBeInstanceOf(DeclarativeAdapter);
+    expect(loaded[1].isAgentPane({ paneId: "%1", shellPid: 1, command: "custom", cwd: "/" })).toBe(true);
+    expect(vi.mocked(log)).toHaveBeenCalledWith({ message: expect.stringContaining("skipping adapter c-broken.json") });
+  });
+});
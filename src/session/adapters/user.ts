@@ -0,0 +1,72 @@
+import { homedir } from "os";
+import { readdir, readFile } from "fs/promises";
+import { extname, join } from "path";
+import { pathToFileURL } from "url";
+import type { SessionAdapter } from "../adapter.js";
+import { DeclarativeAdapter } from "./declarative.js";
+import { log } from "../../logger.js";
+
+export const USER_ADAPTERS_PATH = join(homedir(), ".codedove", "adapters");
+
+const REQUIRED_METHODS = [
+  "isAgentPane",
+  "getLatestSessionFileForCwd",
+  "parseAssistantText",
+  "findResultEvent",
+  "extractToolUses",
+  "friendlyModelName",
+] as const;
+
+function isSessionAdapter(value: unknown): value is SessionAdapter {
+  if (value === null || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  if (typeof v.name !== "string" || typeof v.projectsPath !== "string") return false;
+  return REQUIRED_METHODS.every((m) => typeof v[m] === "function");
+}
+
+// A module's default export may be an adapter instance, a class, or a factory function.
+async function loadModule(filePath: string): Promise<SessionAdapter> {
+  const mod = await import(pathToFileURL(filePath).href);
+  let exported: unknown = mod.default ?? mod.adapter;
+  if (typeof exported === "function") {
+    const fn = exported as (new () => unknown) & (() => unknown);
+    exported = /^class\b/.test(Function.prototype.toString.call(fn)) ? new fn() : await fn();
+  }
+  if (!isSessionAdapter(exported)) {
+    throw new Error("default export is not a SessionAdapter");
+  }
+  return exported;
+}
+
+/**
+ * Load user-defined adapters from ~/.codedove/adapters/: `.js`/`.mjs` modules
+ * exporting a SessionAdapter, and `.json` DeclarativeAdapterSpec files. Files are
+ * loaded in name order; invalid ones are logged and skipped.
+ */
+export async function loadUserAdapters(dir = USER_ADAPTERS_PATH): Promise<SessionAdapter[]> {
+  let names: string[];
+  try {
+    names = (await readdir(dir)).sort();
+  } catch {
+    return [];
+  }
+
+  const loaded: SessionAdapter[] = [];
+  for (const name of names) {
+    const filePath = join(dir, name);
+    const ext = extname(name);
+    try {
+      if (ext === ".json") {
+        loaded.push(new DeclarativeAdapter(JSON.parse(await readFile(filePath, "utf8"))));
+      } else if (ext === ".js" || ext === ".mjs") {
+        loaded.push(await loadModule(filePath));
+      } else {
+        continue;
+      }
+      log({ message: `loaded adapter "${loaded[loaded.length - 1].name}" from ${name}` });
+    } catch (err) {
+      log({ message: `skipping adapter ${name}: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
+  return loaded;
+}
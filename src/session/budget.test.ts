@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { BudgetTracker, budgetFraction, describeBudget } from "./budget.js";
+import { sumRecords, type SessionUsage } from "./usage.js";
+import type { UsageRecord } from "./adapter.js";
+
+function record(output: number, timestamp = "2026-03-01T12:00:00Z"): UsageRecord {
+  return { usage: { input: 0, output, cacheWrite: 0, cacheRead: 0 }, model: "claude-sonnet-4", timestamp: new Date(timestamp) };
+}
+
+function session(sessionId: string, records: UsageRecord[]): SessionUsage {
+  return { sessionId, cliName: "claude", projectName: "shop", cwd: "/repos/shop", records };
+}
+
+describe("budgetFraction", () => {
+  it("takes whichever of tokens and cost is closer to its limit", () => {
+    const totals = sumRecords([record(100_000)]); // 100k output tokens = $1.50
+    expect(budgetFraction(totals, { tokens: 1_000_000 })).toBeCloseTo(0.1);
+    expect(budgetFraction(totals, { tokens: 1_000_000, cost: 2 })).toBeCloseTo(0.75);
+    expect(budgetFraction(totals, {})).toBe(0);
+  });
+
+  it("describes the limiting metric", () => {
+    const totals = sumRecords([record(100_000)]);
+    expect(describeBudget(totals, { tokens: 1_000_000, cost: 2 })).toBe("~$1.50 of $2.00");
+    expect(describeBudget(totals, { tokens: 120_000 })).toBe("100.0k of 120.0k tokens");
+  });
+});
+
+describe("BudgetTracker", () => {
+  const now = () => new Date("2026-03-01T18:00:00Z");
+
+  it("reports each session threshold once, skipping ones jumped over", () => {
+    const tracker = new BudgetTracker({ session: { tokens: 1000 } }, now);
+    expect(tracker.update(session("a", [record(400)]))).toEqual([]);
+    expect(tracker.update(session("a", [record(400), record(200)])).map((a) => a.threshold)).toEqual([0.5]);
+    expect(tracker.update(session("a", [record(400), record(200)]))).toEqual([]);
+    expect(tracker.update(session("a", [record(400), record(200), record(500)])).map((a) => a.threshold)).toEqual([1]);
+    expect(tracker.update(session("b", [record(900)])).map((a) => [a.scope, a.threshold])).toEqual([["session", 0.8]]);
+  });
+
+  it("adds up today's usage across sessions for the daily budget", () => {
+    const tracker = new BudgetTracker({ daily: { tokens: 1000 } }, now);
+    expect(tracker.update(session("a", [record(5000, "2026-02-28T23:00:00Z"), record(300)]))).toEqual([]);
+    const [alert] = tracker.update(session("b", [record(300)]));
+    expect(alert).toMatchObject({ scope: "daily", threshold: 0.5 });
+    expect(alert.session.sessionId).toBe("b");
+  });
+
+  it("starts a new daily count at midnight UTC", () => {
+    let clock = new Date("2026-03-01T23:00:00Z");
+    const tracker = new BudgetTracker({ daily: { tokens: 1000 } }, () => clock);
+    expect(tracker.update(session("a", [record(600)]))).toHaveLength(1);
+    clock = new Date("2026-03-02T01:00:00Z");
+    expect(tracker.update(session("a", [record(600), record(600, "2026-03-02T00:30:00Z")])).map((a) => a.threshold)).toEqual([0.5]);
+  });
+
+  it("does not alert about thresholds already crossed when seeded", () => {
+    const tracker = new BudgetTracker({ daily: { tokens: 1000 } }, now);
+    tracker.seed([session("a", [record(850)])]);
+    expect(tracker.update(session("a", [record(850), record(50)]))).toEqual([]);
+    expect(tracker.update(session("a", [record(850), record(200)])).map((a) => a.threshold)).toEqual([1]);
+  });
+});
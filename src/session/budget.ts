@@ -0,0 +1,106 @@
+import type { UsageRecord } from "./adapter.js";
+import { formatCost, formatTokens, sumRecords, totalTokens, type SessionUsage, type UsageTotals } from "./usage.js";
+
+/** A token and/or cost (USD) cap. Tokens include cache reads and writes, as in /usage. */
+export type BudgetLimit = { tokens?: number; cost?: number };
+
+export type BudgetConfig = {
+  /** Across all sessions, per UTC day (the days /usage reports). */
+  daily?: BudgetLimit;
+  /** Per session, over its whole transcript. */
+  session?: BudgetLimit;
+  /** What to do besides warning once a limit is reached. */
+  onLimit?: {
+    /** Send Escape to the pane of the session that went over. */
+    escape?: boolean;
+    /** Stop the /timer loop. */
+    pauseTimer?: boolean;
+  };
+};
+
+export const BUDGET_THRESHOLDS = [0.5, 0.8, 1];
+
+export type BudgetAlert = {
+  scope: "daily" | "session";
+  /** The highest threshold crossed: 0.5, 0.8 or 1. */
+  threshold: number;
+  limit: BudgetLimit;
+  totals: UsageTotals;
+  /** The session whose usage crossed the threshold. */
+  session: SessionUsage;
+};
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The larger of the token and cost fractions; 0 when no usable limit is set. */
+export function budgetFraction(totals: UsageTotals, limit: BudgetLimit): number {
+  const fractions = [0];
+  if (limit.tokens && limit.tokens > 0) fractions.push(totalTokens(totals.usage) / limit.tokens);
+  if (limit.cost && limit.cost > 0) fractions.push(totals.cost / limit.cost);
+  return Math.max(...fractions);
+}
+
+/** "40.1k of 50.0k tokens" or "~$8.02 of $10.00", whichever is closer to its limit. */
+export function describeBudget(totals: UsageTotals, limit: BudgetLimit): string {
+  const tokenFraction = limit.tokens ? totalTokens(totals.usage) / limit.tokens : -1;
+  const costFraction = limit.cost ? totals.cost / limit.cost : -1;
+  return costFraction > tokenFraction
+    ? `${formatCost(totals)} of $${limit.cost!.toFixed(2)}`
+    : `${formatTokens(totalTokens(totals.usage))} of ${formatTokens(limit.tokens!)} tokens`;
+}
+
+/**
+ * Keeps today's usage per session and reports each budget threshold once: per
+ * session for the session budget, per UTC day for the daily one.
+ */
+export class BudgetTracker {
+  private day: string;
+  private today = new Map<string, UsageRecord[]>();
+  // Highest threshold already reported, keyed by "session:<id>" or "daily:<day>"
+  private reported = new Map<string, number>();
+
+  constructor(readonly config: BudgetConfig, private now: () => Date = () => new Date()) {
+    this.day = utcDay(this.now());
+  }
+
+  /** Load usage recorded before startup without alerting about thresholds it already crossed. */
+  seed(sessions: SessionUsage[]): void {
+    for (const session of sessions) this.update(session);
+  }
+
+  /** Replace a session's usage with its latest records and return the newly crossed thresholds. */
+  update(session: SessionUsage): BudgetAlert[] {
+    const day = utcDay(this.now());
+    if (day !== this.day) {
+      this.reported.delete(`daily:${this.day}`);
+      this.day = day;
+      this.today.clear();
+    }
+    // Records without a timestamp were just read from a live transcript.
+    this.today.set(session.sessionId, session.records.filter((r) => !r.timestamp || utcDay(r.timestamp) === day));
+
+    const alerts: BudgetAlert[] = [];
+    const { daily, session: perSession } = this.config;
+    if (perSession) {
+      const totals = sumRecords(session.records);
+      const alert = this.crossed(`session:${session.sessionId}`, totals, perSession);
+      if (alert !== null) alerts.push({ scope: "session", threshold: alert, limit: perSession, totals, session });
+    }
+    if (daily) {
+      const totals = sumRecords([...this.today.values()].flat());
+      const alert = this.crossed(`daily:${day}`, totals, daily);
+      if (alert !== null) alerts.push({ scope: "daily", threshold: alert, limit: daily, totals, session });
+    }
+    return alerts;
+  }
+
+  private crossed(key: string, totals: UsageTotals, limit: BudgetLimit): number | null {
+    const fraction = budgetFraction(totals, limit);
+    const threshold = BUDGET_THRESHOLDS.filter((t) => fraction >= t).pop();
+    if (threshold === undefined || threshold <= (this.reported.get(key) ?? 0)) return null;
+    this.reported.set(key, threshold);
+    return threshold;
+  }
+}
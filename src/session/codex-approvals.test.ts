@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../logger.js", () => ({ log: vi.fn() }));
+
+vi.mock("./tmux.js", () => ({
+  listTmuxPanes: vi.fn(),
+  capturePaneContent: vi.fn(),
+  sendRawKeyToPane: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./history.js", () => ({
+  readSessionLines: vi.fn(),
+}));
+
+import { watchCodexApprovals, respondToCodexApproval, isCodexApprovalRequest } from "./codex-approvals.js";
+import { CodexAdapter } from "./adapters/codex.js";
+import { listTmuxPanes, capturePaneContent, sendRawKeyToPane } from "./tmux.js";
+import { readSessionLines } from "./history.js";
+
+const PROMPT = "Would you like to run the following command?\n\n$ npm test\n\n› 1. Yes, proceed (y)\n";
+
+describe("watchCodexApprovals", () => {
+  let stop: () => void;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.mocked(listTmuxPanes).mockResolvedValue([
+      { paneId: "%4", shellPid: 1, command: "codex", cwd: "/proj" },
+      { paneId: "%5", shellPid: 1, command: "zsh", cwd: "/proj" },
+    ]);
+    vi.spyOn(CodexAdapter.prototype, "getLatestSessionFileForCwd").mockResolvedValue({
+      filePath: "/rollout.jsonl",
+      sessionId: "abc",
+    });
+    vi.mocked(readSessionLines).mockResolvedValue([
+      JSON.stringify({
+        type: "event_msg",
+        payload: { type: "exec_approval_request", call_id: "call_9", command: ["bash", "-lc", "npm test -- --run"] },
+      }),
+    ]);
+  });
+
+  afterEach(() => {
+    stop?.();
+    vi.useRealTimers();
+  });
+
+  it("notifies once per prompt with the rollout's call ID and command", async () => {
+    vi.mocked(capturePaneContent).mockResolvedValue(PROMPT);
+    const onRequest = vi.fn().mockResolvedValue(undefined);
+    stop = watchCodexApprovals(onRequest);
+
+    await vi.advanceTimersByTimeAsync(4100);
+
+    expect(capturePaneContent).toHaveBeenCalledWith("%4");
+    expect(capturePaneContent).not.toHaveBeenCalledWith("%5");
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(onRequest).toHaveBeenCalledWith({
+      requestId: "codex-call_9",
+      toolName: "Bash",
+      toolInput: "npm test -- --run",
+      toolCommand: "npm test -- --run",
+      filePath: "/rollout.jsonl",
+      agent: "Codex",
+      cwd: "/proj",
+      sessionId: "abc",
+    });
+    expect(isCodexApprovalRequest("codex-call_9")).toBe(true);
+
+    expect(await respondToCodexApproval("codex-call_9", "approve")).toBe(true);
+    expect(sendRawKeyToPane).toHaveBeenCalledWith("%4", "y");
+    expect(await respondToCodexApproval("codex-call_9", "approve")).toBe(false);
+  });
+
+  it("falls back to the command on screen and forgets prompts answered in the terminal", async () => {
+    vi.mocked(readSessionLines).mockResolvedValue([]);
+    vi.mocked(capturePaneContent).mockResolvedValue(PROMPT);
+    const onRequest = vi.fn().mockResolvedValue(undefined);
+    stop = watchCodexApprovals(onRequest);
+
+    await vi.advanceTimersByTimeAsync(2100);
+    expect(onRequest.mock.calls[0][0]).toMatchObject({ toolCommand: "npm test" });
+    const requestId = onRequest.mock.calls[0][0].requestId;
+
+    vi.mocked(capturePaneContent).mockResolvedValue("› \n");
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await respondToCodexApproval(requestId, "deny")).toBe(false);
+    expect(sendRawKeyToPane).not.toHaveBeenCalled();
+  });
+});
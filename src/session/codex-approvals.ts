@@ -0,0 +1,106 @@
+import { log } from "../logger.js";
+import { readSessionLines } from "./history.js";
+import { listTmuxPanes, capturePaneContent, sendRawKeyToPane } from "./tmux.js";
+import { CodexAdapter, findPendingApproval, parseApprovalPrompt } from "./adapters/codex.js";
+import type { PermissionRequest } from "./permissions.js";
+
+const POLL_INTERVAL = 2000;
+const REQUEST_PREFIX = "codex-";
+
+const codex = new CodexAdapter();
+
+// requestId → paneId for approvals that have been sent to Telegram but not answered yet.
+const pending = new Map<string, string>();
+const pendingByPane = new Map<string, string>();
+
+function clearPane(paneId: string): void {
+  const requestId = pendingByPane.get(paneId);
+  if (requestId) pending.delete(requestId);
+  pendingByPane.delete(paneId);
+}
+
+/** Whether a permission request ID was issued by watchCodexApprovals. */
+export function isCodexApprovalRequest(requestId: string): boolean {
+  return requestId.startsWith(REQUEST_PREFIX);
+}
+
+/**
+ * Poll tmux panes running Codex for its approval overlay. Codex blocks in the TUI
+ * rather than calling a hook, so a new prompt on screen is the trigger; the rollout
+ * JSONL is consulted for the call ID and the full command when it has them.
+ */
+export function watchCodexApprovals(
+  onRequest: (req: PermissionRequest) => Promise<void>
+): () => void {
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const panes = (await listTmuxPanes()).filter((p) => codex.isAgentPane(p));
+      const live = new Set(panes.map((p) => p.paneId));
+      for (const paneId of [...pendingByPane.keys()]) {
+        if (!live.has(paneId)) clearPane(paneId);
+      }
+
+      for (const pane of panes) {
+        let screen: string;
+        try {
+          screen = await capturePaneContent(pane.paneId);
+        } catch {
+          continue;
+        }
+        const prompt = parseApprovalPrompt(screen);
+        if (!prompt) {
+          // Answered in the terminal (or by us) — forget it.
+          clearPane(pane.paneId);
+          continue;
+        }
+        if (pendingByPane.has(pane.paneId)) continue;
+
+        const file = await codex.getLatestSessionFileForCwd(pane.cwd).catch(() => null);
+        const approval = file
+          ? findPendingApproval(await readSessionLines(file.filePath).catch(() => []))
+          : null;
+        const requestId = `${REQUEST_PREFIX}${approval?.callId ?? Date.now().toString(36)}`;
+        const toolName = approval?.toolName ?? prompt.toolName;
+        const command = approval?.command || prompt.command;
+
+        pending.set(requestId, pane.paneId);
+        pendingByPane.set(pane.paneId, requestId);
+        log({ message: `codex approval request: ${toolName} in ${pane.paneId} (${requestId})` });
+        await onRequest({
+          requestId,
+          toolName,
+          toolInput: command ?? toolName,
+          toolCommand: command,
+          filePath: file?.filePath ?? "",
+          agent: "Codex",
+          cwd: pane.cwd,
+          ...(file?.sessionId ? { sessionId: file.sessionId } : {}),
+        });
+      }
+    } catch (err) {
+      log({ message: `codex approval watcher error: ${err instanceof Error ? err.message : String(err)}` });
+    } finally {
+      polling = false;
+    }
+  };
+
+  const intervalId = setInterval(() => void poll(), POLL_INTERVAL);
+  return () => { clearInterval(intervalId); };
+}
+
+/**
+ * Answer a pending Codex approval by pressing the overlay's key in its pane:
+ * "y" approves, Escape declines. Returns false if the prompt is no longer pending.
+ */
+export async function respondToCodexApproval(requestId: string, action: "approve" | "deny"): Promise<boolean> {
+  const paneId = pending.get(requestId);
+  if (!paneId) return false;
+  await sendRawKeyToPane(paneId, action === "approve" ? "y" : "Escape");
+  clearPane(paneId);
+  log({ message: `codex approval response: ${action} (${requestId})` });
+  return true;
+}
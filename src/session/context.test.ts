@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { ContextTracker, configureContext, estimateContextFill, formatContextFill } from "./context.js";
+import type { UsageRecord } from "./adapter.js";
+
+function record(prompt: number, model = "claude-sonnet-4-5", contextWindow?: number): UsageRecord {
+  return {
+    usage: { input: 100, output: 500, cacheWrite: 400, cacheRead: prompt - 500 },
+    model,
+    ...(contextWindow ? { contextWindow } : {}),
+  };
+}
+
+describe("estimateContextFill", () => {
+  afterEach(() => configureContext());
+
+  it("uses the latest request, including cached and output tokens", () => {
+    const fill = estimateContextFill([record(10_000), record(150_000)]);
+    expect(fill).toEqual({ used: 150_500, window: 200_000, fraction: 150_500 / 200_000 });
+    expect(formatContextFill(fill!)).toBe("150.5k/200.0k tokens (75%)");
+  });
+
+  it("prefers the window the CLI reports, then the configured ones", () => {
+    expect(estimateContextFill([record(100_000, "gpt-5-codex", 272_000)])?.window).toBe(272_000);
+    configureContext({ windows: { "claude-sonnet-4-5": 500_000 } });
+    expect(estimateContextFill([record(100_000)])?.window).toBe(500_000);
+  });
+
+  it("assumes the long context window once a Claude session is past 200k", () => {
+    expect(estimateContextFill([record(300_000)])?.window).toBe(1_000_000);
+  });
+
+  it("returns null without usage", () => {
+    expect(estimateContextFill([])).toBeNull();
+  });
+});
+
+describe("ContextTracker", () => {
+  const fill = (fraction: number) => ({ used: fraction * 200_000, window: 200_000, fraction });
+
+  it("notifies once per crossing of the threshold", () => {
+    const tracker = new ContextTracker({});
+    expect(tracker.update("a", fill(0.5), false)).toEqual({ notify: false, compact: false });
+    expect(tracker.update("a", fill(0.85), false)).toEqual({ notify: true, compact: false });
+    expect(tracker.update("a", fill(0.9), true)).toEqual({ notify: false, compact: false });
+    expect(tracker.update("a", fill(0.2), true)).toEqual({ notify: false, compact: false });
+    expect(tracker.update("a", fill(0.8), false)).toEqual({ notify: true, compact: false });
+  });
+
+  it("compacts once the session is idle above the threshold when enabled", () => {
+    const tracker = new ContextTracker({ threshold: 0.7, autoCompact: true });
+    expect(tracker.update("a", fill(0.75), false)).toEqual({ notify: true, compact: false });
+    expect(tracker.update("a", fill(0.76), true)).toEqual({ notify: false, compact: true });
+    expect(tracker.update("a", fill(0.77), true)).toEqual({ notify: false, compact: false });
+  });
+});
@@ -0,0 +1,105 @@
+import type { UsageRecord } from "./adapter.js";
+import { adapterForCwd } from "./adapters/index.js";
+import { readSessionLines } from "./history.js";
+import { formatTokens } from "./usage.js";
+
+export type ContextConfig = {
+  /** Fraction of the context window (0–1) at which to notify. Default 0.8. */
+  threshold?: number;
+  /** Send /compact once the session is idle above the threshold. */
+  autoCompact?: boolean;
+  /** Context window sizes keyed by model ID prefix, merged over the built-in ones. */
+  windows?: Record<string, number>;
+};
+
+export const DEFAULT_CONTEXT_THRESHOLD = 0.8;
+
+const DEFAULT_WINDOWS: Record<string, number> = {
+  "claude-": 200_000,
+  "gpt-5": 272_000,
+};
+const FALLBACK_WINDOW = 200_000;
+// Claude models with the 1M-token beta report the same model ID.
+const LONG_CONTEXT_WINDOW = 1_000_000;
+
+let windows: Record<string, number> = DEFAULT_WINDOWS;
+
+/** Apply the `context.windows` setting from config.json. */
+export function configureContext(config: ContextConfig = {}): void {
+  windows = { ...DEFAULT_WINDOWS, ...config.windows };
+}
+
+export type ContextFill = { used: number; window: number; fraction: number };
+
+function windowFor(record: UsageRecord, table: Record<string, number>): number {
+  if (record.contextWindow) return record.contextWindow;
+  const model = record.model ?? "";
+  const key = Object.keys(table)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : FALLBACK_WINDOW;
+}
+
+/**
+ * Estimate how full the context window is from the latest request: everything it
+ * sent (including cached tokens) plus its output, which the next request carries.
+ */
+export function estimateContextFill(records: UsageRecord[], table: Record<string, number> = windows): ContextFill | null {
+  const last = records[records.length - 1];
+  if (!last) return null;
+  const { input, output, cacheWrite, cacheRead } = last.usage;
+  const used = input + output + cacheWrite + cacheRead;
+  let window = windowFor(last, table);
+  if (used > window && window < LONG_CONTEXT_WINDOW) window = LONG_CONTEXT_WINDOW;
+  return { used, window, fraction: used / window };
+}
+
+/** Context fill of the latest session in `cwd`, or null when its CLI reports no usage. */
+export async function readContextFill(cwd: string): Promise<ContextFill | null> {
+  const resolved = await adapterForCwd(cwd);
+  if (!resolved?.adapter.extractUsage) return null;
+  const { adapter, file } = resolved;
+  const lines = await (adapter.readLines?.(file.filePath, 0) ?? readSessionLines(file.filePath));
+  return estimateContextFill(adapter.extractUsage!(lines));
+}
+
+/** "142.0k/200.0k tokens (71%)" */
+export function formatContextFill(fill: ContextFill): string {
+  return `${formatTokens(fill.used)}/${formatTokens(fill.window)} tokens (${Math.round(fill.fraction * 100)}%)`;
+}
+
+export type ContextAction = { notify: boolean; compact: boolean };
+
+/**
+ * Decides per session when to warn about context fill and when to compact. Each
+ * happens once per crossing: a session has to drop below the threshold again
+ * (after compaction or /clear) before it can trigger another.
+ */
+export class ContextTracker {
+  private notified = new Set<string>();
+  private compacted = new Set<string>();
+
+  constructor(readonly config: ContextConfig) {}
+
+  get threshold(): number {
+    return this.config.threshold ?? DEFAULT_CONTEXT_THRESHOLD;
+  }
+
+  update(sessionId: string, fill: ContextFill, idle: boolean): ContextAction {
+    if (fill.fraction < this.threshold) {
+      this.notified.delete(sessionId);
+      this.compacted.delete(sessionId);
+      return { notify: false, compact: false };
+    }
+    const notify = !this.notified.has(sessionId);
+    this.notified.add(sessionId);
+    const compact = !!this.config.autoCompact && idle && !this.compacted.has(sessionId);
+    if (compact) this.compacted.add(sessionId);
+    return { notify, compact };
+  }
+
+  /** /compact couldn't be sent: let the next idle update try again. */
+  compactFailed(sessionId: string): void {
+    this.compacted.delete(sessionId);
+  }
+}
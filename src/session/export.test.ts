@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { renderMarkdown, renderHtml, type ExportMeta } from "./export.js";
+import type { TranscriptEntry } from "./adapter.js";
+
+const META: ExportMeta = {
+  projectName: "shop",
+  cwd: "/repos/shop",
+  sessionId: "abc123",
+  cliName: "claude",
+  exportedAt: new Date("2026-03-02T09:00:00Z"),
+};
+
+const ENTRIES: TranscriptEntry[] = [
+  { kind: "user", text: "run the tests", timestamp: new Date("2026-03-01T10:00:00Z") },
+  { kind: "tool_call", toolName: "Bash", text: "npm test", callId: "t1" },
+  { kind: "tool_result", text: "1 failed <Suite>", callId: "t1", isError: true },
+  { kind: "assistant", text: "One test fails:\n```\nexpected 1\n```" },
+];
+
+describe("renderMarkdown", () => {
+  it("renders a header, messages and fenced tool I/O", () => {
+    const md = renderMarkdown(META, ENTRIES);
+    expect(md).toContain("# shop — claude session");
+    expect(md).toContain("- Directory: `/repos/shop`");
+    expect(md).toContain("## 👤 User · 2026-03-01 10:00:00 UTC\n\nrun the tests");
+    expect(md).toContain("### 🔧 Bash\n\n```sh\nnpm test\n```");
+    expect(md).toContain("**Error:**\n\n```\n1 failed <Suite>\n```");
+    expect(md).toContain("## 🤖 Assistant\n\nOne test fails:");
+  });
+
+  it("uses a longer fence when the content contains backticks", () => {
+    const md = renderMarkdown(META, [{ kind: "tool_result", text: "```\nnested\n```" }]);
+    expect(md).toContain("````\n```\nnested\n```\n````");
+  });
+
+  it("cuts very long tool output", () => {
+    const md = renderMarkdown(META, [{ kind: "tool_result", text: "x".repeat(10_050) }]);
+    expect(md).toContain("… (50 more characters)");
+    expect(md).not.toContain("x".repeat(10_001));
+  });
+});
+
+describe("renderHtml", () => {
+  it("produces a self-contained page with escaped content", () => {
+    const html = renderHtml(META, ENTRIES);
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<(link|script)\b/);
+    expect(html).toContain("1 failed &lt;Suite&gt;");
+    expect(html).toContain('<details class="entry tool_result error"><summary>Error</summary>');
+    expect(html).toContain('<div class="meta">👤 User · 2026-03-01 10:00:00 UTC</div>');
+  });
+});
@@ -0,0 +1,130 @@
+import type { TranscriptEntry } from "./adapter.js";
+
+// Tool output can be huge (test logs, file dumps); past this it is cut in exports.
+const TOOL_RESULT_LIMIT = 10_000;
+
+export type ExportFormat = "md" | "html";
+
+export type ExportMeta = {
+  projectName: string;
+  cwd: string;
+  sessionId: string;
+  cliName: string;
+  exportedAt: Date;
+};
+
+function formatTime(date: Date | undefined): string {
+  if (!date || isNaN(date.getTime())) return "";
+  return date.toISOString().replace("T", " ").slice(0, 19) + " UTC";
+}
+
+function clipResult(text: string): string {
+  if (text.length <= TOOL_RESULT_LIMIT) return text;
+  return `${text.slice(0, TOOL_RESULT_LIMIT)}\n… (${text.length - TOOL_RESULT_LIMIT} more characters)`;
+}
+
+// A code fence longer than any backtick run inside the block, so it can't be closed early.
+function fence(text: string, lang = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marks = "`".repeat(longest + 1);
+  return `${marks}${lang}\n${text}\n${marks}`;
+}
+
+const HEADINGS: Record<TranscriptEntry["kind"], string> = {
+  user: "👤 User",
+  assistant: "🤖 Assistant",
+  tool_call: "🔧",
+  tool_result: "Result",
+};
+
+/** Render a transcript as Markdown. Messages keep their own Markdown; tool I/O is fenced. */
+export function renderMarkdown(meta: ExportMeta, entries: TranscriptEntry[]): string {
+  const out = [
+    `# ${meta.projectName} — ${meta.cliName} session`,
+    "",
+    `- Session: \`${meta.sessionId}\``,
+    `- Directory: \`${meta.cwd}\``,
+    `- Exported: ${formatTime(meta.exportedAt)}`,
+  ];
+
+  for (const entry of entries) {
+    const time = formatTime(entry.timestamp);
+    const suffix = time ? ` · ${time}` : "";
+    out.push("");
+    switch (entry.kind) {
+      case "user":
+      case "assistant":
+        out.push(`## ${HEADINGS[entry.kind]}${suffix}`, "", entry.text.trim());
+        break;
+      case "tool_call":
+        out.push(`### ${HEADINGS.tool_call} ${entry.toolName ?? "Tool"}${suffix}`, "", fence(entry.text, entry.toolName === "Bash" ? "sh" : ""));
+        break;
+      case "tool_result":
+        out.push(`**${entry.isError ? "Error" : HEADINGS.tool_result}:**`, "", fence(clipResult(entry.text)));
+        break;
+    }
+  }
+  return out.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 900px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5em; }
+.entry { margin: 1em 0; padding: .75em 1em; border-radius: 8px; }
+.user { background: #ddf4ff; }
+.assistant { background: #f6f8fa; }
+.tool_call, .tool_result { margin-left: 2em; border: 1px solid #d0d7de; }
+.error { border-color: #cf222e; }
+.meta { color: #656d76; font-size: 12px; margin-bottom: .25em; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+pre { white-space: pre-wrap; word-wrap: break-word; font: 13px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; margin: 0; }
+summary { cursor: pointer; color: #656d76; }
+`;
+
+/** Render a transcript as a single HTML page with inline styles and no external assets. */
+export function renderHtml(meta: ExportMeta, entries: TranscriptEntry[]): string {
+  const body = entries.map((entry) => {
+    const time = formatTime(entry.timestamp);
+    const label = entry.kind === "tool_call"
+      ? `${HEADINGS.tool_call} ${entry.toolName ?? "Tool"}`
+      : entry.kind === "tool_result" && entry.isError ? "Error" : HEADINGS[entry.kind];
+    const header = `<div class="meta">${escapeHtml(label)}${time ? ` · ${time}` : ""}</div>`;
+    const classes = `entry ${entry.kind}${entry.isError ? " error" : ""}`;
+    switch (entry.kind) {
+      case "user":
+      case "assistant":
+        return `<div class="${classes}">${header}<div class="text">${escapeHtml(entry.text.trim())}</div></div>`;
+      case "tool_call":
+        return `<div class="${classes}">${header}<pre>${escapeHtml(entry.text)}</pre></div>`;
+      case "tool_result":
+        return `<details class="${classes}"><summary>${escapeHtml(label)}</summary><pre>${escapeHtml(clipResult(entry.text))}</pre></details>`;
+    }
+  });
+
+  const title = `${meta.projectName} — ${meta.cliName} session`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Session <code>${escapeHtml(meta.sessionId)}</code> · <code>${escapeHtml(meta.cwd)}</code> · exported ${formatTime(meta.exportedAt)}</p>
+</header>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
@@ -2,6 +2,7 @@ import { createReadStream } from "fs";
 import { createInterface } from "readline";
 import { readdir, readFile, stat } from "fs/promises";
 import { homedir } from "os";
+import { sessionIndex, type SessionIndex } from "./session-index.js";
 
 export const PROJECTS_PATH = `${homedir()}/.claude/projects`;
 export const ATTACHED_SESSION_PATH = `${homedir()}/.codedove/attached`;
@@ -12,6 +13,8 @@ export type SessionInfo = {
   projectName: string;
   lastMessage: string;
   mtime: Date;
+  model?: string;
+  cliName?: string;
 };
 
 export type ToolCall = {
@@ -94,7 +97,32 @@ export async function readSessionLines(filePath: string): Promise<string[]> {
 
 // Returns the most recently modified session per project directory, sorted by
 // recency. One entry per project eliminates duplicates from multi-session projects.
+// Served from the session index once it is ready; other roots are scanned directly.
 export async function listSessions(limit = 20, projectsPath = PROJECTS_PATH): Promise<SessionInfo[]> {
+  if (projectsPath === PROJECTS_PATH && sessionIndex.ready) return sessionIndex.list(limit, "claude");
+  const results = await scanSessions(projectsPath);
+  results.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
+  return results.slice(0, limit);
+}
+
+// Bring the index up to date with transcripts written while the bot wasn't running.
+// Only files whose mtime differs from the indexed one are parsed.
+export async function refreshSessionIndex(index: SessionIndex = sessionIndex, projectsPath = PROJECTS_PATH): Promise<void> {
+  const sessions = await scanSessions(projectsPath, (sessionId, mtime) => {
+    const entry = index.get(sessionId);
+    return entry?.mtime === mtime.getTime() ? { ...entry, mtime } : undefined;
+  });
+  for (const session of sessions) {
+    if (index.get(session.sessionId)?.mtime === session.mtime.getTime()) continue;
+    index.update({ ...session, cliName: session.cliName ?? "claude", mtime: session.mtime.getTime() });
+  }
+  index.ready = true;
+}
+
+async function scanSessions(
+  projectsPath: string,
+  cached?: (sessionId: string, mtime: Date) => SessionInfo | undefined
+): Promise<SessionInfo[]> {
   let projectDirs: string[];
   try {
     projectDirs = await readdir(projectsPath);
@@ -127,6 +155,12 @@ export async function listSessions(limit = 20, projectsPath = PROJECTS_PATH): Pr
     if (!bestFile) continue;
 
     const sessionId = bestFile.replace(".jsonl", "");
+    const known = cached?.(sessionId, bestMtime);
+    if (known) {
+      results.push(known);
+      continue;
+    }
+
     const filePath = `${dirPath}/${bestFile}`;
     const encoded = dir.replace(/^-/, "").replace(/-/g, "/");
     const projectName = encoded.split("/").pop() || dir;
@@ -143,8 +177,34 @@ export async function listSessions(limit = 20, projectsPath = PROJECTS_PATH): Pr
     });
   }
 
-  results.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
-  return results.slice(0, limit);
+  return results;
+}
+
+// Every .jsonl file under root, down to maxDepth directory levels below it.
+export async function listTranscriptFiles(root: string, maxDepth: number): Promise<{ filePath: string; mtime: Date }[]> {
+  const result: { filePath: string; mtime: Date }[] = [];
+  const walk = async (dir: string, level: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const path = `${dir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        if (level < maxDepth) await walk(path, level + 1);
+      } else if (entry.name.endsWith(".jsonl")) {
+        try {
+          result.push({ filePath: path, mtime: (await stat(path)).mtime });
+        } catch {
+          continue;
+        }
+      }
+    }
+  };
+  await walk(root, 0);
+  return result;
 }
 
 export async function getAttachedSession(): Promise<{ sessionId: string; cwd: string } | null> {
@@ -5,8 +5,12 @@ import {
   findResultEvent,
   findExitPlanMode,
   extractWrittenImagePaths,
-  findLastToolUse,
+  findPendingToolUse,
   extractToolUses,
+  extractTranscript,
+  claudeContentBlocks,
+  extractUsage,
+  extractFileEdit,
 } from "./jsonl.js";
 
 function assistantLine(text: string, cwd = "/tmp/project", model?: string): string {
@@ -158,22 +162,38 @@ describe("extractToolUses", () => {
     expect(result).toEqual([{ id: "t1", name: "Bash", command: "ls /tmp" }]);
   });
 
-  it("skips non-Bash tools", () => {
+  it("describes other tools by their path, pattern or description", () => {
+    const tool = (id: string, name: string, input: Record<string, unknown>) => ({ type: "tool_use", id, name, input });
     const lines = [
       JSON.stringify({
         type: "assistant",
         message: {
           content: [
-            { type: "tool_use", id: "t2", name: "Read", input: { file_path: "/foo.ts" } },
+            tool("t2", "Read", { file_path: "/foo.ts" }),
+            tool("t6", "Edit", { file_path: "/home/me/" + "deep/".repeat(15) + "file.ts", old_string: "a", new_string: "b" }),
+            tool("t7", "Task", { description: "Find flaky tests", prompt: "..." }),
+            tool("t8", "TodoWrite", { todos: [{}, {}] }),
+            tool("t9", "mcp__github__get_issue", { number: 1 }),
           ],
         },
       }),
     ];
     const result = extractToolUses(lines);
-    expect(result).toEqual([]);
+    expect(result).toEqual([
+      { id: "t2", name: "Read", detail: "/foo.ts" },
+      {
+        id: "t6",
+        name: "Edit",
+        detail: "..." + ("/home/me/" + "deep/".repeat(15) + "file.ts").slice(-57),
+        edit: { tool: "Edit", filePath: "/home/me/" + "deep/".repeat(15) + "file.ts", changes: [{ oldText: "a", newText: "b" }] },
+      },
+      { id: "t7", name: "Task", detail: "Find flaky tests" },
+      { id: "t8", name: "TodoWrite", detail: "2 todos" },
+      { id: "t9", name: "mcp__github__get_issue" },
+    ]);
   });
 
-  it("extracts only Bash from mixed tool entries", () => {
+  it("extracts every tool from mixed tool entries", () => {
     const lines = [
       JSON.stringify({
         type: "assistant",
@@ -195,6 +215,7 @@ describe("extractToolUses", () => {
     ];
     const result = extractToolUses(lines);
     expect(result).toEqual([
+      { id: "t3", name: "Grep", detail: "foo" },
       { id: "t4", name: "Bash", command: "npm test" },
     ]);
   });
@@ -225,29 +246,135 @@ describe("extractToolUses", () => {
   });
 });
 
-describe("findLastToolUse", () => {
-  it("finds the last Bash command", () => {
-    const lines = [bashLine("ls"), bashLine("npm test")];
-    expect(findLastToolUse(lines, "Bash")).toBe("npm test");
+describe("findPendingToolUse", () => {
+  const call = (id: string, name: string, input: unknown) =>
+    JSON.stringify({ type: "assistant", message: { content: [{ type: "tool_use", id, name, input }] } });
+  const result = (id: string) =>
+    JSON.stringify({ type: "user", message: { content: [{ type: "tool_result", tool_use_id: id, content: "ok" }] } });
+  const prompt = (text: string) => JSON.stringify({ type: "user", message: { content: text } });
+
+  it("finds the call still waiting for its result", () => {
+    const lines = [prompt("test it"), call("t1", "Bash", { command: "ls" }), result("t1"), call("t2", "Bash", { command: "npm test" })];
+    expect(findPendingToolUse(lines, "Bash")).toEqual({ command: "npm test", input: { command: "npm test" } });
   });
 
-  it("returns undefined for non-matching tool", () => {
-    const lines = [bashLine("ls")];
-    expect(findLastToolUse(lines, "Write")).toBeUndefined();
+  it("returns undefined when the call isn't in the transcript yet", () => {
+    const lines = [call("t1", "Bash", { command: "ls" }), result("t1")];
+    expect(findPendingToolUse(lines, "Bash")).toBeUndefined();
+    expect(findPendingToolUse([bashLine("ls")], "Write")).toBeUndefined();
+  });
+
+  it("returns undefined when more than one call is waiting", () => {
+    const lines = [call("t1", "Bash", { command: "ls" }), call("t2", "Bash", { command: "rm -rf build" })];
+    expect(findPendingToolUse(lines, "Bash")).toBeUndefined();
+  });
+
+  it("ignores calls from before the last user prompt", () => {
+    const lines = [call("t1", "Bash", { command: "ls" }), prompt("stop"), call("t2", "Bash", { command: "npm test" })];
+    expect(findPendingToolUse(lines, "Bash")?.command).toBe("npm test");
+    expect(findPendingToolUse(lines.slice(0, 2), "Bash")).toBeUndefined();
   });
 
   it("truncates long commands", () => {
     const longCmd = "x".repeat(500);
-    const lines = [bashLine(longCmd)];
-    expect(findLastToolUse(lines, "Bash")!.length).toBe(300);
+    const pending = findPendingToolUse([bashLine(longCmd)], "Bash")!;
+    expect(pending.command.length).toBe(300);
+    expect(pending.input).toEqual({ command: longCmd });
   });
 
   it("handles JSON input without command field", () => {
-    const line = JSON.stringify({
+    const pending = findPendingToolUse([call("t1", "Write", { file_path: "/a.ts", content: "hello" })], "Write");
+    expect(pending?.command).toContain("file_path");
+  });
+});
+
+describe("claudeContentBlocks", () => {
+  it("returns each message block with its line, treating string content as one text block", () => {
+    const blocks = claudeContentBlocks([
+      JSON.stringify({ type: "user", cwd: "/p", timestamp: "2026-04-01T10:00:00Z", message: { content: "hi" } }),
+      "not json",
+      JSON.stringify({ type: "system", message: { content: "skip" } }),
+      JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "a" }, { type: "tool_use", name: "Bash" }] } }),
+    ]);
+
+    expect(blocks).toEqual([
+      { role: "user", line: 0, cwd: "/p", timestamp: new Date("2026-04-01T10:00:00Z"), block: { type: "text", text: "hi" } },
+      { role: "assistant", line: 3, cwd: undefined, timestamp: undefined, block: { type: "text", text: "a" } },
+      { role: "assistant", line: 3, cwd: undefined, timestamp: undefined, block: { type: "tool_use", name: "Bash" } },
+    ]);
+  });
+});
+
+describe("extractTranscript", () => {
+  it("lists prompts, replies, tool calls and results in order", () => {
+    const lines = [
+      JSON.stringify({ type: "user", timestamp: "2026-03-01T10:00:00Z", message: { content: "run the tests" } }),
+      bashLine("npm test"),
+      JSON.stringify({
+        type: "user",
+        message: { content: [{ type: "tool_result", tool_use_id: "toolu_b", content: [{ type: "text", text: "1 failed" }], is_error: true }] },
+      }),
+      writeLine("/tmp/proj/a.ts"),
+      assistantLine("One test fails."),
+      resultLine(),
+    ];
+    const entries = extractTranscript(lines);
+    expect(entries.map((e) => [e.kind, e.toolName, e.callId])).toEqual([
+      ["user", undefined, undefined],
+      ["tool_call", "Bash", "toolu_b"],
+      ["tool_result", undefined, "toolu_b"],
+      ["tool_call", "Write", "toolu_w"],
+      ["assistant", undefined, undefined],
+    ]);
+    expect(entries[0].timestamp).toEqual(new Date("2026-03-01T10:00:00Z"));
+    expect(entries[1].text).toBe("npm test");
+    expect(entries[2]).toMatchObject({ text: "1 failed", isError: true });
+    expect(JSON.parse(entries[3].text)).toEqual({ file_path: "/tmp/proj/a.ts", content: "data" });
+  });
+});
+
+describe("extractUsage", () => {
+  it("collapses streamed entries of one message and keeps the final usage", () => {
+    const entry = (id: string, output: number, text: string) => JSON.stringify({
       type: "assistant",
-      message: { content: [{ type: "tool_use", name: "Write", input: { file_path: "/a.ts", content: "hello" } }] },
+      timestamp: "2026-03-01T10:00:00Z",
+      message: {
+        id,
+        model: "claude-sonnet-4-5",
+        content: [{ type: "text", text }],
+        usage: { input_tokens: 3, output_tokens: output, cache_creation_input_tokens: 100, cache_read_input_tokens: 2000 },
+      },
     });
-    const result = findLastToolUse([line], "Write");
-    expect(result).toContain("file_path");
+    const records = extractUsage([entry("msg_1", 1, "a"), entry("msg_1", 40, "b"), userLine(), entry("msg_2", 7, "c")]);
+    expect(records).toEqual([
+      { usage: { input: 3, output: 40, cacheWrite: 100, cacheRead: 2000 }, model: "claude-sonnet-4-5", timestamp: new Date("2026-03-01T10:00:00Z") },
+      { usage: { input: 3, output: 7, cacheWrite: 100, cacheRead: 2000 }, model: "claude-sonnet-4-5", timestamp: new Date("2026-03-01T10:00:00Z") },
+    ]);
+  });
+
+  it("ignores entries without usage", () => {
+    expect(extractUsage([assistantLine("hi"), "garbage"])).toEqual([]);
+  });
+});
+
+describe("extractFileEdit", () => {
+  it("collects MultiEdit changes and Write content", () => {
+    expect(
+      extractFileEdit("MultiEdit", {
+        file_path: "/a.ts",
+        edits: [{ old_string: "a", new_string: "b" }, { bad: true }, { old_string: "c", new_string: "" }],
+      })
+    ).toEqual({ tool: "MultiEdit", filePath: "/a.ts", changes: [{ oldText: "a", newText: "b" }, { oldText: "c", newText: "" }] });
+    expect(extractFileEdit("Write", { file_path: "/b.md", content: "hello" })).toEqual({
+      tool: "Write",
+      filePath: "/b.md",
+      changes: [{ oldText: "", newText: "hello" }],
+    });
+  });
+
+  it("returns undefined for other tools and malformed input", () => {
+    expect(extractFileEdit("Read", { file_path: "/a.ts" })).toBeUndefined();
+    expect(extractFileEdit("Edit", { file_path: "/a.ts" })).toBeUndefined();
+    expect(extractFileEdit("Edit", undefined)).toBeUndefined();
   });
 });
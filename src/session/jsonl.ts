@@ -5,6 +5,8 @@
  * (no I/O). The callers are responsible for reading/streaming the file.
  */
 
+import type { TranscriptEntry, UsageRecord } from "./adapter.js";
+
 export type ContentBlock = {
   type: string;
   text?: string;
@@ -133,15 +135,81 @@ export function extractWrittenImagePaths(lines: string[]): string[] {
   return paths;
 }
 
+/** Text an Edit/MultiEdit call replaced, or a Write call's content (with empty oldText). */
+export type FileChange = { oldText: string; newText: string };
+
+export type FileEdit = { tool: string; filePath: string; changes: FileChange[] };
+
 export type ToolUseEntry = {
   id: string;
   name: string;
+  /** Bash: the command line, truncated. */
   command?: string;
+  /** Other tools: the file path, search pattern, URL or task description, truncated. */
+  detail?: string;
+  /** Edit, MultiEdit and Write: the full change, for rendering diffs. */
+  edit?: FileEdit;
 };
 
+const TOOL_DETAIL_LIMIT = 60;
+
+// The input field that says what each tool call is about.
+const TOOL_DETAIL_FIELDS: Record<string, string> = {
+  Read: "file_path",
+  Write: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  NotebookEdit: "notebook_path",
+  Grep: "pattern",
+  Glob: "pattern",
+  WebFetch: "url",
+  WebSearch: "query",
+  Task: "description",
+};
+
+function truncateEnd(text: string): string {
+  return text.length > TOOL_DETAIL_LIMIT ? text.slice(0, TOOL_DETAIL_LIMIT - 3) + "..." : text;
+}
+
+// Paths keep their tail — the file name matters more than the home directory.
+function truncateStart(text: string): string {
+  return text.length > TOOL_DETAIL_LIMIT ? "..." + text.slice(-(TOOL_DETAIL_LIMIT - 3)) : text;
+}
+
+/** Short description of a tool call for the live tool-status message. */
+export function describeToolUse(name: string, input: Record<string, unknown> | undefined): Pick<ToolUseEntry, "command" | "detail"> {
+  if (!input) return {};
+  if (name === "Bash") {
+    return typeof input.command === "string" ? { command: truncateEnd(input.command) } : {};
+  }
+  if (name === "TodoWrite" && Array.isArray(input.todos)) {
+    return { detail: `${input.todos.length} todo${input.todos.length === 1 ? "" : "s"}` };
+  }
+  const field = TOOL_DETAIL_FIELDS[name];
+  const value = field ? input[field] : undefined;
+  if (typeof value !== "string" || !value) return {};
+  return { detail: field.endsWith("_path") ? truncateStart(value) : truncateEnd(value) };
+}
+
+/** The change an Edit, MultiEdit or Write call makes, or undefined for other tools. */
+export function extractFileEdit(name: string, input: Record<string, unknown> | undefined): FileEdit | undefined {
+  const filePath = input?.file_path;
+  if (typeof filePath !== "string") return undefined;
+  const asChange = (e: Record<string, unknown> | undefined): FileChange | null =>
+    typeof e?.old_string === "string" && typeof e.new_string === "string"
+      ? { oldText: e.old_string, newText: e.new_string }
+      : null;
+  let changes: (FileChange | null)[] = [];
+  if (name === "Edit") changes = [asChange(input)];
+  else if (name === "MultiEdit" && Array.isArray(input!.edits)) changes = input!.edits.map(asChange);
+  else if (name === "Write" && typeof input!.content === "string") changes = [{ oldText: "", newText: input!.content }];
+  const valid = changes.filter((c): c is FileChange => c !== null);
+  return valid.length > 0 ? { tool: name, filePath, changes: valid } : undefined;
+}
+
 /**
- * Extract all tool_use blocks from JSONL lines.
- * For Bash, includes a truncated command preview.
+ * Extract all tool_use blocks from JSONL lines, each with a short description
+ * of its input (see describeToolUse) and, for file edits, the change itself.
  */
 export function extractToolUses(lines: string[]): ToolUseEntry[] {
   const result: ToolUseEntry[] = [];
@@ -151,15 +219,9 @@ export function extractToolUses(lines: string[]): ToolUseEntry[] {
       if (entry.type !== "assistant") continue;
       const blocks: ContentBlock[] = entry.message?.content ?? [];
       for (const block of blocks) {
-        if (block.type !== "tool_use" || block.name !== "Bash" || !block.id) continue;
-        const tool: ToolUseEntry = { id: block.id, name: block.name };
-        if (block.input) {
-          const cmd = block.input.command;
-          if (typeof cmd === "string") {
-            tool.command = cmd.length > 60 ? cmd.slice(0, 57) + "..." : cmd;
-          }
-        }
-        result.push(tool);
+        if (block.type !== "tool_use" || !block.name || !block.id) continue;
+        const edit = extractFileEdit(block.name, block.input);
+        result.push({ id: block.id, name: block.name, ...describeToolUse(block.name, block.input), ...(edit ? { edit } : {}) });
       }
     } catch {
       continue;
@@ -169,34 +231,163 @@ export function extractToolUses(lines: string[]): ToolUseEntry[] {
 }
 
 /**
- * Find the last tool_use block for a given tool name, scanning backwards.
- * Returns the tool input (as string for string inputs, or the command field,
- * or JSON-stringified object), truncated to maxLength.
+ * Find the call to toolName that is still waiting for its result — the one a
+ * permission prompt is about — scanning back to the last user prompt. Returns
+ * the input, plus a display command (the command field, the string input, or
+ * the JSON-stringified input) truncated to maxLength. Undefined when no call
+ * or more than one call is pending, since then the prompt's call is unknown.
  */
-export function findLastToolUse(
+export function findPendingToolUse(
   lines: string[],
   toolName: string,
   maxLength = 300
-): string | undefined {
+): { command: string; input?: Record<string, unknown> } | undefined {
+  const answered = new Set<string>();
+  const pending: unknown[] = [];
   for (let i = lines.length - 1; i >= 0; i--) {
     try {
       const entry = JSON.parse(lines[i]);
-      if (entry.type !== "assistant") continue;
-      const blocks: unknown[] = entry.message?.content ?? [];
-      for (let j = blocks.length - 1; j >= 0; j--) {
-        const block = blocks[j] as Record<string, unknown>;
+      const content = entry.message?.content;
+      if (entry.type === "user") {
+        const blocks: unknown[] = Array.isArray(content) ? content : [];
+        const results = blocks.filter((b) => (b as Record<string, unknown>)?.type === "tool_result");
+        // A prompt of the user's own: calls before it were settled long ago
+        if (results.length === 0) break;
+        for (const r of results) answered.add(String((r as Record<string, unknown>).tool_use_id));
+        continue;
+      }
+      if (entry.type !== "assistant" || !Array.isArray(content)) continue;
+      for (const block of content as Record<string, unknown>[]) {
         if (block.type !== "tool_use" || block.name !== toolName) continue;
-        const input = block.input;
-        if (typeof input === "string") return input.slice(0, maxLength);
-        if (input && typeof input === "object") {
-          const cmd = (input as Record<string, unknown>).command;
-          if (typeof cmd === "string") return cmd.slice(0, maxLength);
-          return JSON.stringify(input).slice(0, maxLength);
-        }
+        if (!answered.has(String(block.id))) pending.push(block.input);
       }
     } catch {
       continue;
     }
   }
-  return undefined;
+  if (pending.length !== 1) return undefined;
+  const input = pending[0];
+  if (typeof input === "string") return { command: input.slice(0, maxLength) };
+  if (!input || typeof input !== "object") return undefined;
+  const fields = input as Record<string, unknown>;
+  const command = typeof fields.command === "string" ? fields.command : JSON.stringify(input);
+  return { command: command.slice(0, maxLength), input: fields };
+}
+
+/** `value` as a plain object, or undefined for anything else (arrays included). */
+export function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
+export function parseTimestamp(value: unknown): Date | undefined {
+  if (typeof value !== "string") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Tool results carry either a string or a list of text/image blocks.
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((b) => (b?.type === "text" && typeof b.text === "string" ? b.text : b?.type === "image" ? "[image]" : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+export type ClaudeContentBlock = {
+  role: "user" | "assistant";
+  /** Index of the JSONL line the block came from. */
+  line: number;
+  timestamp?: Date;
+  cwd?: string;
+  block: Record<string, unknown>;
+};
+
+/**
+ * The content blocks of a Claude transcript's prompts and replies, in order. A
+ * message given as a plain string comes back as one text block.
+ */
+export function claudeContentBlocks(lines: string[]): ClaudeContentBlock[] {
+  const result: ClaudeContentBlock[] = [];
+  lines.forEach((line, i) => {
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (entry.type !== "user" && entry.type !== "assistant") return;
+    const base = { role: entry.type, line: i, timestamp: parseTimestamp(entry.timestamp), cwd: entry.cwd };
+    const content: unknown = entry.message?.content;
+    if (typeof content === "string") {
+      result.push({ ...base, block: { type: "text", text: content } });
+    } else if (Array.isArray(content)) {
+      for (const item of content) {
+        const block = asRecord(item);
+        if (block) result.push({ ...base, block });
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Flatten a Claude transcript into prompts, replies, tool calls and tool results,
+ * in order. Bash calls are shown as their command, other tools as their JSON input.
+ */
+export function extractTranscript(lines: string[]): TranscriptEntry[] {
+  const result: TranscriptEntry[] = [];
+  for (const { role, timestamp, block } of claudeContentBlocks(lines)) {
+    if (block.type === "text" && typeof block.text === "string" && block.text.trim()) {
+      result.push({ kind: role, text: block.text, timestamp });
+    } else if (block.type === "tool_use") {
+      const input = asRecord(block.input) ?? {};
+      const toolName = typeof block.name === "string" ? block.name : undefined;
+      const text = toolName === "Bash" && typeof input.command === "string"
+        ? input.command
+        : JSON.stringify(input, null, 2);
+      const callId = typeof block.id === "string" ? block.id : undefined;
+      result.push({ kind: "tool_call", text, toolName, callId, timestamp });
+    } else if (block.type === "tool_result") {
+      result.push({
+        kind: "tool_result",
+        text: toolResultText(block.content),
+        callId: typeof block.tool_use_id === "string" ? block.tool_use_id : undefined,
+        ...(block.is_error ? { isError: true } : {}),
+        timestamp,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Token usage of each assistant message. Claude writes one entry per content block,
+ * all carrying the message's usage, so entries are collapsed by message ID (the
+ * last one has the final output count).
+ */
+export function extractUsage(lines: string[]): UsageRecord[] {
+  const byMessage = new Map<string, UsageRecord>();
+  lines.forEach((line, i) => {
+    try {
+      const entry = JSON.parse(line);
+      if (entry.type !== "assistant") return;
+      const u = entry.message?.usage;
+      if (!u || typeof u !== "object") return;
+      byMessage.set(entry.message.id ?? `line-${i}`, {
+        usage: {
+          input: u.input_tokens ?? 0,
+          output: u.output_tokens ?? 0,
+          cacheWrite: u.cache_creation_input_tokens ?? 0,
+          cacheRead: u.cache_read_input_tokens ?? 0,
+        },
+        model: entry.message.model,
+        timestamp: parseTimestamp(entry.timestamp),
+      });
+    } catch {
+      // skip malformed lines
+    }
+  });
+  return [...byMessage.values()];
 }
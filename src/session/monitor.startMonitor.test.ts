@@ -2,7 +2,7 @@
  * Tests for startMonitor's waiting-state detection.
  *
  * We mock chokidar (so we control change events without touching the filesystem),
- * and fs/promises (so we return canned JSONL).
+ * and fs/promises plus the tailer (so we return canned JSONL).
  * Fake timers let us skip the 3-second debounce without slowing the test suite.
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
@@ -18,6 +18,8 @@ const { mockWatcher, watcherEmitter } = vi.hoisted(() => {
       return this;
     },
     close: vi.fn(),
+    add: vi.fn(),
+    unwatch: vi.fn(),
   };
   return { mockWatcher: watcher, watcherEmitter: emitter };
 });
@@ -36,9 +38,28 @@ vi.mock("fs/promises", () => ({
   realpath: vi.fn().mockImplementation(async (p: string) => p),
 }));
 
+// Serve the canned readFile content as if all of it had just been appended.
+vi.mock("./tailer.js", () => ({
+  JsonlTailer: class {
+    lines: string[] = [];
+    dropped: string[] = [];
+    constructor(readonly filePath: string, _fromByte = 0, readonly maxLines = Infinity) {}
+    async read() {
+      const { readFile } = await import("fs/promises");
+      const all = String(await readFile(this.filePath, "utf8")).trim().split("\n").filter(Boolean);
+      this.lines = all.slice(-this.maxLines);
+      this.dropped = all.slice(0, all.length - this.lines.length);
+      return this.lines;
+    }
+  },
+}));
+
 import { startMonitor, WaitingType } from "./monitor.js";
 import type { SessionWaitingState } from "./monitor.js";
-import { readFile } from "fs/promises";
+import type { SessionAdapter } from "./adapter.js";
+import type { SessionIndex } from "./session-index.js";
+import { readFile, stat } from "fs/promises";
+import chokidar from "chokidar";
 
 const HARDCODED_CHOICES = [
   "Yes, clear context and bypass permissions",
@@ -234,3 +255,208 @@ describe("startMonitor — waiting-state detection", () => {
     expect(received[0].waitingType).toBe(WaitingType.YES_NO);
   });
 });
+
+describe("startMonitor — adapters", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    watcherEmitter.removeAllListeners();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeAdapter(overrides: Partial<SessionAdapter>): SessionAdapter {
+    return {
+      name: "test-cli",
+      projectsPath: "/sessions",
+      supportsImageDetection: false,
+      isAgentPane: () => false,
+      getLatestSessionFileForCwd: async () => null,
+      parseAssistantText: () => ({ text: "Delete it? (y/n)", cwd: "/work/app", model: undefined }),
+      findResultEvent: () => false,
+      extractToolUses: () => [],
+      friendlyModelName: () => "test",
+      ...overrides,
+    };
+  }
+
+  it("watches each adapter's projectsPath and skips adapters without one", async () => {
+    const stop = startMonitor(async () => {}, [
+      makeAdapter({ watchDepth: 3 }),
+      makeAdapter({ name: "no-dir", projectsPath: "" }),
+    ]);
+    stop();
+
+    expect(chokidar.watch).toHaveBeenCalledTimes(1);
+    expect(chokidar.watch).toHaveBeenCalledWith("/sessions", expect.objectContaining({ depth: 3 }));
+  });
+
+  it("watches the files an adapter without projectsPath names, following its panes", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n" as any);
+    const watchPaths = vi.fn()
+      .mockResolvedValueOnce(["/work/app/.aider.chat.history.md"])
+      .mockResolvedValueOnce(["/work/lib/.aider.chat.history.md"]);
+    const classifyWaiting = vi.fn().mockReturnValue({ waitingType: WaitingType.YES_NO, prompt: "Apply edit?", dedupKey: "a" });
+    const adapter = makeAdapter({
+      name: "aider",
+      projectsPath: "",
+      watchPaths,
+      classifyWaiting,
+      readLines: async () => ["{}"],
+      getLatestSessionFileForCwd: async (cwd) => ({ filePath: `${cwd}/.aider.chat.history.md`, sessionId: "aider-2026" }),
+    });
+
+    const received: SessionWaitingState[] = [];
+    const stop = startMonitor(async (state) => { received.push(state); }, [adapter]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(chokidar.watch).toHaveBeenCalledWith([], expect.anything());
+    expect(mockWatcher.add).toHaveBeenCalledWith(["/work/app/.aider.chat.history.md"]);
+
+    watcherEmitter.emit("change", "/work/app/.aider.chat.history.md");
+    await vi.advanceTimersByTimeAsync(3100);
+    expect(received[0]).toMatchObject({ sessionId: "aider-2026", cwd: "/work/app", cliName: "aider" });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    stop();
+    expect(mockWatcher.add).toHaveBeenLastCalledWith(["/work/lib/.aider.chat.history.md"]);
+    expect(mockWatcher.unwatch).toHaveBeenCalledWith(["/work/app/.aider.chat.history.md"]);
+  });
+
+  it("takes the files the adapter calls transcripts, whatever their extension", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n" as any);
+    const classifyWaiting = vi.fn().mockReturnValue(null);
+    const adapter = makeAdapter({ classifyWaiting, isTranscriptFile: (f) => f.endsWith(".log") });
+    const stop = startMonitor(async () => {}, [adapter]);
+
+    watcherEmitter.emit("change", "/sessions/a/b/run.jsonl");
+    watcherEmitter.emit("change", "/sessions/a/b/run.log");
+    await vi.advanceTimersByTimeAsync(3100);
+    stop();
+
+    expect(classifyWaiting).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the adapter's classifier and reports the CLI name", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n" as any);
+    const classifyWaiting = vi.fn().mockReturnValue({
+      waitingType: WaitingType.MULTIPLE_CHOICE,
+      prompt: "Which one?",
+      choices: ["A", "B"],
+      dedupKey: "which",
+    });
+
+    const received: SessionWaitingState[] = [];
+    const stop = startMonitor(async (state) => { received.push(state); }, [makeAdapter({ classifyWaiting })]);
+
+    watcherEmitter.emit("change", "/sessions/2026/01/02/rollout-abc.jsonl");
+    await vi.advanceTimersByTimeAsync(3100);
+    watcherEmitter.emit("change", "/sessions/2026/01/02/rollout-abc.jsonl");
+    await vi.advanceTimersByTimeAsync(3100);
+    stop();
+
+    expect(classifyWaiting).toHaveBeenCalledWith(["{}"]);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      sessionId: "rollout-abc",
+      projectName: "app",
+      cwd: "/work/app",
+      choices: ["A", "B"],
+      cliName: "test-cli",
+    });
+  });
+
+  it("leaves the CLI name out for Claude sessions", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n" as any);
+    const classifyWaiting = vi.fn().mockReturnValue({ waitingType: WaitingType.YES_NO, prompt: "Proceed?", dedupKey: "p" });
+
+    const received: SessionWaitingState[] = [];
+    const stop = startMonitor(async (state) => { received.push(state); }, [makeAdapter({ name: "claude", classifyWaiting })]);
+
+    watcherEmitter.emit("change", "/sessions/a.jsonl");
+    await vi.advanceTimersByTimeAsync(3100);
+    stop();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].cliName).toBeUndefined();
+  });
+
+  it("falls back to the y/n text check when the adapter has no classifier", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n" as any);
+
+    const received: SessionWaitingState[] = [];
+    const stop = startMonitor(async (state) => { received.push(state); }, [makeAdapter({})]);
+
+    watcherEmitter.emit("change", "/sessions/a.jsonl");
+    await vi.advanceTimersByTimeAsync(3100);
+    stop();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].waitingType).toBe(WaitingType.YES_NO);
+  });
+
+  it("updates the session index for every changed transcript", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n" as any);
+    vi.mocked(stat).mockResolvedValue({ mtime: new Date(42) } as any);
+    const index = { update: vi.fn() } as unknown as SessionIndex;
+
+    const stop = startMonitor(async () => {}, [makeAdapter({
+      parseAssistantText: () => ({ text: "All done.\nBye", cwd: "/work/app", model: "gpt-5" }),
+    })], index);
+
+    watcherEmitter.emit("change", "/sessions/rollout-abc.jsonl");
+    await vi.advanceTimersByTimeAsync(3100);
+    stop();
+
+    expect(index.update).toHaveBeenCalledWith({
+      sessionId: "rollout-abc",
+      cwd: "/work/app",
+      projectName: "app",
+      lastMessage: "All done. Bye",
+      model: "gpt-5",
+      cliName: "test-cli",
+      mtime: 42,
+    });
+  });
+
+  it("passes each changed transcript's usage and idle state to onUsage", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n" as any);
+    const usage = { usage: { input: 1, output: 2, cacheWrite: 0, cacheRead: 0 }, model: "gpt-5" };
+    const onUsage = vi.fn().mockResolvedValue(undefined);
+
+    const stop = startMonitor(async () => {}, [makeAdapter({
+      parseAssistantText: () => ({ text: null, cwd: "/work/app", model: undefined }),
+      extractUsage: () => [usage],
+    })], undefined, onUsage);
+
+    watcherEmitter.emit("change", "/sessions/rollout-abc.jsonl");
+    await vi.advanceTimersByTimeAsync(3100);
+    stop();
+
+    expect(onUsage).toHaveBeenCalledWith({
+      sessionId: "rollout-abc",
+      cliName: "test-cli",
+      projectName: "app",
+      cwd: "/work/app",
+      records: [usage],
+      idle: false,
+    });
+  });
+
+  it("still counts the usage of lines that left the tailer's window", async () => {
+    vi.mocked(readFile).mockResolvedValue("{}\n".repeat(2001) as any);
+    const usage = { usage: { input: 1, output: 2, cacheWrite: 0, cacheRead: 0 }, model: "gpt-5" };
+    const onUsage = vi.fn().mockResolvedValue(undefined);
+    const extractUsage = vi.fn((lines: string[]) => lines.map(() => usage));
+
+    const stop = startMonitor(async () => {}, [makeAdapter({ extractUsage })], undefined, onUsage);
+
+    watcherEmitter.emit("change", "/sessions/rollout-abc.jsonl");
+    await vi.advanceTimersByTimeAsync(3100);
+    stop();
+
+    expect(extractUsage).toHaveBeenCalledWith(["{}"]);
+    expect(onUsage.mock.calls[0][0].records).toHaveLength(2001);
+  });
+});
@@ -142,6 +142,12 @@ describe("getLastAssistantEntry", () => {
     expect(result).toEqual({ text: "Current turn text.", hasExitPlanMode: false, planText: null });
   });
 
+  it("only looks at the transcript's latest lines", async () => {
+    await writeFile(tmpFile, exitPlanOnlyLine() + assistantLine("filler").repeat(2000));
+    const result = await getLastAssistantEntry(tmpFile);
+    expect(result).toEqual({ text: "filler", hasExitPlanMode: false, planText: null });
+  });
+
   it("returns hasExitPlanMode=false for numbered list text with no ExitPlanMode tool_use", async () => {
     await writeFile(tmpFile, assistantLine("1. Add X\n2. Refactor Y"));
     const result = await getLastAssistantEntry(tmpFile);
@@ -485,6 +491,53 @@ describe("watchForResponse", () => {
     stop();
   });
 
+  it("reads lines through adapter.readLines when the adapter provides it", async () => {
+    const file = join(tmpdir(), `cv-watch-readlines-${Date.now()}.json`);
+    await writeFile(file, "{}");
+
+    const readCalls: number[] = [];
+    const adapter = {
+      name: "rewrite-cli",
+      projectsPath: "/tmp",
+      supportsImageDetection: false,
+      isAgentPane: () => false,
+      getLatestSessionFileForCwd: async () => null,
+      readLines: async (_filePath: string, fromByte: number) => {
+        readCalls.push(fromByte);
+        return ["NORMALISED"];
+      },
+      parseAssistantText: (lines: string[]) => ({
+        text: lines[0] === "NORMALISED" ? "from readLines" : null,
+        cwd: null,
+        model: undefined,
+      }),
+      findResultEvent: () => false,
+      extractToolUses: () => [],
+      friendlyModelName: (m: string | undefined) => m ?? "test",
+    };
+
+    const responses: string[] = [];
+    const stop = watchForResponse(
+      file,
+      2,
+      async (state) => { responses.push(state.text); },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      adapter
+    );
+
+    await new Promise((r) => setTimeout(r, 200));
+    await writeFile(file, '{"rewritten": true}');
+    await new Promise((r) => setTimeout(r, 500));
+
+    expect(readCalls).toContain(2);
+    expect(responses).toEqual(["from readLines"]);
+
+    stop();
+  });
+
   it("calls onPing after 60s with no response text", async () => {
     // This test is hard to run with real timers, so we verify the onPing path
     // at a structural level — the important thing is that watchForResponse
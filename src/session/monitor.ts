@@ -1,9 +1,13 @@
 import chokidar from "chokidar";
 import { readFile, realpath, stat } from "fs/promises";
+import { basename, extname } from "path";
 import { PROJECTS_PATH } from "./history.js";
+import { JsonlTailer } from "./tailer.js";
 import { log } from "../logger.js";
-import { parseAssistantText, extractCwd, findResultEvent, findExitPlanMode, extractWrittenImagePaths, extractToolUses, type ToolUseEntry } from "./jsonl.js";
-import type { SessionAdapter } from "./adapter.js";
+import { parseAssistantText, extractCwd, findResultEvent, findExitPlanMode, extractWrittenImagePaths, extractToolUses, extractUsage, type ToolUseEntry } from "./jsonl.js";
+import type { SessionAdapter, UsageRecord, WaitingClassification } from "./adapter.js";
+import type { SessionIndex } from "./session-index.js";
+import type { SessionUsage } from "./usage.js";
 
 export enum WaitingType {
   YES_NO = "YES_NO",
@@ -19,6 +23,7 @@ export type SessionWaitingState = {
   waitingType: WaitingType;
   prompt: string;
   choices?: string[];
+  cliName?: string;
 };
 
 export type WaitingCallback = (state: SessionWaitingState) => Promise<void>;
@@ -31,10 +36,17 @@ export type SessionResponseState = {
   text: string;
   model?: string;
   cliName?: string;
+  /** Token usage of the turn so far. */
+  usage?: UsageRecord[];
 };
 
 export type ResponseCallback = (state: SessionResponseState) => Promise<void>;
 
+/** A changed transcript's usage; `idle` when its last entry ends a turn. */
+export type SessionUsageState = SessionUsage & { idle: boolean };
+
+export type UsageCallback = (state: SessionUsageState) => Promise<void>;
+
 export type DetectedImage = { mediaType: string; data: string; path?: string };
 export type ImagesCallback = (images: DetectedImage[]) => Promise<void>;
 
@@ -58,36 +70,85 @@ function decodeProjectName(dir: string): string {
   return encoded.split("/").pop() || dir;
 }
 
+// Transcript lines kept per file for classifying it
+const TAILER_WINDOW_LINES = 2000;
+
+function lastAssistantEntry(lines: string[]): {
+  text: string | null;
+  hasExitPlanMode: boolean;
+  planText: string | null;
+} {
+  const { text } = parseAssistantText(lines);
+  const { found: hasExitPlanMode, planText } = findExitPlanMode(lines);
+
+  // If the very last entry is a result event, the turn is complete —
+  // any waiting state found is stale and should not trigger a notification.
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const entry = JSON.parse(lines[i]);
+      if (entry.type === "result") {
+        return { text: null, hasExitPlanMode: false, planText: null };
+      }
+      if (entry.type === "assistant" || entry.type === "user") break;
+    } catch { continue; }
+  }
+
+  return { text, hasExitPlanMode, planText };
+}
+
+/** The latest turn's assistant text and ExitPlanMode state, from the transcript's last lines. */
 export async function getLastAssistantEntry(filePath: string): Promise<{
   text: string | null;
   hasExitPlanMode: boolean;
   planText: string | null;
 }> {
   try {
-    const content = await readFile(filePath, "utf8");
-    const lines = content.trim().split("\n").filter(Boolean);
-    const { text } = parseAssistantText(lines);
-    const { found: hasExitPlanMode, planText } = findExitPlanMode(lines);
-
-    // If the very last entry is a result event, the turn is complete —
-    // any waiting state found is stale and should not trigger a notification.
-    for (let i = lines.length - 1; i >= 0; i--) {
-      try {
-        const entry = JSON.parse(lines[i]);
-        if (entry.type === "result") {
-          return { text: null, hasExitPlanMode: false, planText: null };
-        }
-        if (entry.type === "assistant" || entry.type === "user") break;
-      } catch { continue; }
-    }
-
-    return { text, hasExitPlanMode, planText };
+    const tailer = new JsonlTailer(filePath, 0, TAILER_WINDOW_LINES);
+    await tailer.read();
+    return lastAssistantEntry(tailer.lines);
   } catch {
     // file unreadable
   }
   return { text: null, hasExitPlanMode: false, planText: null };
 }
 
+const PLAN_APPROVAL_CHOICES = [
+  "Yes, clear context and bypass permissions",
+  "Yes, bypass permissions",
+  "Yes, manually approve edits",
+  "Type here to tell Claude what to change",
+];
+
+/** Claude's waiting classifier: a y/n or Enter prompt, or a pending ExitPlanMode. */
+export function classifyClaudeWaiting(lines: string[]): WaitingClassification | null {
+  const { text, hasExitPlanMode, planText } = lastAssistantEntry(lines);
+
+  const waitingType = text ? classifyWaitingType(text) : null;
+  if (waitingType) {
+    return { waitingType, prompt: text!, dedupKey: text! };
+  }
+  if (hasExitPlanMode) {
+    // The plan approval choices are always the same fixed set, so no pane capture
+    // is needed. Dedup on planText: lastText can change if more content lands in
+    // the file after the initial event.
+    return {
+      waitingType: WaitingType.MULTIPLE_CHOICE,
+      prompt: planText ?? text ?? "",
+      choices: PLAN_APPROVAL_CHOICES,
+      dedupKey: `exit|${planText ?? ""}`,
+    };
+  }
+  return null;
+}
+
+// Fallback for adapters without a classifier: look for a y/n or Enter prompt in the
+// latest assistant text.
+function classifyWithText(adapter: SessionAdapter, lines: string[]): WaitingClassification | null {
+  const { text } = adapter.parseAssistantText(lines);
+  const waitingType = text ? classifyWaitingType(text) : null;
+  return waitingType ? { waitingType, prompt: text!, dedupKey: text! } : null;
+}
+
 function sessionIdFromPath(filePath: string): { sessionId: string; projectDir: string } {
   const parts = filePath.split("/");
   const filename = parts[parts.length - 1];
@@ -96,13 +157,32 @@ function sessionIdFromPath(filePath: string): { sessionId: string; projectDir: s
 }
 
 const DEBOUNCE_MS = 3000;
-
-export function startMonitor(onWaiting: WaitingCallback, watchPath: string = PROJECTS_PATH): () => void {
+// How often adapters with watchPaths are asked for their files again
+const WATCH_PATHS_REFRESH_MS = 60_000;
+
+type MonitorTarget = { path: string; adapter: SessionAdapter | null; depth: number };
+
+/**
+ * Watch transcripts for sessions that are blocked on the user. Pass a directory to
+ * watch Claude JSONL files there, or a list of adapters to watch each adapter's
+ * projectsPath and classify its files with the adapter's own rules. When an index is
+ * given, every changed transcript also updates its entry there; `onUsage` receives
+ * the token usage of every changed transcript that reports any.
+ */
+export function startMonitor(
+  onWaiting: WaitingCallback,
+  watch: string | SessionAdapter[] = PROJECTS_PATH,
+  index?: SessionIndex,
+  onUsage?: UsageCallback
+): () => void {
   const timers = new Map<string, ReturnType<typeof setTimeout>>();
   // Track last text we notified per file to avoid duplicate notifications
   const lastNotified = new Map<string, string>();
   // Track when each entry was last updated so we can sweep stale entries
   const lastNotifiedTime = new Map<string, number>();
+  // One tailer per transcript so each change only reads the appended bytes. It keeps
+  // the latest lines for classifying; usage of older lines is added up as they drop out.
+  const tailers = new Map<string, { tailer: JsonlTailer; lastUsed: number; olderUsage: UsageRecord[] }>();
 
   // Sweep stale entries every 10 minutes to prevent unbounded growth
   const SWEEP_INTERVAL = 10 * 60_000;
@@ -115,98 +195,170 @@ export function startMonitor(onWaiting: WaitingCallback, watchPath: string = PRO
         lastNotifiedTime.delete(key);
       }
     }
+    for (const [key, { lastUsed }] of tailers) {
+      if (now - lastUsed > SWEEP_MAX_AGE) tailers.delete(key);
+    }
   }, SWEEP_INTERVAL);
 
-  // Watch the directory directly — chokidar glob patterns don't reliably
-  // fire change events on macOS for files in ~/.claude/projects subdirs.
-  const watcher = chokidar.watch(watchPath, {
-    persistent: true,
-    ignoreInitial: true,
-    awaitWriteFinish: false,
-    depth: 2,
-  });
-
-  watcher.on("change", (filePath: string) => {
-    if (!filePath.endsWith(".jsonl")) return;
-    const existing = timers.get(filePath);
-    if (existing) clearTimeout(existing);
-
-    const timer = setTimeout(async () => {
-      timers.delete(filePath);
+  // Adapters without a central transcript directory (Aider) are watched file by file below.
+  const targets: MonitorTarget[] = typeof watch === "string"
+    ? [{ path: watch, adapter: null, depth: 2 }]
+    : watch
+        .filter((a, i) => a.projectsPath && watch.findIndex((b) => b.projectsPath === a.projectsPath) === i)
+        .map((a) => ({ path: a.projectsPath, adapter: a, depth: a.watchDepth ?? 2 }));
+
+  const handleChange = async (filePath: string, adapter: SessionAdapter | null) => {
+    // Resolve symlinks so the same JSONL file isn't processed twice
+    // (e.g. codedove → codewhispr symlink).
+    const resolvedPath = await realpath(filePath).catch(() => filePath);
+
+    const usageOf = (from: string[]) => (adapter ? adapter.extractUsage?.(from) ?? [] : extractUsage(from));
+    let lines: string[];
+    let olderUsage: UsageRecord[] = [];
+    try {
+      if (adapter?.readLines) {
+        lines = await adapter.readLines(filePath, 0);
+      } else {
+        const entry = tailers.get(resolvedPath)
+          ?? { tailer: new JsonlTailer(resolvedPath, 0, TAILER_WINDOW_LINES), lastUsed: 0, olderUsage: [] };
+        entry.lastUsed = Date.now();
+        tailers.set(resolvedPath, entry);
+        await entry.tailer.read();
+        if (onUsage && entry.tailer.dropped.length > 0) entry.olderUsage.push(...usageOf(entry.tailer.dropped));
+        lines = entry.tailer.lines;
+        olderUsage = entry.olderUsage;
+      }
+    } catch {
+      return;
+    }
 
-      // Resolve symlinks so the same JSONL file isn't processed twice
-      // (e.g. codedove → codewhispr symlink).
-      const resolvedPath = await realpath(filePath).catch(() => filePath);
-
-      const { text: lastText, hasExitPlanMode, planText } = await getLastAssistantEntry(filePath);
-
-      // Dedup: for ExitPlanMode use planText as the stable key (lastText can
-      // change if more content lands in the file after the initial event,
-      // which would cause a spurious second notification with the old approach).
-      // For waiting prompts, key on the prompt text itself.
-      const dedupKey = hasExitPlanMode
-        ? `exit|${planText ?? ""}`
-        : `${lastText ?? ""}`;
-      if (lastNotified.get(resolvedPath) === dedupKey) return;
-      // Only update dedup after we know there's something actionable
-      // (checked below) — prevents suppressing future events on no-op visits.
-
-      const { sessionId, projectDir } = sessionIdFromPath(filePath);
-      const projectName = decodeProjectName(projectDir);
-
-      let cwd = "";
-      try {
-        const content = await readFile(filePath, "utf8");
-        const allLines = content.trim().split("\n").filter(Boolean);
-        cwd = extractCwd(allLines) ?? "";
-      } catch {
-        // ignore
+    const assistant = adapter ? adapter.parseAssistantText(lines) : parseAssistantText(lines);
+    let sessionId: string;
+    let projectName: string;
+    let cwd: string;
+    if (adapter) {
+      cwd = assistant.cwd ?? extractCwd(lines) ?? "";
+      sessionId = basename(filePath, extname(filePath));
+      // A transcript kept in the project is named after the CLI, not the session
+      if (adapter.watchPaths && cwd) {
+        sessionId = (await adapter.getLatestSessionFileForCwd(cwd).catch(() => null))?.sessionId ?? sessionId;
       }
+      projectName = cwd ? basename(cwd) : sessionId;
+    } else {
+      const parsed = sessionIdFromPath(filePath);
+      sessionId = parsed.sessionId;
+      projectName = decodeProjectName(parsed.projectDir);
+      cwd = extractCwd(lines) ?? "";
+    }
 
-      const waitingType = lastText ? classifyWaitingType(lastText) : null;
+    if (index) {
+      const mtime = await stat(resolvedPath).then((s) => s.mtime.getTime(), () => Date.now());
+      index.update({
+        sessionId,
+        cwd: cwd || undefined,
+        projectName,
+        lastMessage: assistant.text?.slice(0, 200).replace(/\n/g, " "),
+        model: assistant.model,
+        cliName: adapter?.name ?? "claude",
+        mtime,
+      });
+    }
 
-      if (waitingType) {
-        lastNotified.set(resolvedPath, dedupKey);
-        lastNotifiedTime.set(resolvedPath, Date.now());
-        log({ message: `session ${sessionId.slice(0, 8)} waiting (${waitingType}): ${lastText!.slice(0, 80)}` });
-        await onWaiting({ sessionId, projectName, cwd, filePath, waitingType, prompt: lastText! }).catch(
-          (err) => log({ message: `notification error: ${err instanceof Error ? err.message : String(err)}` })
-        );
-      } else if (hasExitPlanMode) {
-        // ExitPlanMode is detected in the JSONL — the plan approval choices are
-        // always the same fixed set, so we fire immediately without pane capture.
-        lastNotified.set(resolvedPath, dedupKey);
-        lastNotifiedTime.set(resolvedPath, Date.now());
-        const choices = [
-          "Yes, clear context and bypass permissions",
-          "Yes, bypass permissions",
-          "Yes, manually approve edits",
-          "Type here to tell Claude what to change",
-        ];
-        log({ message: `session ${sessionId.slice(0, 8)} ExitPlanMode detected, cwd=${cwd}` });
-        await onWaiting({
-          sessionId, projectName, cwd, filePath,
-          waitingType: WaitingType.MULTIPLE_CHOICE,
-          prompt: planText ?? lastText ?? "",
-          choices,
-        }).catch(
-          (err) => log({ message: `notification error: ${err instanceof Error ? err.message : String(err)}` })
+    if (onUsage) {
+      const records = [...olderUsage, ...usageOf(lines)];
+      if (records.length > 0) {
+        const idle = adapter ? adapter.findResultEvent(lines.slice(-1)) : findResultEvent(lines.slice(-1));
+        await onUsage({ sessionId, cliName: adapter?.name ?? "claude", projectName, ...(cwd ? { cwd } : {}), records, idle }).catch(
+          (err) => log({ message: `usage callback error: ${err instanceof Error ? err.message : String(err)}` })
         );
       }
-      // else: no actionable signal — skip without updating dedup so we can
-      // react if the file is updated again with new content.
+    }
+
+    const classification = adapter
+      ? adapter.classifyWaiting?.(lines) ?? classifyWithText(adapter, lines)
+      : classifyClaudeWaiting(lines);
+    // No actionable signal — skip without updating dedup so we can react if the
+    // file is updated again with new content.
+    if (!classification) return;
+    if (lastNotified.get(resolvedPath) === classification.dedupKey) return;
+    lastNotified.set(resolvedPath, classification.dedupKey);
+    lastNotifiedTime.set(resolvedPath, Date.now());
+
+    const { waitingType, prompt, choices } = classification;
+    log({ message: `session ${sessionId.slice(0, 8)} waiting (${waitingType}), cwd=${cwd}: ${prompt.slice(0, 80)}` });
+    await onWaiting({
+      sessionId, projectName, cwd, filePath, waitingType, prompt,
+      ...(choices ? { choices } : {}),
+      // Claude is the default the notification names itself
+      ...(adapter && adapter.name !== "claude" ? { cliName: adapter.name } : {}),
+    }).catch(
+      (err) => log({ message: `notification error: ${err instanceof Error ? err.message : String(err)}` })
+    );
+  };
+
+  const scheduleChange = (filePath: string, adapter: SessionAdapter | null) => {
+    const existing = timers.get(filePath);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      timers.delete(filePath);
+      void handleChange(filePath, adapter);
     }, DEBOUNCE_MS);
 
     timers.set(filePath, timer);
-  });
+  };
 
-  watcher.on("error", (err: unknown) => {
+  const onError = (err: unknown) => {
     log({ message: `monitor error: ${err instanceof Error ? err.message : String(err)}` });
+  };
+
+  // Watch the directory directly — chokidar glob patterns don't reliably
+  // fire change events on macOS for files in ~/.claude/projects subdirs.
+  const watchers = targets.map(({ path, adapter, depth }) => {
+    const watcher = chokidar.watch(path, {
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: false,
+      depth,
+    });
+
+    watcher.on("change", (filePath: string) => {
+      // Gemini keeps each chat as a single .json file
+      const isTranscript = adapter?.isTranscriptFile
+        ? adapter.isTranscriptFile(filePath)
+        : filePath.endsWith(".jsonl") || (adapter !== null && filePath.endsWith(".json"));
+      if (!isTranscript) return;
+      scheduleChange(filePath, adapter);
+    });
+    watcher.on("error", onError);
+
+    return watcher;
+  });
+
+  // Files named by watchPaths come and go with the panes their CLI runs in
+  const refreshIds = typeof watch === "string" ? [] : watch.filter((a) => a.watchPaths).map((adapter) => {
+    const watcher = chokidar.watch([], { persistent: true, ignoreInitial: true, awaitWriteFinish: false });
+    watcher.on("change", (filePath: string) => scheduleChange(filePath, adapter));
+    watcher.on("error", onError);
+    watchers.push(watcher);
+
+    let watched = new Set<string>();
+    const refresh = async () => {
+      const paths = new Set(await adapter.watchPaths!().catch(() => []));
+      const added = [...paths].filter((p) => !watched.has(p));
+      const gone = [...watched].filter((p) => !paths.has(p));
+      if (added.length) watcher.add(added);
+      if (gone.length) watcher.unwatch(gone);
+      watched = paths;
+    };
+    void refresh();
+    return setInterval(() => void refresh(), WATCH_PATHS_REFRESH_MS);
   });
 
   return () => {
-    watcher.close();
+    for (const watcher of watchers) watcher.close();
     clearInterval(sweepId);
+    for (const id of refreshIds) clearInterval(id);
     for (const t of timers.values()) clearTimeout(t);
   };
 }
@@ -246,11 +398,24 @@ export function watchForResponse(
   const _parseAssistantText = adapter?.parseAssistantText.bind(adapter) ?? parseAssistantText;
   const _findResultEvent = adapter?.findResultEvent.bind(adapter) ?? findResultEvent;
   const _extractToolUses = adapter?.extractToolUses.bind(adapter) ?? extractToolUses;
+  const _extractUsage = adapter ? adapter.extractUsage?.bind(adapter) : extractUsage;
   const _supportsImages = adapter ? adapter.supportsImageDetection : true;
+  // `all` is every line after the baseline; `fresh` only what arrived since the last
+  // read. Adapters that rewrite their transcript (readLines) re-read it in full.
+  const tailer = adapter?.readLines ? null : new JsonlTailer(filePath, baselineSize);
+  const readNewLines = async (): Promise<{ all: string[]; fresh: string[] }> => {
+    if (!tailer) {
+      const all = await adapter!.readLines!(filePath, baselineSize);
+      return { all, fresh: all };
+    }
+    const fresh = await tailer.read();
+    return { all: tailer.lines, fresh };
+  };
 
   let done = false;
   let lastSentText: string | null = null;
   let completionScheduled = false;
+  let resultSeen = false;
   const detectedImages: DetectedImage[] = [];
   // Image files written via the Write tool (detected by file extension)
   const writtenImagePaths = new Set<string>();
@@ -309,11 +474,9 @@ export function watchForResponse(
 
     resetInactivityTimeout();
 
-    readFile(filePath)
-      .then(async (buf) => {
+    readNewLines()
+      .then(async ({ all: lines, fresh }) => {
         if (done) return;
-        const newContent = buf.subarray(baselineSize).toString("utf8");
-        const lines = newContent.split("\n").filter(Boolean);
 
         // Find the latest assistant text written so far
         const parsed = _parseAssistantText(lines);
@@ -323,8 +486,7 @@ export function watchForResponse(
 
         // Detect and report new tool_use blocks
         if (onToolUse) {
-          const allTools = _extractToolUses(lines);
-          const newTools = allTools.filter((t) => !reportedToolIds.has(t.id));
+          const newTools = _extractToolUses(fresh).filter((t) => !reportedToolIds.has(t.id));
           if (newTools.length > 0) {
             for (const t of newTools) reportedToolIds.add(t.id);
             onToolUse(newTools).catch(
@@ -335,13 +497,14 @@ export function watchForResponse(
 
         // Collect image files written via the Write tool
         if (onImages && _supportsImages) {
-          for (const fp of extractWrittenImagePaths(lines)) {
+          for (const fp of extractWrittenImagePaths(fresh)) {
             writtenImagePaths.add(fp);
           }
         }
 
         // Detect Claude Code turn completion via the result event (written by Stop hook)
-        const isComplete = _findResultEvent(lines);
+        resultSeen ||= _findResultEvent(fresh);
+        const isComplete = resultSeen;
 
         if (isComplete && !completionScheduled) {
           completionScheduled = true;
@@ -352,7 +515,7 @@ export function watchForResponse(
           if (latestText && latestText !== lastSentText) {
             lastSentText = latestText;
             log({ message: `watchForResponse firing for session ${sessionId.slice(0, 8)}: ${latestText.slice(0, 60)}` });
-            pendingResponse = onResponse({ sessionId, projectName: deriveProjectName(latestCwd), cwd: latestCwd, filePath, text: latestText, model: latestModel, cliName: adapter?.name }).catch(
+            pendingResponse = onResponse({ sessionId, projectName: deriveProjectName(latestCwd), cwd: latestCwd, filePath, text: latestText, model: latestModel, cliName: adapter?.name, usage: _extractUsage?.(lines) }).catch(
               (err) => log({ message: `watchForResponse callback error: ${err instanceof Error ? err.message : String(err)}` })
             );
             await pendingResponse;
@@ -363,13 +526,12 @@ export function watchForResponse(
             cleanup();
             // Final read — catch any text written after the result event
             try {
-              const finalBuf = await readFile(filePath);
-              const finalLines = finalBuf.subarray(baselineSize).toString("utf8").split("\n").filter(Boolean);
+              const { all: finalLines } = await readNewLines();
               const final = _parseAssistantText(finalLines);
               if (final.text && final.text !== lastSentText) {
                 lastSentText = final.text;
                 log({ message: `watchForResponse final-flush for session ${sessionId.slice(0, 8)}: ${final.text.slice(0, 60)}` });
-                await onResponse({ sessionId, projectName: deriveProjectName(final.cwd ?? null), cwd: final.cwd ?? cwd, filePath, text: final.text, model: final.model, cliName: adapter?.name }).catch(
+                await onResponse({ sessionId, projectName: deriveProjectName(final.cwd ?? null), cwd: final.cwd ?? cwd, filePath, text: final.text, model: final.model, cliName: adapter?.name, usage: _extractUsage?.(finalLines) }).catch(
                   (err) => log({ message: `watchForResponse callback error: ${err instanceof Error ? err.message : String(err)}` })
                 );
               }
@@ -406,7 +568,7 @@ export function watchForResponse(
         // Fire immediately — no debounce needed since the Stop hook signals completion
         lastSentText = latestText;
         log({ message: `watchForResponse firing for session ${sessionId.slice(0, 8)}: ${latestText.slice(0, 60)}` });
-        pendingResponse = onResponse({ sessionId, projectName: deriveProjectName(latestCwd), cwd: latestCwd, filePath, text: latestText, model: latestModel, cliName: adapter?.name }).catch(
+        pendingResponse = onResponse({ sessionId, projectName: deriveProjectName(latestCwd), cwd: latestCwd, filePath, text: latestText, model: latestModel, cliName: adapter?.name, usage: _extractUsage?.(lines) }).catch(
           (err) => log({ message: `watchForResponse callback error: ${err instanceof Error ? err.message : String(err)}` })
         );
         await pendingResponse;
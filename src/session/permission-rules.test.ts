@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { addClaudeAllowRule, claudeAllowEntry, PermissionRuleStore } from "./permission-rules.js";
+import { evaluatePolicy } from "./policy.js";
+import type { PermissionRequest } from "./permissions.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = join(tmpdir(), `cv-permission-rules-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  mkdirSync(dir, { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function bash(command: string, overrides: Partial<PermissionRequest> = {}): PermissionRequest {
+  return {
+    requestId: "req-1",
+    toolName: "Bash",
+    toolInput: "",
+    toolCommand: command,
+    filePath: "",
+    cwd: dir,
+    sessionId: "s1",
+    input: { command },
+    ...overrides,
+  };
+}
+
+const settingsPath = () => join(dir, ".claude", "settings.local.json");
+
+describe("claudeAllowEntry", () => {
+  it("scopes Bash to the command or allows the whole tool", () => {
+    expect(claudeAllowEntry(bash("npm test"), "command")).toBe("Bash(npm test)");
+    expect(claudeAllowEntry(bash("npm test"), "tool")).toBe("Bash");
+  });
+});
+
+describe("addClaudeAllowRule", () => {
+  it("adds to the allow list once, keeping other settings", async () => {
+    mkdirSync(join(dir, ".claude"));
+    writeFileSync(settingsPath(), JSON.stringify({ model: "opus", permissions: { allow: ["Read"], deny: ["Bash(rm:*)"] } }));
+
+    await addClaudeAllowRule(dir, "Bash(npm test)");
+    await addClaudeAllowRule(dir, "Bash(npm test)");
+
+    expect(JSON.parse(readFileSync(settingsPath(), "utf8"))).toEqual({
+      model: "opus",
+      permissions: { allow: ["Read", "Bash(npm test)"], deny: ["Bash(rm:*)"] },
+    });
+  });
+
+  it("creates the file and leaves one it can't parse alone", async () => {
+    await addClaudeAllowRule(dir, "Edit");
+    expect(JSON.parse(readFileSync(settingsPath(), "utf8"))).toEqual({ permissions: { allow: ["Edit"] } });
+
+    writeFileSync(settingsPath(), "{ broken");
+    await expect(addClaudeAllowRule(dir, "Write")).rejects.toThrow();
+    expect(readFileSync(settingsPath(), "utf8")).toBe("{ broken");
+  });
+});
+
+describe("PermissionRuleStore.rememberAllow", () => {
+  it("writes Claude's always-allow answers to the project settings", async () => {
+    const store = new PermissionRuleStore(join(dir, "rules.json"));
+
+    const note = await store.rememberAllow(bash("npm test"), "command");
+
+    expect(note).toMatch(/^always allowed in cv-permission-rules/);
+    expect(JSON.parse(readFileSync(settingsPath(), "utf8")).permissions.allow).toEqual(["Bash(npm test)"]);
+    expect(await store.rulesFor(bash("npm test"))).toEqual([]);
+  });
+
+  it("keeps Codex answers in its own file, scoped to the project", async () => {
+    const path = join(dir, "rules.json");
+    await new PermissionRuleStore(path).rememberAllow(bash("make *", { agent: "Codex" }), "command");
+
+    const store = new PermissionRuleStore(path);
+    const rules = await store.rulesFor(bash("make all"));
+    expect(evaluatePolicy({ rules }, bash("make *", { agent: "Codex" }))?.action).toBe("approve");
+    expect(evaluatePolicy({ rules }, bash("make all", { agent: "Codex" }))).toBeNull();
+    expect(evaluatePolicy({ rules }, bash("make *", { agent: "Codex", cwd: "/elsewhere" }))).toBeNull();
+  });
+
+  it("allows for the session only in memory", async () => {
+    const store = new PermissionRuleStore(join(dir, "rules.json"));
+
+    expect(await store.rememberAllow(bash("npm test"), "session")).toBe("allowed for this session");
+
+    const same = await store.rulesFor(bash("npm test"));
+    expect(evaluatePolicy({ rules: same }, bash("npm test"))).toMatchObject({ action: "approve" });
+    expect(await store.rulesFor(bash("npm test", { sessionId: "s2" }))).toEqual([]);
+    await expect(store.rememberAllow(bash("ls", { sessionId: undefined }), "session")).rejects.toThrow("session unknown");
+  });
+});
@@ -0,0 +1,121 @@
+import { readFile, writeFile, rename, mkdir } from "fs/promises";
+import { homedir } from "os";
+import { basename, dirname, join } from "path";
+import type { PermissionRequest } from "./permissions.js";
+import { fullCommand, literalCommandPattern, type PolicyRule } from "./policy.js";
+
+// ---------------------------------------------------------------------------
+// Learned permission rules: "Always allow" and "Allow for this session" answers
+// ---------------------------------------------------------------------------
+
+export const PERMISSION_RULES_PATH = join(homedir(), ".codedove", "permission-rules.json");
+
+export type AllowScope = "command" | "tool" | "session";
+
+type RulesFile = { version: 1; rules: PolicyRule[] };
+
+/** The entry Claude Code's `permissions.allow` list needs for this scope, e.g. "Bash(npm test)". */
+export function claudeAllowEntry(req: PermissionRequest, scope: "command" | "tool"): string {
+  const command = fullCommand(req);
+  return scope === "command" && command ? `${req.toolName}(${command.trim()})` : req.toolName;
+}
+
+/**
+ * Add an entry to the project's `.claude/settings.local.json` allow list, keeping
+ * everything else in the file. A file that isn't valid JSON is left alone.
+ */
+export async function addClaudeAllowRule(cwd: string, entry: string): Promise<void> {
+  const path = join(cwd, ".claude", "settings.local.json");
+  let settings: Record<string, unknown> = {};
+  try {
+    settings = JSON.parse(await readFile(path, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  const permissions = (settings.permissions ?? {}) as Record<string, unknown>;
+  const allow = Array.isArray(permissions.allow) ? (permissions.allow as string[]) : [];
+  if (allow.includes(entry)) return;
+  settings.permissions = { ...permissions, allow: [...allow, entry] };
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(settings, null, 2) + "\n", "utf8");
+}
+
+/**
+ * Approve rules learned from Telegram answers. Permanent ones are saved to
+ * ~/.codedove/permission-rules.json; session ones only live until restart.
+ */
+export class PermissionRuleStore {
+  private rules: PolicyRule[] | null = null;
+  private sessionRules = new Map<string, PolicyRule[]>();
+  private static MAX_TRACKED_SESSIONS = 100;
+
+  constructor(private readonly path = PERMISSION_RULES_PATH) {}
+
+  private async load(): Promise<PolicyRule[]> {
+    if (this.rules) return this.rules;
+    try {
+      const data: RulesFile = JSON.parse(await readFile(this.path, "utf8"));
+      this.rules = Array.isArray(data.rules) ? data.rules : [];
+    } catch {
+      this.rules = [];
+    }
+    return this.rules;
+  }
+
+  /** Session rules for the request's session, then the saved ones. */
+  async rulesFor(req: PermissionRequest): Promise<PolicyRule[]> {
+    const session = req.sessionId ? this.sessionRules.get(req.sessionId) ?? [] : [];
+    return [...session, ...(await this.load())];
+  }
+
+  async add(rule: PolicyRule): Promise<void> {
+    const rules = await this.load();
+    if (rules.some((r) => JSON.stringify(r) === JSON.stringify(rule))) return;
+    rules.push(rule);
+    const data: RulesFile = { version: 1, rules };
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+    await rename(tmp, this.path);
+  }
+
+  addForSession(sessionId: string, rule: PolicyRule): void {
+    const rules = this.sessionRules.get(sessionId) ?? [];
+    this.sessionRules.set(sessionId, [...rules, rule]);
+    if (this.sessionRules.size > PermissionRuleStore.MAX_TRACKED_SESSIONS) {
+      this.sessionRules.delete(this.sessionRules.keys().next().value!);
+    }
+  }
+
+  /**
+   * Record that requests like this one are allowed, and return a short note on
+   * where. Claude's "always" answers go to the project's settings.local.json so
+   * Claude stops asking at all; Codex has no such list, so they are kept here.
+   */
+  async rememberAllow(req: PermissionRequest, scope: AllowScope): Promise<string> {
+    const command = req.toolName === "Bash" ? fullCommand(req) : undefined;
+    // Bash approvals stay scoped to the command, as in Claude Code's own prompt
+    const rule: PolicyRule = {
+      action: "approve",
+      tool: req.toolName,
+      ...(command && scope !== "tool" ? { command: literalCommandPattern(command) } : {}),
+    };
+
+    if (scope === "session") {
+      if (!req.sessionId) throw new Error("session unknown");
+      this.addForSession(req.sessionId, { ...rule, reason: "allowed for this session" });
+      return "allowed for this session";
+    }
+
+    if (!req.cwd) throw new Error("project unknown");
+    const project = basename(req.cwd);
+    if (!req.agent || req.agent === "Claude") {
+      await addClaudeAllowRule(req.cwd, claudeAllowEntry(req, scope));
+      return `always allowed in ${project} (.claude/settings.local.json)`;
+    }
+    await this.add({ ...rule, cwd: req.cwd.replace(/\/$/, ""), reason: `always allowed in ${project}` });
+    return `always allowed in ${project}`;
+  }
+}
+
+export const permissionRules = new PermissionRuleStore();
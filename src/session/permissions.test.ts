@@ -20,20 +20,36 @@ vi.mock("chokidar", () => ({
 }));
 
 vi.mock("fs/promises", () => ({
+  access: vi.fn(),
   readFile: vi.fn(),
   writeFile: vi.fn().mockResolvedValue(undefined),
   mkdir: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
 }));
 
 vi.mock("../logger.js", () => ({ log: vi.fn() }));
 
 vi.mock("./jsonl.js", () => ({
-  findLastToolUse: vi.fn(),
+  findPendingToolUse: vi.fn(),
+  extractCwd: vi.fn().mockReturnValue(null),
 }));
 
-import { watchPermissionRequests, respondToPermission } from "./permissions.js";
-import { readFile, writeFile, mkdir } from "fs/promises";
-import { findLastToolUse } from "./jsonl.js";
+// Serve the canned readFile content as if all of it had just been appended.
+vi.mock("./tailer.js", () => ({
+  JsonlTailer: class {
+    lines: string[] = [];
+    constructor(readonly filePath: string) {}
+    async read() {
+      const { readFile } = await import("fs/promises");
+      this.lines = String(await readFile(this.filePath, "utf8")).trim().split("\n").filter(Boolean);
+      return this.lines;
+    }
+  },
+}));
+
+import { watchPermissionRequests, respondToPermission, isPermissionPending } from "./permissions.js";
+import { access, readFile, writeFile, mkdir, unlink } from "fs/promises";
+import { extractCwd, findPendingToolUse } from "./jsonl.js";
 import { homedir } from "os";
 import { join } from "path";
 
@@ -44,24 +60,34 @@ beforeEach(() => {
   watcherEmitter.removeAllListeners();
 });
 
+describe("isPermissionPending", () => {
+  it("checks for the request file the hook removes once answered", async () => {
+    vi.mocked(access).mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error("ENOENT"));
+
+    expect(await isPermissionPending("req-1")).toBe(true);
+    expect(await isPermissionPending("req-1")).toBe(false);
+    expect(access).toHaveBeenCalledWith(join(CODEDOVE_DIR, "permission-request-req-1.json"));
+  });
+});
+
 describe("respondToPermission", () => {
-  it("creates the codedove directory and writes 'approve' to the correct path", async () => {
+  it("creates the codedove directory and writes the answer to the correct path", async () => {
     await respondToPermission("abc12345-6789", "approve");
 
     expect(mkdir).toHaveBeenCalledWith(CODEDOVE_DIR, { recursive: true });
     expect(writeFile).toHaveBeenCalledWith(
       join(CODEDOVE_DIR, "permission-response-abc12345-6789"),
-      "approve",
+      '{"action":"approve"}',
       "utf8"
     );
   });
 
-  it("writes 'deny' to the correct path", async () => {
-    await respondToPermission("def00000-1111", "deny");
+  it("writes a denial with its reason", async () => {
+    await respondToPermission("def00000-1111", "deny", { reason: "use pnpm" });
 
     expect(writeFile).toHaveBeenCalledWith(
       join(CODEDOVE_DIR, "permission-response-def00000-1111"),
-      "deny",
+      '{"action":"deny","reason":"use pnpm"}',
       "utf8"
     );
   });
@@ -102,6 +128,21 @@ describe("watchPermissionRequests", () => {
     });
   });
 
+  it("reports requests the hook expired, with the action it applied", async () => {
+    const onRequest = vi.fn();
+    const onExpired = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(readFile).mockResolvedValue("deny 300\n");
+
+    watchPermissionRequests(onRequest, onExpired);
+    const filePath = join(CODEDOVE_DIR, "permission-expired-req-42");
+    watcherEmitter.emit("add", filePath);
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(onExpired).toHaveBeenCalledWith({ requestId: "req-42", action: "deny", seconds: 300 });
+    expect(unlink).toHaveBeenCalledWith(filePath);
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+
   it("ignores files that do not start with 'permission-request-'", async () => {
     const onRequest = vi.fn().mockResolvedValue(undefined);
 
@@ -146,7 +187,8 @@ describe("watchPermissionRequests", () => {
       }
       return transcriptContent;
     });
-    vi.mocked(findLastToolUse).mockReturnValue("ls -la");
+    vi.mocked(findPendingToolUse).mockReturnValue({ command: "ls -la", input: { command: "ls -la" } });
+    vi.mocked(extractCwd).mockReturnValueOnce("/repos/shop");
 
     watchPermissionRequests(onRequest);
 
@@ -159,9 +201,9 @@ describe("watchPermissionRequests", () => {
       "/home/user/.claude/projects/test/session.jsonl",
       "utf8"
     );
-    expect(findLastToolUse).toHaveBeenCalled();
+    expect(findPendingToolUse).toHaveBeenCalled();
     expect(onRequest).toHaveBeenCalledWith(
-      expect.objectContaining({ toolCommand: "ls -la" })
+      expect.objectContaining({ toolCommand: "ls -la", input: { command: "ls -la" }, cwd: "/repos/shop", sessionId: "session" })
     );
   });
 
@@ -1,9 +1,10 @@
 import chokidar from "chokidar";
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { access, readFile, writeFile, mkdir, unlink } from "fs/promises";
 import { homedir } from "os";
-import { join } from "path";
+import { basename, join } from "path";
 import { log } from "../logger.js";
-import { findLastToolUse } from "./jsonl.js";
+import { extractCwd, findPendingToolUse } from "./jsonl.js";
+import { JsonlTailer } from "./tailer.js";
 
 const CODEDOVE_DIR = join(homedir(), ".codedove");
 
@@ -13,21 +14,56 @@ export type PermissionRequest = {
   toolInput: string;
   toolCommand?: string; // actual command extracted from JSONL (e.g. the bash command)
   filePath: string;
+  agent?: string; // display name of the asking agent; defaults to Claude
+  cwd?: string; // working directory of the asking session, when known
+  input?: Record<string, unknown>; // full tool input from the transcript, when found
+  sessionId?: string; // session of the asking agent, when known
 };
 
-// Read the JSONL transcript and extract the last tool_use input matching toolName.
-async function extractToolCommand(transcriptPath: string, toolName: string): Promise<string | undefined> {
+/** A request the hook stopped waiting on, and the action it applied (from config.json's permissionTimeout). */
+export type PermissionExpiry = {
+  requestId: string;
+  action: "approve" | "deny";
+  seconds: number;
+};
+
+// Transcripts are tailed across requests so each one only reads what was appended
+// since the last; the caps bound memory when many or long sessions ask for permission.
+const MAX_TRANSCRIPT_TAILERS = 20;
+const TAILER_WINDOW_LINES = 2000;
+const transcriptTailers = new Map<string, JsonlTailer>();
+
+type TranscriptToolUse = { command?: string; input?: Record<string, unknown>; cwd?: string };
+
+// Read the JSONL transcript and extract the pending tool_use matching toolName:
+// a short command for display, the full input and the session's cwd. When the
+// call can't be told apart, both are left out so no command rule can match it.
+async function readToolUse(transcriptPath: string, toolName: string): Promise<TranscriptToolUse> {
+  let tailer = transcriptTailers.get(transcriptPath);
+  if (!tailer) {
+    tailer = new JsonlTailer(transcriptPath, 0, TAILER_WINDOW_LINES);
+    transcriptTailers.set(transcriptPath, tailer);
+    if (transcriptTailers.size > MAX_TRANSCRIPT_TAILERS) {
+      transcriptTailers.delete(transcriptTailers.keys().next().value!);
+    }
+  }
   try {
-    const content = await readFile(transcriptPath, "utf8");
-    const lines = content.trim().split("\n").filter(Boolean);
-    return findLastToolUse(lines, toolName);
+    await tailer.read();
+    const pending = findPendingToolUse(tailer.lines, toolName);
+    return {
+      command: pending?.command,
+      input: pending?.input,
+      cwd: extractCwd(tailer.lines) ?? undefined,
+    };
   } catch {
-    return undefined;
+    transcriptTailers.delete(transcriptPath);
+    return {};
   }
 }
 
 export function watchPermissionRequests(
-  onRequest: (req: PermissionRequest) => Promise<void>
+  onRequest: (req: PermissionRequest) => Promise<void>,
+  onExpired?: (expiry: PermissionExpiry) => Promise<void>
 ): () => void {
   const watcher = chokidar.watch(CODEDOVE_DIR, {
     persistent: true,
@@ -38,20 +74,28 @@ export function watchPermissionRequests(
 
   watcher.on("add", (filePath: string) => {
     const filename = filePath.split("/").pop() ?? "";
+    if (filename.startsWith("permission-expired-")) {
+      if (onExpired) handleExpiry(filePath, filename.slice("permission-expired-".length), onExpired);
+      return;
+    }
     if (!filename.startsWith("permission-request-") || !filename.endsWith(".json")) return;
 
     readFile(filePath, "utf8")
       .then(async (raw) => {
         const data = JSON.parse(raw);
-        const toolCommand = data.transcriptPath
-          ? await extractToolCommand(data.transcriptPath, data.toolName)
-          : undefined;
+        const toolUse: TranscriptToolUse = data.transcriptPath
+          ? await readToolUse(data.transcriptPath, data.toolName)
+          : {};
+        const cwd = data.cwd || toolUse.cwd;
         const req: PermissionRequest = {
           requestId: data.requestId,
           toolName: data.toolName,
           toolInput: data.toolInput,
-          toolCommand,
+          toolCommand: toolUse.command,
           filePath,
+          ...(cwd ? { cwd } : {}),
+          ...(toolUse.input ? { input: toolUse.input } : {}),
+          ...(data.transcriptPath ? { sessionId: basename(data.transcriptPath, ".jsonl") } : {}),
         };
         log({ message: `permission request: ${req.toolName} (${req.requestId.slice(0, 8)})` });
         return onRequest(req);
@@ -68,9 +112,46 @@ export function watchPermissionRequests(
   return () => { watcher.close(); };
 }
 
-export async function respondToPermission(requestId: string, action: "approve" | "deny"): Promise<void> {
+// The hook writes "<action> <seconds>" when it gives up waiting for an answer.
+function handleExpiry(filePath: string, requestId: string, onExpired: (expiry: PermissionExpiry) => Promise<void>): void {
+  readFile(filePath, "utf8")
+    .then(async (raw) => {
+      await unlink(filePath).catch(() => {});
+      const [action, seconds] = raw.trim().split(/\s+/);
+      const expiry: PermissionExpiry = {
+        requestId,
+        action: action === "approve" ? "approve" : "deny",
+        seconds: Number(seconds) || 0,
+      };
+      log({ message: `permission request expired: ${expiry.action} (${requestId.slice(0, 8)})` });
+      return onExpired(expiry);
+    })
+    .catch((err) => {
+      log({ message: `permission watcher error: ${err instanceof Error ? err.message : String(err)}` });
+    });
+}
+
+/** Whether the hook still waits on a request; it removes the request file once answered or expired. */
+export async function isPermissionPending(requestId: string): Promise<boolean> {
+  return access(join(CODEDOVE_DIR, `permission-request-${requestId}.json`)).then(() => true, () => false);
+}
+
+/** Extra answer details the hook hands to Claude. */
+export type PermissionResponseDetails = {
+  /** Why the request was denied; the hook prints it for Claude to read. */
+  reason?: string;
+  /** Tool input to run in place of the requested one, e.g. an edited command. */
+  updatedInput?: Record<string, unknown>;
+};
+
+/** Answer a request through the hook, which polls for the response file. */
+export async function respondToPermission(
+  requestId: string,
+  action: "approve" | "deny",
+  details: PermissionResponseDetails = {}
+): Promise<void> {
   await mkdir(CODEDOVE_DIR, { recursive: true });
   const responsePath = join(CODEDOVE_DIR, `permission-response-${requestId}`);
-  await writeFile(responsePath, action, "utf8");
+  await writeFile(responsePath, JSON.stringify({ action, ...details }), "utf8");
   log({ message: `permission response: ${action} (${requestId.slice(0, 8)})` });
 }
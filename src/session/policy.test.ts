@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { homedir } from "os";
+import { evaluatePolicy, globToRegExp, ruleMatches, describeRule, literalCommandPattern, type PermissionPolicyConfig } from "./policy.js";
+import type { PermissionRequest } from "./permissions.js";
+
+function request(toolName: string, input: Record<string, unknown> = {}, cwd = "/repos/shop"): PermissionRequest {
+  return {
+    requestId: "req-1",
+    toolName,
+    toolInput: `Claude needs your permission to use ${toolName}`,
+    toolCommand: typeof input.command === "string" ? input.command.slice(0, 300) : undefined,
+    filePath: "/tmp/permission-request-req-1.json",
+    cwd,
+    input,
+  };
+}
+
+const bash = (command: string, cwd?: string) => request("Bash", { command }, cwd);
+
+describe("globToRegExp", () => {
+  it("keeps * and ? within a directory and lets ** cross them", () => {
+    expect(globToRegExp("/a/*.ts").test("/a/b.ts")).toBe(true);
+    expect(globToRegExp("/a/*.ts").test("/a/b/c.ts")).toBe(false);
+    expect(globToRegExp("/a/**/*.ts").test("/a/c.ts")).toBe(true);
+    expect(globToRegExp("/a/**/*.ts").test("/a/b/c/d.ts")).toBe(true);
+    expect(globToRegExp("/a/v?.md").test("/a/v1.md")).toBe(true);
+    expect(globToRegExp("/a/(x).md").test("/a/(x).md")).toBe(true);
+  });
+});
+
+describe("ruleMatches", () => {
+  it("matches tool names with a trailing * as a prefix", () => {
+    expect(ruleMatches({ action: "approve", tool: "mcp__github__*" }, request("mcp__github__get_issue"))).toBe(true);
+    expect(ruleMatches({ action: "approve", tool: ["Read", "Grep"] }, request("Write"))).toBe(false);
+  });
+
+  it("matches whole Bash commands against globs and /regex/", () => {
+    const rule = { action: "approve" as const, tool: "Bash", command: ["npm test", "npm run *", "/^git (status|diff)\\b/"] };
+    expect(ruleMatches(rule, bash("npm test"))).toBe(true);
+    expect(ruleMatches(rule, bash("npm run lint -- --fix"))).toBe(true);
+    expect(ruleMatches(rule, bash("git diff HEAD~1"))).toBe(true);
+    expect(ruleMatches(rule, bash("npm test2"))).toBe(false);
+    expect(ruleMatches(rule, request("Write", { file_path: "/repos/shop/a" }))).toBe(false);
+  });
+
+  it("never approves chained or redirected commands", () => {
+    const rule = { action: "approve" as const, command: "npm run *" };
+    for (const command of ["npm run a && rm -rf ~", "npm run a; curl x", "npm run a | sh", "npm run $(evil)", "npm run a > ~/.bashrc", "npm run a & rm -rf ~", "npm run a\rrm -rf ~"]) {
+      expect(ruleMatches(rule, bash(command))).toBe(false);
+    }
+  });
+
+  it("approves a chained command only when an exact pattern names all of it", () => {
+    const rule = { action: "approve" as const, command: [literalCommandPattern("cd web && npm test -- 'src/*'"), "ls *"] };
+    expect(ruleMatches(rule, bash("cd web && npm test -- 'src/*'"))).toBe(true);
+    expect(ruleMatches(rule, bash("cd web && npm test -- 'src/a'"))).toBe(false);
+    expect(ruleMatches(rule, bash("ls a; rm b"))).toBe(false);
+  });
+
+  it("denies when any part of a chained command matches", () => {
+    const rule = { action: "deny" as const, command: "rm -rf *" };
+    expect(ruleMatches(rule, bash("cd /tmp && rm -rf build"))).toBe(true);
+    expect(ruleMatches(rule, bash("sleep 1 & rm -rf build"))).toBe(true);
+    expect(ruleMatches(rule, bash("ls"))).toBe(false);
+  });
+
+  it("doesn't let a backgrounded command ride on an approved one", () => {
+    expect(ruleMatches({ action: "approve", command: "npm test*" }, bash("npm test & rm -rf ~"))).toBe(false);
+  });
+
+  it("uses the untruncated command from the transcript", () => {
+    const long = "echo " + "x".repeat(400) + " && rm -rf ~";
+    expect(ruleMatches({ action: "approve", command: "echo *" }, bash(long))).toBe(false);
+  });
+
+  it("resolves file paths against the cwd before matching globs", () => {
+    const rule = { action: "approve" as const, tool: ["Edit", "Write"], path: "src/**" };
+    expect(ruleMatches(rule, request("Edit", { file_path: "/repos/shop/src/app/main.ts" }))).toBe(true);
+    expect(ruleMatches(rule, request("Edit", { file_path: "src/main.ts" }))).toBe(true);
+    expect(ruleMatches(rule, request("Edit", { file_path: "/repos/shop/src/../.env" }))).toBe(false);
+    expect(ruleMatches(rule, request("Edit", {}))).toBe(false);
+    expect(ruleMatches({ action: "deny", path: "~/.ssh/**" }, request("Read", { file_path: `${homedir()}/.ssh/id_rsa` }))).toBe(true);
+  });
+
+  it("matches the session cwd", () => {
+    const rule = { action: "approve" as const, cwd: "/repos/*" };
+    expect(ruleMatches(rule, request("Read", {}, "/repos/shop"))).toBe(true);
+    expect(ruleMatches(rule, request("Read", {}, "/work/shop"))).toBe(false);
+  });
+});
+
+describe("evaluatePolicy", () => {
+  const policy: PermissionPolicyConfig = {
+    rules: [
+      { action: "deny", tool: "Bash", command: "git push *" },
+      { action: "approve", tool: "Bash", command: "npm test" },
+    ],
+    projects: {
+      "/repos/prod-*": [{ action: "ask", tool: "Bash" }],
+    },
+  };
+
+  it("returns the first matching rule, project rules first", () => {
+    expect(evaluatePolicy(policy, bash("npm test"))?.action).toBe("approve");
+    expect(evaluatePolicy(policy, bash("git push origin main"))?.action).toBe("deny");
+    expect(evaluatePolicy(policy, bash("npm test", "/repos/prod-api"))?.action).toBe("ask");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(evaluatePolicy(policy, bash("make"))).toBeNull();
+    expect(evaluatePolicy({}, bash("npm test"))).toBeNull();
+  });
+});
+
+describe("describeRule", () => {
+  it("prefers the reason and otherwise lists the conditions", () => {
+    expect(describeRule({ action: "approve", reason: "tests are safe" })).toBe("tests are safe");
+    expect(describeRule({ action: "approve", tool: "Bash", command: "npm test" })).toBe("Bash `npm test`");
+    expect(describeRule({ action: "deny" })).toBe("catch-all rule");
+  });
+});
@@ -0,0 +1,182 @@
+import { homedir } from "os";
+import { isAbsolute, resolve } from "path";
+import type { PermissionRequest } from "./permissions.js";
+
+// ---------------------------------------------------------------------------
+// Permission policy: rules that answer permission requests without asking
+// ---------------------------------------------------------------------------
+
+export type PolicyAction = "approve" | "deny" | "ask";
+
+export type PolicyRule = {
+  action: PolicyAction;
+  /** Tool name(s); a trailing * matches a prefix, e.g. "mcp__github__*". */
+  tool?: string | string[];
+  /**
+   * Pattern(s) for the whole Bash command: `*` matches anything (`\\*` is a
+   * literal star), or `/regex/`. Approve patterns with wildcards never match
+   * commands chained with ;, &&, ||, | or using $(…), backticks or redirects;
+   * deny and ask rules match any part of them.
+   */
+  command?: string | string[];
+  /** Glob(s) for the file a tool reads or writes; relative globs are against the session cwd. */
+  path?: string | string[];
+  /** Glob(s) for the session's working directory. */
+  cwd?: string | string[];
+  /** Shown in the notification and the log. */
+  reason?: string;
+};
+
+export type PermissionPolicyConfig = {
+  rules?: PolicyRule[];
+  /** Rules for sessions whose cwd matches the key (a glob); checked before `rules`. */
+  projects?: Record<string, PolicyRule[]>;
+};
+
+export type PolicyDecision = { action: PolicyAction; rule: PolicyRule };
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+function expandHome(pattern: string): string {
+  return pattern === "~" || pattern.startsWith("~/") ? homedir() + pattern.slice(1) : pattern;
+}
+
+/** Glob to RegExp: `**` crosses directories, `*` and `?` stay within one. */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directories at all
+      if (glob[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i++;
+      }
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function matchesPath(globs: string[], path: string, cwd: string | undefined): boolean {
+  return globs.some((glob) => {
+    const expanded = expandHome(glob);
+    if (!isAbsolute(expanded) && !cwd) return false;
+    const absolute = isAbsolute(expanded) ? expanded : `${cwd!.replace(/\/$/, "")}/${expanded}`;
+    return globToRegExp(absolute).test(path);
+  });
+}
+
+function matchesTool(names: string[], tool: string): boolean {
+  return names.some((n) => (n.endsWith("*") ? tool.startsWith(n.slice(0, -1)) : tool === n));
+}
+
+// Anything that runs a second command or writes somewhere the pattern didn't name
+const COMPOUND_RE = /;|&|\||`|\$\(|>|<|\n|\r/;
+
+const REGEX_PATTERN_RE = /^\/(.+)\/([a-z]*)$/;
+
+// Whether a pattern can match more than one command; exact ones are safe to approve even when chained
+function hasWildcard(pattern: string): boolean {
+  return REGEX_PATTERN_RE.test(pattern) || /(^|[^\\])\*/.test(pattern);
+}
+
+function commandPatternMatches(pattern: string, command: string): boolean {
+  const regex = REGEX_PATTERN_RE.exec(pattern);
+  if (regex) return new RegExp(regex[1], regex[2]).test(command);
+  let re = "";
+  const glob = pattern.trim();
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === "\\" && i + 1 < glob.length) re += glob[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    else if (glob[i] === "*") re += ".*";
+    else re += glob[i].replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`, "s").test(command.trim());
+}
+
+/** A command pattern matching exactly this command. */
+export function literalCommandPattern(command: string): string {
+  return command.trim().replace(/[\\*]/g, "\\$&");
+}
+
+function matchesCommand(patterns: string[], command: string, action: PolicyAction): boolean {
+  if (action === "approve") {
+    const compound = COMPOUND_RE.test(command);
+    return patterns.some((p) => !(compound && hasWildcard(p)) && commandPatternMatches(p, command));
+  }
+  const parts = [command, ...command.split(/;|&&|\|\||\||&|\n|\r/)];
+  return parts.some((part) => patterns.some((p) => commandPatternMatches(p, part)));
+}
+
+/** The file a tool call reads or writes, resolved against the session cwd. */
+function targetPath(req: PermissionRequest): string | undefined {
+  const value = req.input?.file_path ?? req.input?.notebook_path ?? req.input?.path;
+  if (typeof value !== "string" || !value) return undefined;
+  if (isAbsolute(value)) return resolve(value);
+  return req.cwd ? resolve(req.cwd, value) : undefined;
+}
+
+/** Full Bash command: the transcript's untruncated input, else what the request carried. */
+export function fullCommand(req: PermissionRequest): string | undefined {
+  const value = req.input?.command;
+  return typeof value === "string" ? value : req.toolCommand;
+}
+
+/** Whether every condition of a rule holds for the request. */
+export function ruleMatches(rule: PolicyRule, req: PermissionRequest): boolean {
+  const tools = toList(rule.tool);
+  if (tools && !matchesTool(tools, req.toolName)) return false;
+
+  const cwds = toList(rule.cwd);
+  if (cwds && !(req.cwd && matchesPath(cwds, req.cwd.replace(/\/$/, ""), undefined))) return false;
+
+  const commands = toList(rule.command);
+  if (commands) {
+    const command = fullCommand(req);
+    if (!command || !matchesCommand(commands, command, rule.action)) return false;
+  }
+
+  const paths = toList(rule.path);
+  if (paths) {
+    const path = targetPath(req);
+    if (!path || !matchesPath(paths, path, req.cwd)) return false;
+  }
+  return true;
+}
+
+/**
+ * The first rule matching a permission request — project rules before global
+ * ones — or null when none does and the request should go to Telegram.
+ */
+export function evaluatePolicy(policy: PermissionPolicyConfig, req: PermissionRequest): PolicyDecision | null {
+  const projectRules = Object.entries(policy.projects ?? {})
+    .filter(([glob]) => req.cwd && matchesPath([glob], req.cwd.replace(/\/$/, ""), undefined))
+    .flatMap(([, rules]) => rules);
+  for (const rule of [...projectRules, ...(policy.rules ?? [])]) {
+    if (ruleMatches(rule, req)) return { action: rule.action, rule };
+  }
+  return null;
+}
+
+/** One-line description of a rule for notifications, e.g. "Bash `npm test`". */
+export function describeRule(rule: PolicyRule): string {
+  if (rule.reason) return rule.reason;
+  const parts = [
+    toList(rule.tool)?.join("/"),
+    toList(rule.command)?.map((c) => `\`${c}\``).join(", "),
+    toList(rule.path)?.map((p) => `\`${p}\``).join(", "),
+    toList(rule.cwd)?.map((c) => `in \`${c}\``).join(", "),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : "catch-all rule";
+}
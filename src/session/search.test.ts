@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm, utimes } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  parseSearchQuery,
+  searchTranscripts,
+  loadHitContext,
+  makeSnippet,
+  extractClaudeEntries,
+  extractCodexEntries,
+  DEFAULT_SEARCH_SOURCES,
+  type SearchSource,
+} from "./search.js";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+function claudeLine(type: "user" | "assistant", content: unknown, timestamp: string, cwd = "/repos/shop"): string {
+  return JSON.stringify({ type, cwd, timestamp, message: { content } });
+}
+
+function codexLine(type: string, payload: Record<string, unknown>, timestamp: string): string {
+  return JSON.stringify({ type, timestamp, payload });
+}
+
+describe("parseSearchQuery", () => {
+  it("splits terms and filters", () => {
+    const q = parseSearchQuery("Migration project:shop since:7d", NOW);
+    expect(q.terms).toEqual(["migration"]);
+    expect(q.project).toBe("shop");
+    expect(q.since).toEqual(new Date("2026-03-03T12:00:00Z"));
+  });
+
+  it("keeps quoted phrases together", () => {
+    expect(parseSearchQuery('"fix the migration" users', NOW).terms).toEqual(["fix the migration", "users"]);
+    expect(parseSearchQuery('project:"my app" bug', NOW).project).toBe("my app");
+  });
+
+  it("accepts hours, weeks and dates for since", () => {
+    expect(parseSearchQuery("x since:12h", NOW).since).toEqual(new Date("2026-03-10T00:00:00Z"));
+    expect(parseSearchQuery("x since:2w", NOW).since).toEqual(new Date("2026-02-24T12:00:00Z"));
+    expect(parseSearchQuery("x since:2026-01-31", NOW).since).toEqual(new Date("2026-01-31"));
+  });
+
+  it("throws on an unreadable since", () => {
+    expect(() => parseSearchQuery("x since:lastweek", NOW)).toThrow(/since:lastweek/);
+  });
+});
+
+describe("extractClaudeEntries", () => {
+  it("collects user prompts, assistant text and tool inputs", () => {
+    const entries = extractClaudeEntries([
+      claudeLine("user", "please fix the migration", "2026-03-09T10:00:00Z"),
+      claudeLine("assistant", [
+        { type: "text", text: "Looking at it" },
+        { type: "tool_use", name: "Bash", input: { command: "npm run migrate" } },
+      ], "2026-03-09T10:00:05Z"),
+      claudeLine("user", [{ type: "tool_result", content: "ok" }], "2026-03-09T10:00:06Z"),
+      "not json",
+    ]);
+    expect(entries.map((e) => [e.kind, e.text, e.line])).toEqual([
+      ["user", "please fix the migration", 0],
+      ["assistant", "Looking at it", 1],
+      ["tool", "Bash npm run migrate", 1],
+    ]);
+    expect(entries[0].cwd).toBe("/repos/shop");
+    expect(entries[0].timestamp).toEqual(new Date("2026-03-09T10:00:00Z"));
+  });
+});
+
+describe("extractCodexEntries", () => {
+  it("collects messages and commands and reports the cwd", () => {
+    const entries = extractCodexEntries([
+      codexLine("session_meta", { cwd: "/repos/api" }, "2026-03-09T09:00:00Z"),
+      codexLine("event_msg", { type: "user_message", message: "add an index" }, "2026-03-09T09:00:01Z"),
+      codexLine("event_msg", { type: "exec_command_begin", command: ["/bin/zsh", "-lc", "rg users"] }, "2026-03-09T09:00:02Z"),
+      codexLine("event_msg", { type: "agent_message", message: "Added the index." }, "2026-03-09T09:00:03Z"),
+    ]);
+    expect(entries[0].cwd).toBe("/repos/api");
+    expect(entries.slice(1).map((e) => [e.kind, e.text])).toEqual([
+      ["user", "add an index"],
+      ["tool", "Bash rg users"],
+      ["assistant", "Added the index."],
+    ]);
+  });
+});
+
+describe("makeSnippet", () => {
+  it("centres on the term and marks cut ends", () => {
+    const text = `${"a".repeat(100)} the migration\nfailed ${"b".repeat(100)}`;
+    const snippet = makeSnippet(text, "migration");
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("the migration failed");
+  });
+
+  it("returns short text unchanged", () => {
+    expect(makeSnippet("fixed the migration", "migration")).toBe("fixed the migration");
+  });
+});
+
+describe("searchTranscripts", () => {
+  let dir: string;
+  let sources: SearchSource[];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "search-"));
+    const claudeRoot = join(dir, "claude");
+    const codexRoot = join(dir, "codex");
+    sources = [
+      { ...DEFAULT_SEARCH_SOURCES[0], root: claudeRoot },
+      { ...DEFAULT_SEARCH_SOURCES[1], root: codexRoot },
+    ];
+
+    await mkdir(join(claudeRoot, "-repos-shop"), { recursive: true });
+    await writeFile(join(claudeRoot, "-repos-shop", "s-shop.jsonl"), [
+      claudeLine("user", "the users migration is broken", "2026-03-01T10:00:00Z"),
+      claudeLine("assistant", [{ type: "text", text: "Fixed the users migration by adding a default." }], "2026-03-01T10:05:00Z"),
+    ].join("\n") + "\n");
+    await utimes(join(claudeRoot, "-repos-shop", "s-shop.jsonl"), NOW, new Date("2026-03-01T10:05:00Z"));
+
+    await mkdir(join(claudeRoot, "-repos-blog"), { recursive: true });
+    await writeFile(join(claudeRoot, "-repos-blog", "s-blog.jsonl"), [
+      claudeLine("assistant", [{ type: "text", text: "Wrote the posts migration." }], "2026-03-09T08:00:00Z", "/repos/blog"),
+    ].join("\n") + "\n");
+
+    await mkdir(join(codexRoot, "2026", "03", "08"), { recursive: true });
+    await writeFile(join(codexRoot, "2026", "03", "08", "rollout-2026-03-08T09-00-00-abc123.jsonl"), [
+      codexLine("session_meta", { cwd: "/repos/api" }, "2026-03-08T09:00:00Z"),
+      codexLine("event_msg", { type: "agent_message", message: "Ran the migration for accounts." }, "2026-03-08T09:00:03Z"),
+    ].join("\n") + "\n");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("finds matches across Claude and Codex transcripts, newest first", async () => {
+    const hits = await searchTranscripts(parseSearchQuery("migration", NOW), 10, sources);
+    expect(hits.map((h) => [h.projectName, h.cliName, h.sessionId])).toEqual([
+      ["blog", "claude", "s-blog"],
+      ["api", "codex", "abc123"],
+      ["shop", "claude", "s-shop"],
+    ]);
+    const shop = hits[2];
+    expect(shop.matches).toBe(2);
+    expect(shop.kind).toBe("assistant");
+    expect(shop.cwd).toBe("/repos/shop");
+    expect(shop.snippet).toContain("Fixed the users migration");
+  });
+
+  it("requires every term", async () => {
+    const hits = await searchTranscripts(parseSearchQuery("users migration", NOW), 10, sources);
+    expect(hits.map((h) => h.projectName)).toEqual(["shop"]);
+  });
+
+  it("filters by project and since", async () => {
+    expect((await searchTranscripts(parseSearchQuery("migration project:API", NOW), 10, sources))
+      .map((h) => h.projectName)).toEqual(["api"]);
+    expect((await searchTranscripts(parseSearchQuery("migration since:3d", NOW), 10, sources))
+      .map((h) => h.projectName)).toEqual(["blog", "api"]);
+  });
+
+  it("respects the limit and returns nothing without terms", async () => {
+    expect(await searchTranscripts(parseSearchQuery("migration", NOW), 1, sources)).toHaveLength(1);
+    expect(await searchTranscripts(parseSearchQuery("project:shop", NOW), 10, sources)).toEqual([]);
+  });
+
+  it("loads the entries around a hit", async () => {
+    const [shop] = await searchTranscripts(parseSearchQuery("default", NOW), 10, sources);
+    const context = await loadHitContext(shop, 2, sources);
+    expect(context.map((e) => e.kind)).toEqual(["user", "assistant"]);
+  });
+});
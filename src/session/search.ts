@@ -0,0 +1,228 @@
+import { basename } from "path";
+import { PROJECTS_PATH, listTranscriptFiles, readSessionLines } from "./history.js";
+import { CodexAdapter, codexSessionId, pickCommandString } from "./adapters/codex.js";
+import { asRecord, claudeContentBlocks, parseTimestamp } from "./jsonl.js";
+
+const SNIPPET_RADIUS = 60;
+const DEFAULT_LIMIT = 10;
+
+export type SearchQuery = {
+  /** Lower-cased terms; every one must appear in a matching entry. */
+  terms: string[];
+  /** Case-insensitive substring of the project name or cwd. */
+  project?: string;
+  since?: Date;
+};
+
+export type SearchEntryKind = "assistant" | "user" | "tool";
+
+/** One searchable piece of a transcript: a message or a tool call's input. */
+export type SearchEntry = {
+  kind: SearchEntryKind;
+  text: string;
+  /** Index of the JSONL line the entry came from. */
+  line: number;
+  timestamp?: Date;
+  cwd?: string;
+};
+
+export type SearchHit = {
+  sessionId: string;
+  filePath: string;
+  cliName: string;
+  cwd: string;
+  projectName: string;
+  kind: SearchEntryKind;
+  snippet: string;
+  line: number;
+  timestamp: Date;
+  /** How many entries in the session matched — the hit itself is the latest. */
+  matches: number;
+};
+
+export type SearchSource = {
+  cliName: string;
+  root: string;
+  /** Deepest directory level below the root that holds transcripts. */
+  depth: number;
+  extract: (lines: string[]) => SearchEntry[];
+  sessionId: (file: string) => string;
+};
+
+export const DEFAULT_SEARCH_SOURCES: SearchSource[] = [
+  {
+    cliName: "claude",
+    root: PROJECTS_PATH,
+    depth: 1,
+    extract: extractClaudeEntries,
+    sessionId: (file) => file.replace(/\.jsonl$/, ""),
+  },
+  {
+    cliName: "codex",
+    root: new CodexAdapter().projectsPath,
+    depth: 3,
+    extract: extractCodexEntries,
+    sessionId: codexSessionId,
+  },
+];
+
+/**
+ * Parse the text after /search. `project:<name>` and `since:<when>` are filters;
+ * everything else is search terms, with "double quotes" keeping a phrase together.
+ * `since` takes a relative age (30m, 12h, 7d, 2w) or a date (2026-01-31).
+ * Throws when a `since:` value can't be parsed.
+ */
+export function parseSearchQuery(input: string, now = new Date()): SearchQuery {
+  const query: SearchQuery = { terms: [] };
+  for (const m of input.matchAll(/(\w+:)?"([^"]*)"|(\S+)/g)) {
+    const token = m[3] ?? `${m[1] ?? ""}${m[2]}`;
+    const filter = token.match(/^(project|since):(.+)$/i);
+    if (filter) {
+      if (filter[1].toLowerCase() === "project") query.project = filter[2];
+      else query.since = parseSince(filter[2], now);
+      continue;
+    }
+    if (token.trim()) query.terms.push(token.toLowerCase());
+  }
+  return query;
+}
+
+/** A relative age (30m, 12h, 7d, 2w) or a date (2026-01-31), as the time it refers to. */
+export function parseSince(value: string, now = new Date()): Date {
+  const rel = value.match(/^(\d+)([mhdw])$/i);
+  if (rel) {
+    const unit = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 7 * 86_400_000 }[rel[2].toLowerCase() as "m" | "h" | "d" | "w"];
+    return new Date(now.getTime() - Number(rel[1]) * unit);
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  throw new Error(`Can't read since:${value} — use e.g. since:7d, since:12h or since:2026-01-31`);
+}
+
+/**
+ * Search Claude and Codex transcripts for entries containing every query term.
+ * Returns the latest matching entry per session, newest first.
+ */
+export async function searchTranscripts(
+  query: SearchQuery,
+  limit = DEFAULT_LIMIT,
+  sources: SearchSource[] = DEFAULT_SEARCH_SOURCES
+): Promise<SearchHit[]> {
+  if (query.terms.length === 0) return [];
+  const project = query.project?.toLowerCase();
+  const hits: SearchHit[] = [];
+
+  for (const source of sources) {
+    for (const { filePath, mtime } of await listTranscriptFiles(source.root, source.depth)) {
+      // A transcript last written before the cutoff can't contain newer entries.
+      if (query.since && mtime < query.since) continue;
+      const lines = await readSessionLines(filePath).catch(() => [] as string[]);
+
+      let cwd = "";
+      let latest: SearchEntry | null = null;
+      let matches = 0;
+      for (const entry of source.extract(lines)) {
+        if (entry.cwd) cwd = entry.cwd;
+        const timestamp = entry.timestamp ?? mtime;
+        if (query.since && timestamp < query.since) continue;
+        const text = entry.text.toLowerCase();
+        if (!query.terms.every((t) => text.includes(t))) continue;
+        matches++;
+        latest = { ...entry, timestamp };
+      }
+      if (!latest) continue;
+
+      const projectName = cwd ? basename(cwd) : basename(filePath);
+      if (project && !projectName.toLowerCase().includes(project) && !cwd.toLowerCase().includes(project)) continue;
+
+      hits.push({
+        sessionId: source.sessionId(basename(filePath)),
+        filePath,
+        cliName: source.cliName,
+        cwd,
+        projectName,
+        kind: latest.kind,
+        snippet: makeSnippet(latest.text, query.terms[0]),
+        line: latest.line,
+        timestamp: latest.timestamp!,
+        matches,
+      });
+    }
+  }
+
+  hits.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  return hits.slice(0, limit);
+}
+
+/** The non-empty entries around a hit, for showing it in context. */
+export async function loadHitContext(
+  hit: SearchHit,
+  radius = 2,
+  sources: SearchSource[] = DEFAULT_SEARCH_SOURCES
+): Promise<SearchEntry[]> {
+  const source = sources.find((s) => s.cliName === hit.cliName);
+  if (!source) return [];
+  const entries = source.extract(await readSessionLines(hit.filePath)).filter((e) => e.text.trim());
+  const at = entries.findIndex((e) => e.line >= hit.line);
+  if (at === -1) return [];
+  return entries.slice(Math.max(0, at - radius), at + radius + 1);
+}
+
+/** The text around the first occurrence of `term`, on one line. */
+export function makeSnippet(text: string, term: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const at = Math.max(0, flat.toLowerCase().indexOf(term));
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, at + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+// Tool inputs are searched by their string values, e.g. a Bash command or an edit's
+// file path and new text.
+function describeToolInput(name: string, input: Record<string, unknown> | undefined): string {
+  const values = Object.values(input ?? {}).filter((v): v is string => typeof v === "string");
+  return [name, ...values].join(" ");
+}
+
+export function extractClaudeEntries(lines: string[]): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+  for (const { role, line, timestamp, cwd, block } of claudeContentBlocks(lines)) {
+    const base = { line, timestamp, cwd };
+    if (block.type === "text" && typeof block.text === "string") {
+      entries.push({ ...base, kind: role, text: block.text });
+    } else if (block.type === "tool_use" && typeof block.name === "string") {
+      entries.push({ ...base, kind: "tool", text: describeToolInput(block.name, asRecord(block.input)) });
+    }
+  }
+  return entries;
+}
+
+export function extractCodexEntries(lines: string[]): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+  lines.forEach((line, i) => {
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return;
+    }
+    const p = entry.payload;
+    const base = { line: i, timestamp: parseTimestamp(entry.timestamp) };
+    if ((entry.type === "session_meta" || entry.type === "turn_context") && typeof p?.cwd === "string") {
+      // Carries no text; an empty entry still hands the cwd to the caller.
+      entries.push({ ...base, kind: "assistant", text: "", cwd: p.cwd });
+      return;
+    }
+    if (entry.type !== "event_msg" || typeof p?.type !== "string") return;
+    if (p.type === "user_message" && typeof p.message === "string") {
+      entries.push({ ...base, kind: "user", text: p.message });
+    } else if (p.type === "agent_message" && typeof p.message === "string") {
+      entries.push({ ...base, kind: "assistant", text: p.message });
+    } else if (p.type === "exec_command_begin") {
+      entries.push({ ...base, kind: "tool", text: `Bash ${pickCommandString(p.command)}` });
+    }
+  });
+  return entries;
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, writeFile, readFile, rm, utimes } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { SessionIndex } from "./session-index.js";
+import { refreshSessionIndex } from "./history.js";
+
+function assistantJsonl(text: string, cwd: string): string {
+  return JSON.stringify({
+    type: "assistant",
+    cwd,
+    message: { content: [{ type: "text", text }] },
+  }) + "\n";
+}
+
+describe("SessionIndex", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists the newest session per project, newest first", async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    const index = new SessionIndex(join(dir, "index.json"));
+    index.update({ sessionId: "a1", cwd: "/p/alpha", projectName: "alpha", lastMessage: "old", mtime: 1 });
+    index.update({ sessionId: "a2", cwd: "/p/alpha", projectName: "alpha", lastMessage: "new", mtime: 3 });
+    index.update({ sessionId: "b1", cwd: "/p/beta", projectName: "beta", lastMessage: "beta", mtime: 2 });
+
+    const sessions = index.list();
+    expect(sessions.map((s) => s.sessionId)).toEqual(["a2", "b1"]);
+    expect(sessions[0].mtime).toEqual(new Date(3));
+    expect(index.list(1)).toHaveLength(1);
+    index.flushSync();
+  });
+
+  it("keeps indexed fields that an update leaves undefined", async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    const index = new SessionIndex(join(dir, "index.json"));
+    index.update({ sessionId: "s", cwd: "/p/alpha", projectName: "alpha", lastMessage: "hello", model: "m1", mtime: 1 });
+    index.update({ sessionId: "s", lastMessage: undefined, cwd: undefined, mtime: 2 });
+
+    expect(index.get("s")).toMatchObject({ cwd: "/p/alpha", lastMessage: "hello", model: "m1", mtime: 2 });
+    index.flushSync();
+  });
+
+  it("filters by CLI", async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    const index = new SessionIndex(join(dir, "index.json"));
+    index.update({ sessionId: "c", cwd: "/p/alpha", cliName: "claude", mtime: 1 });
+    index.update({ sessionId: "x", cwd: "/p/beta", cliName: "codex", mtime: 2 });
+
+    expect(index.list(20, "claude").map((s) => s.sessionId)).toEqual(["c"]);
+    index.flushSync();
+  });
+
+  it("persists to disk after a debounce and loads it back", async () => {
+    vi.useFakeTimers();
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    const path = join(dir, "nested", "index.json");
+    const index = new SessionIndex(path);
+    index.update({ sessionId: "s", cwd: "/p/alpha", projectName: "alpha", lastMessage: "hi", mtime: 5 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    vi.useRealTimers();
+    await vi.waitFor(async () => {
+      const data = JSON.parse(await readFile(path, "utf8"));
+      expect(data.sessions).toEqual([expect.objectContaining({ sessionId: "s", lastMessage: "hi" })]);
+    });
+
+    const reloaded = new SessionIndex(path);
+    await reloaded.load();
+    expect(reloaded.get("s")?.projectName).toBe("alpha");
+  });
+
+  it("load tolerates a missing file", async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    const index = new SessionIndex(join(dir, "missing.json"));
+    await index.load();
+    expect(index.list()).toEqual([]);
+  });
+});
+
+describe("refreshSessionIndex", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("indexes the newest transcript of each project and marks the index ready", async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    const projects = join(dir, "projects");
+    await mkdir(join(projects, "-Users-luca-alpha"), { recursive: true });
+    await writeFile(join(projects, "-Users-luca-alpha", "s1.jsonl"), assistantJsonl("Hello from A", "/Users/luca/alpha"));
+
+    const index = new SessionIndex(join(dir, "index.json"));
+    await refreshSessionIndex(index, projects);
+
+    expect(index.ready).toBe(true);
+    expect(index.get("s1")).toMatchObject({
+      cwd: "/Users/luca/alpha",
+      projectName: "alpha",
+      lastMessage: "Hello from A",
+      cliName: "claude",
+    });
+    index.flushSync();
+  });
+
+  it("only re-reads transcripts whose mtime changed", async () => {
+    dir = await mkdtemp(join(tmpdir(), "session-index-"));
+    const projects = join(dir, "projects");
+    const file = join(projects, "-Users-luca-alpha", "s1.jsonl");
+    await mkdir(join(projects, "-Users-luca-alpha"), { recursive: true });
+    await writeFile(file, assistantJsonl("first", "/Users/luca/alpha"));
+    await utimes(file, new Date(1_000_000), new Date(1_000_000));
+
+    const index = new SessionIndex(join(dir, "index.json"));
+    await refreshSessionIndex(index, projects);
+    // Same mtime, different content: the indexed entry is trusted.
+    await writeFile(file, assistantJsonl("second", "/Users/luca/alpha"));
+    await utimes(file, new Date(1_000_000), new Date(1_000_000));
+    await refreshSessionIndex(index, projects);
+    expect(index.get("s1")?.lastMessage).toBe("first");
+
+    await utimes(file, new Date(2_000_000), new Date(2_000_000));
+    await refreshSessionIndex(index, projects);
+    expect(index.get("s1")?.lastMessage).toBe("second");
+    index.flushSync();
+  });
+});
@@ -0,0 +1,120 @@
+import { readFile, writeFile, rename, mkdir } from "fs/promises";
+import { writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import type { SessionInfo } from "./history.js";
+import { log } from "../logger.js";
+
+export const SESSION_INDEX_PATH = join(homedir(), ".codedove", "session-index.json");
+
+const SAVE_DELAY = 1000;
+const MAX_ENTRIES = 500;
+
+export type SessionIndexEntry = {
+  sessionId: string;
+  cwd: string;
+  projectName: string;
+  lastMessage: string;
+  model?: string;
+  cliName?: string;
+  mtime: number;
+};
+
+type IndexFile = { version: 1; sessions: SessionIndexEntry[] };
+
+/**
+ * On-disk index of known sessions, so session lists don't have to scan and parse
+ * every transcript. The monitor's watcher keeps it current while the bot runs and
+ * refreshSessionIndex catches up on whatever changed while it was stopped.
+ */
+export class SessionIndex {
+  private entries = new Map<string, SessionIndexEntry>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Set once refreshSessionIndex has caught up; until then listSessions scans. */
+  ready = false;
+
+  constructor(private readonly path = SESSION_INDEX_PATH) {}
+
+  async load(): Promise<void> {
+    try {
+      const data: IndexFile = JSON.parse(await readFile(this.path, "utf8"));
+      for (const entry of data.sessions ?? []) this.entries.set(entry.sessionId, entry);
+    } catch {
+      // No index yet (or unreadable) — it is rebuilt by refreshSessionIndex.
+    }
+  }
+
+  get(sessionId: string): SessionIndexEntry | undefined {
+    return this.entries.get(sessionId);
+  }
+
+  /** Insert or update a session. Fields left undefined keep their indexed value. */
+  update(entry: Partial<SessionIndexEntry> & { sessionId: string }): void {
+    const prev = this.entries.get(entry.sessionId);
+    const defined = Object.fromEntries(Object.entries(entry).filter(([, v]) => v !== undefined));
+    this.entries.set(entry.sessionId, {
+      cwd: "",
+      projectName: "",
+      lastMessage: "",
+      mtime: Date.now(),
+      ...prev,
+      ...defined,
+    } as SessionIndexEntry);
+    this.scheduleSave();
+  }
+
+  /** The most recently active session per project, newest first, optionally for one CLI. */
+  list(limit = 20, cliName?: string): SessionInfo[] {
+    const newestPerProject = new Map<string, SessionIndexEntry>();
+    for (const entry of this.entries.values()) {
+      if (cliName && entry.cliName !== cliName) continue;
+      const key = entry.cwd || entry.projectName;
+      const existing = newestPerProject.get(key);
+      if (!existing || entry.mtime > existing.mtime) newestPerProject.set(key, entry);
+    }
+    return [...newestPerProject.values()]
+      .sort((a, b) => b.mtime - a.mtime)
+      .slice(0, limit)
+      .map((e) => ({ ...e, mtime: new Date(e.mtime) }));
+  }
+
+  /** Write pending changes now (used on shutdown, when the debounced save won't run). */
+  flushSync(): void {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    try {
+      writeFileSync(this.path, this.serialize(), "utf8");
+    } catch {
+      // best effort
+    }
+  }
+
+  private serialize(): string {
+    const sessions = [...this.entries.values()].sort((a, b) => b.mtime - a.mtime).slice(0, MAX_ENTRIES);
+    const data: IndexFile = { version: 1, sessions };
+    return JSON.stringify(data);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY);
+  }
+
+  private async save(): Promise<void> {
+    // Write to a temp file and rename so a crash never leaves a half-written index.
+    const tmp = `${this.path}.tmp`;
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tmp, this.serialize(), "utf8");
+      await rename(tmp, this.path);
+    } catch (err) {
+      log({ message: `session index save error: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
+}
+
+export const sessionIndex = new SessionIndex();
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 vi.mock("./tmux.js", () => ({
   listTmuxPanes: vi.fn().mockResolvedValue([]),
+  registerAgentPanePredicate: vi.fn(),
 }));
 
 vi.mock("./monitor.js", () => ({
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, writeFile, appendFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonlTailer } from "./tailer.js";
+
+async function tempFile(content: string): Promise<string> {
+  const file = join(await mkdtemp(join(tmpdir(), "tailer-")), "session.jsonl");
+  await writeFile(file, content);
+  return file;
+}
+
+describe("JsonlTailer", () => {
+  it("starts at the given byte offset and returns only appended lines", async () => {
+    const file = await tempFile('{"a":1}\n');
+    const tailer = new JsonlTailer(file, Buffer.byteLength('{"a":1}\n'));
+
+    expect(await tailer.read()).toEqual([]);
+    await appendFile(file, '{"b":2}\n{"c":3}\n');
+    expect(await tailer.read()).toEqual(['{"b":2}', '{"c":3}']);
+    await appendFile(file, '{"d":4}\n');
+    expect(await tailer.read()).toEqual(['{"d":4}']);
+    expect(tailer.lines).toEqual(['{"b":2}', '{"c":3}', '{"d":4}']);
+  });
+
+  it("holds back a partial line until its newline arrives", async () => {
+    const file = await tempFile('{"a":1}\n{"b":');
+    const tailer = new JsonlTailer(file);
+
+    expect(await tailer.read()).toEqual(['{"a":1}']);
+    await appendFile(file, "2}\n");
+    expect(await tailer.read()).toEqual(['{"b":2}']);
+  });
+
+  it("does not split multi-byte characters across reads", async () => {
+    const file = await tempFile("");
+    const tailer = new JsonlTailer(file);
+    const line = JSON.stringify({ text: "héllo 👋" });
+    const bytes = Buffer.from(line + "\n");
+
+    await appendFile(file, bytes.subarray(0, 12));
+    expect(await tailer.read()).toEqual([]);
+    await appendFile(file, bytes.subarray(12));
+    expect(await tailer.read()).toEqual([line]);
+  });
+
+  it("starts over when the file is truncated", async () => {
+    const file = await tempFile('{"a":1}\n{"b":2}\n');
+    const tailer = new JsonlTailer(file);
+    await tailer.read();
+
+    await writeFile(file, '{"c":3}\n');
+    expect(await tailer.read()).toEqual(['{"c":3}']);
+    expect(tailer.lines).toEqual(['{"c":3}']);
+  });
+
+  it("serialises concurrent reads", async () => {
+    const file = await tempFile('{"a":1}\n');
+    const tailer = new JsonlTailer(file);
+
+    const [first, second] = await Promise.all([tailer.read(), tailer.read()]);
+    expect(first).toEqual(['{"a":1}']);
+    expect(second).toEqual([]);
+  });
+
+  it("rejects when the file does not exist", async () => {
+    await expect(new JsonlTailer("/tmp/definitely-missing-tailer.jsonl").read()).rejects.toThrow();
+  });
+
+  it("keeps only the latest maxLines, handing the rest over in dropped", async () => {
+    const file = await tempFile('{"a":1}\n{"b":2}\n');
+    const tailer = new JsonlTailer(file, 0, 2);
+
+    await tailer.read();
+    expect(tailer.dropped).toEqual([]);
+    await appendFile(file, '{"c":3}\n');
+    await tailer.read();
+    expect(tailer.lines).toEqual(['{"b":2}', '{"c":3}']);
+    expect(tailer.dropped).toEqual(['{"a":1}']);
+    await tailer.read();
+    expect(tailer.dropped).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { open } from "fs/promises";
+
+const NEWLINE = 0x0a;
+
+/**
+ * Incremental reader for an append-only JSONL transcript. Each read() picks up only
+ * the bytes written since the previous one and splits them into lines once; a
+ * trailing line whose newline hasn't landed yet is held back until it does.
+ */
+export class JsonlTailer {
+  /** Complete lines read so far, starting at the initial offset — at most the last maxLines of them. */
+  readonly lines: string[] = [];
+  /** Lines the last read() pushed out of `lines` to stay within maxLines. */
+  dropped: string[] = [];
+
+  private offset: number;
+  private partial: Buffer = Buffer.alloc(0);
+  // Reads are serialised so two change events can't race on the offset.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string, fromByte = 0, private readonly maxLines = Infinity) {
+    this.offset = fromByte;
+  }
+
+  /** Read newly appended complete lines. They are also added to `lines`. */
+  read(): Promise<string[]> {
+    const next = this.queue.then(() => this.readNew());
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async readNew(): Promise<string[]> {
+    this.dropped = [];
+    const handle = await open(this.filePath, "r");
+    try {
+      const { size } = await handle.stat();
+      if (size < this.offset) {
+        // Truncated or replaced — start over from the top.
+        this.offset = 0;
+        this.partial = Buffer.alloc(0);
+        this.lines.length = 0;
+      }
+      if (size === this.offset) return [];
+
+      const buf = Buffer.alloc(size - this.offset);
+      const { bytesRead } = await handle.read(buf, 0, buf.length, this.offset);
+      this.offset += bytesRead;
+
+      const chunk = Buffer.concat([this.partial, buf.subarray(0, bytesRead)]);
+      const lastNewline = chunk.lastIndexOf(NEWLINE);
+      if (lastNewline === -1) {
+        this.partial = chunk;
+        return [];
+      }
+      this.partial = chunk.subarray(lastNewline + 1);
+
+      const fresh = chunk.subarray(0, lastNewline).toString("utf8").split("\n").filter(Boolean);
+      for (const line of fresh) this.lines.push(line);
+      if (this.lines.length > this.maxLines) this.dropped = this.lines.splice(0, this.lines.length - this.maxLines);
+      return fresh;
+    } finally {
+      await handle.close();
+    }
+  }
+}
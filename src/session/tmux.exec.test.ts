@@ -19,7 +19,7 @@ import {
   sendInterrupt,
   injectInput,
   findClaudePane,
-  launchClaudeInWindow,
+  launchInWindow,
   killWindow,
   capturePaneContent,
   type TmuxPane,
@@ -264,8 +264,8 @@ describe("injectInput", () => {
   });
 });
 
-describe("launchClaudeInWindow", () => {
-  it("creates a tmux window and sends 'claude -c' command", async () => {
+describe("launchInWindow", () => {
+  it("creates a tmux window and sends the launch command", async () => {
     // new-window returns paneId, then sendKeysToPane (text + Enter)
     mockExecSequence([
       { stdout: "%42\n" },
@@ -273,7 +273,7 @@ describe("launchClaudeInWindow", () => {
       { stdout: "" }, // sendKeysToPane Enter
     ]);
 
-    const paneId = await launchClaudeInWindow("/Users/luca/project", "my-project", false);
+    const paneId = await launchInWindow("/Users/luca/project", "my-project", "claude -c");
 
     expect(paneId).toBe("%42");
     const newWindowCmd = vi.mocked(exec).mock.calls[0][0] as string;
@@ -286,17 +286,17 @@ describe("launchClaudeInWindow", () => {
     expect(sendKeysCmd).toContain("claude -c");
   });
 
-  it("sends 'claude -c --dangerously-skip-permissions' when skipPermissions is true", async () => {
+  it("sends the command with its flags unchanged", async () => {
     mockExecSequence([
       { stdout: "%10\n" },
       { stdout: "" },
       { stdout: "" },
     ]);
 
-    await launchClaudeInWindow("/tmp/proj", "proj", true);
+    await launchInWindow("/tmp/proj", "proj", "codex --sandbox workspace-write");
 
     const sendKeysCmd = vi.mocked(exec).mock.calls[1][0] as string;
-    expect(sendKeysCmd).toContain("claude -c --dangerously-skip-permissions");
+    expect(sendKeysCmd).toContain("codex --sandbox workspace-write");
   });
 
   it("sanitizes project name for window name (no dots/colons/spaces)", async () => {
@@ -306,7 +306,7 @@ describe("launchClaudeInWindow", () => {
       { stdout: "" },
     ]);
 
-    await launchClaudeInWindow("/tmp", "my.project:name with spaces", false);
+    await launchInWindow("/tmp", "my.project:name with spaces", "claude -c");
 
     const newWindowCmd = vi.mocked(exec).mock.calls[0][0] as string;
     // Dots, colons, and spaces should be replaced with hyphens
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { findBestPane, type TmuxPane } from "./tmux.js";
+import type { SessionAdapter } from "./adapter.js";
 
 const panes: TmuxPane[] = [
   { paneId: "%1", shellPid: 100, command: "node", cwd: "/Users/luca/repositories/my-app" },
@@ -58,10 +59,10 @@ describe("findBestPane", () => {
   });
 });
 
-describe("launchClaudeInWindow and killWindow", () => {
+describe("launchInWindow and killWindow", () => {
   it("are exported from tmux.ts", async () => {
     const mod = await import("./tmux.js");
-    expect(typeof mod.launchClaudeInWindow).toBe("function");
+    expect(typeof mod.launchInWindow).toBe("function");
     expect(typeof mod.killWindow).toBe("function");
   });
 });
@@ -72,3 +73,24 @@ describe("sendInterrupt", () => {
     expect(typeof mod.sendInterrupt).toBe("function");
   });
 });
+
+describe("isAgentCliPane", () => {
+  it("matches panes of the registered adapters, including wrapped CLIs", async () => {
+    await import("./adapters/index.js");
+    const { isAgentCliPane } = await import("./tmux.js");
+    expect(isAgentCliPane({ paneId: "%1", shellPid: 1, command: "2.1.47", cwd: "/tmp" })).toBe(true);
+    expect(isAgentCliPane({ paneId: "%1", shellPid: 1, command: "node", cwd: "/tmp", commandLine: "node /opt/codex/bin/codex.js" })).toBe(true);
+    expect(isAgentCliPane({ paneId: "%1", shellPid: 1, command: "node", cwd: "/tmp", commandLine: "node /usr/lib/node_modules/@google/gemini-cli/dist/index.js" })).toBe(true);
+    expect(isAgentCliPane({ paneId: "%1", shellPid: 1, command: "python3", cwd: "/tmp", commandLine: "/usr/bin/python3 /home/u/.local/bin/aider" })).toBe(true);
+    expect(isAgentCliPane({ paneId: "%1", shellPid: 1, command: "zsh", cwd: "/tmp" })).toBe(false);
+  });
+
+  it("matches panes of adapters registered at startup", async () => {
+    const { registerAdapter } = await import("./adapters/index.js");
+    const { isAgentCliPane } = await import("./tmux.js");
+    const pane = { paneId: "%1", shellPid: 1, command: "mycli", cwd: "/tmp" };
+    expect(isAgentCliPane(pane)).toBe(false);
+    registerAdapter({ name: "mycli", isAgentPane: (p: TmuxPane) => p.command === "mycli" } as unknown as SessionAdapter);
+    expect(isAgentCliPane(pane)).toBe(true);
+  });
+});
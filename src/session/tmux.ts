@@ -39,12 +39,26 @@ async function getClaudeChildStartTime(shellPid: number): Promise<number> {
   }
 }
 
-// Predicate for "this pane runs an agent CLI" (Claude Code or Codex). Defaults to
-// matching either, but callers can pass a custom predicate to scope the search.
+// Pane predicates of the registered session adapters (see adapters/index.ts), kept
+// here so pane lookups don't import the adapter registry.
+const agentPanePredicates: ((p: TmuxPane) => boolean)[] = [];
+
+export function registerAgentPanePredicate(isAgent: (p: TmuxPane) => boolean): void {
+  agentPanePredicates.push(isAgent);
+}
+
+// Predicate for "this pane runs an agent CLI": Claude Code, or any pane a registered
+// adapter recognises.
+export function isAgentCliPane(p: TmuxPane): boolean {
+  return isClaudePane(p) || agentPanePredicates.some((isAgent) => isAgent(p));
+}
+
+// Defaults to matching any agent CLI, but callers can pass a custom predicate to
+// scope the search.
 export function findBestPane(
   panes: TmuxPane[],
   targetCwd: string,
-  isAgent: (p: TmuxPane) => boolean = (p) => isClaudePane(p) || /codex/i.test(p.command) || (p.commandLine ? /codex/i.test(p.commandLine) : false)
+  isAgent: (p: TmuxPane) => boolean = isAgentCliPane
 ): TmuxPane[] {
   const agentPanes = panes.filter(isAgent);
   if (agentPanes.length === 0) return [];
@@ -130,10 +144,8 @@ export async function findClaudePane(targetCwd: string): Promise<TmuxResult> {
     return { found: true, paneId: best.pane.paneId };
   }
 
-  // No cwd match — fall back to any single agent pane (Claude or Codex)
-  const isAgent = (p: TmuxPane) =>
-    isClaudePane(p) || /codex/i.test(p.command) || (p.commandLine ? /codex/i.test(p.commandLine) : false);
-  const agentPanes = panes.filter(isAgent);
+  // No cwd match — fall back to any single agent pane
+  const agentPanes = panes.filter(isAgentCliPane);
   if (agentPanes.length === 0) return { found: false, reason: "no_claude_pane" };
   if (agentPanes.length > 1) return { found: false, reason: "ambiguous", panes: agentPanes };
 
@@ -184,10 +196,11 @@ function sanitizeWindowName(name: string): string {
   return name.replace(/[^a-zA-Z0-9_-]/g, "-").slice(0, 30);
 }
 
-export async function launchClaudeInWindow(
+/** Open a new tmux window at `cwd` and type `command` into it. Returns the new pane ID. */
+export async function launchInWindow(
   cwd: string,
   projectName: string,
-  skipPermissions: boolean
+  command: string
 ): Promise<string> {
   const winName = sanitizeWindowName(projectName);
   // Create a new window and capture its pane ID
@@ -195,10 +208,7 @@ export async function launchClaudeInWindow(
     `tmux new-window -c '${cwd.replace(/'/g, "'\\''")}' -n '${winName}' -P -F '#{pane_id}'`
   );
   const paneId = stdout.trim();
-  const cmd = skipPermissions
-    ? "claude -c --dangerously-skip-permissions"
-    : "claude -c";
-  await sendKeysToPane(paneId, cmd);
+  await sendKeysToPane(paneId, command);
   return paneId;
 }
 
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { groupTurns } from "./turns.js";
+import type { TranscriptEntry } from "./adapter.js";
+
+function entry(kind: TranscriptEntry["kind"], text: string, toolName?: string): TranscriptEntry {
+  return { kind, text, ...(toolName ? { toolName } : {}) };
+}
+
+describe("groupTurns", () => {
+  it("starts a turn at each user prompt", () => {
+    const turns = groupTurns([
+      entry("user", "fix the tests"),
+      entry("assistant", "Looking"),
+      entry("tool_call", "npm test", "Bash"),
+      entry("tool_result", "3 passed"),
+      entry("assistant", "Fixed."),
+      entry("user", "thanks"),
+      entry("assistant", "You're welcome"),
+    ]);
+    expect(turns).toEqual([
+      { prompt: "fix the tests", replies: ["Looking", "Fixed."], tools: ["Bash npm test"], timestamp: undefined },
+      { prompt: "thanks", replies: ["You're welcome"], tools: [], timestamp: undefined },
+    ]);
+  });
+
+  it("collects activity before the first prompt into a turn without one", () => {
+    const turns = groupTurns([entry("assistant", "Resumed"), entry("user", "go on")]);
+    expect(turns.map((t) => t.prompt)).toEqual(["", "go on"]);
+    expect(turns[0].replies).toEqual(["Resumed"]);
+  });
+
+  it("skips empty entries and tool results, and flattens long tool lines", () => {
+    const turns = groupTurns([
+      entry("user", "write it"),
+      entry("assistant", "  "),
+      entry("tool_call", `/a.ts ${"x\n".repeat(100)}`, "Write"),
+    ]);
+    expect(turns[0].replies).toEqual([]);
+    expect(turns[0].tools[0]).toHaveLength(80);
+    expect(turns[0].tools[0]).not.toContain("\n");
+    expect(turns[0].tools[0].endsWith("…")).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import type { TranscriptEntry } from "./adapter.js";
+
+const TOOL_SUMMARY_LIMIT = 80;
+
+/** One exchange: the user's prompt and everything the agent did in reply. */
+export type Turn = {
+  prompt: string;
+  /** Assistant text blocks, in order. */
+  replies: string[];
+  /** One line per tool call, e.g. "Bash npm test". */
+  tools: string[];
+  timestamp?: Date;
+};
+
+/**
+ * Group transcript entries (see SessionAdapter.readTranscript) into turns. A turn
+ * starts at each user prompt; anything before the first prompt forms a turn with an
+ * empty prompt. Tool results are left out.
+ */
+export function groupTurns(entries: TranscriptEntry[]): Turn[] {
+  const turns: Turn[] = [];
+  let current: Turn | null = null;
+
+  for (const entry of entries) {
+    if (entry.kind === "tool_result" || !entry.text.trim()) continue;
+    if (entry.kind === "user") {
+      current = { prompt: entry.text, replies: [], tools: [], timestamp: entry.timestamp };
+      turns.push(current);
+      continue;
+    }
+    if (!current) {
+      current = { prompt: "", replies: [], tools: [], timestamp: entry.timestamp };
+      turns.push(current);
+    }
+    if (entry.kind === "assistant") {
+      current.replies.push(entry.text);
+    } else {
+      const line = `${entry.toolName ?? "tool"} ${entry.text}`.replace(/\s+/g, " ").trim();
+      current.tools.push(line.length > TOOL_SUMMARY_LIMIT ? `${line.slice(0, TOOL_SUMMARY_LIMIT - 1)}…` : line);
+    }
+  }
+  return turns;
+}
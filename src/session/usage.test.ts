@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm, utimes } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  estimateCost,
+  sumRecords,
+  formatTokens,
+  formatCost,
+  formatUsageFooter,
+  breakdownUsage,
+  collectUsage,
+  configureUsage,
+  isUsageFooterEnabled,
+  type PriceTable,
+} from "./usage.js";
+import { ClaudeCodeAdapter } from "./adapters/claude.js";
+import type { UsageRecord } from "./adapter.js";
+
+const TABLE: PriceTable = {
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4-5-special": { input: 1, output: 1 },
+};
+
+function record(model: string | undefined, input: number, output: number, day = "2026-03-01"): UsageRecord {
+  return { usage: { input, output, cacheWrite: 0, cacheRead: 0 }, model, timestamp: new Date(`${day}T12:00:00Z`) };
+}
+
+describe("estimateCost", () => {
+  it("prices every token kind per million", () => {
+    const cost = estimateCost({ input: 1_000_000, output: 100_000, cacheWrite: 200_000, cacheRead: 1_000_000 }, "claude-sonnet-4-20250514", TABLE);
+    expect(cost).toBeCloseTo(3 + 1.5 + 0.75 + 0.3);
+  });
+
+  it("uses the longest matching prefix and falls back to the input rate for cache", () => {
+    const cost = estimateCost({ input: 0, output: 0, cacheWrite: 1_000_000, cacheRead: 0 }, "claude-sonnet-4-5-special-x", TABLE);
+    expect(cost).toBe(1);
+  });
+
+  it("returns null for unknown or missing models", () => {
+    expect(estimateCost({ input: 1, output: 1, cacheWrite: 0, cacheRead: 0 }, "mystery", TABLE)).toBeNull();
+    expect(estimateCost({ input: 1, output: 1, cacheWrite: 0, cacheRead: 0 }, undefined, TABLE)).toBeNull();
+  });
+});
+
+describe("formatting", () => {
+  it("abbreviates token counts", () => {
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(12_345)).toBe("12.3k");
+    expect(formatTokens(2_500_000)).toBe("2.5M");
+  });
+
+  it("marks totals with unpriced requests as a lower bound", () => {
+    expect(formatCost(sumRecords([record("claude-sonnet-4", 1_000_000, 0)], TABLE))).toBe("~$3.00");
+    expect(formatCost(sumRecords([record("claude-sonnet-4", 1_000_000, 0), record("mystery", 5, 5)], TABLE))).toBe("≥$3.00");
+    expect(formatCost(sumRecords([record("mystery", 5, 5)], TABLE))).toBe("cost n/a");
+  });
+
+  it("builds a footer from the built-in prices", () => {
+    configureUsage({});
+    const footer = formatUsageFooter([
+      { usage: { input: 10, output: 1_200, cacheWrite: 2_000, cacheRead: 30_000 }, model: "claude-sonnet-4-5" },
+    ]);
+    expect(footer).toMatch(/^↑32\.0k ↓1\.2k · ~\$0\.03$/);
+    expect(formatUsageFooter([])).toBeNull();
+  });
+
+  it("keeps the footer off unless configured", () => {
+    configureUsage({});
+    expect(isUsageFooterEnabled()).toBe(false);
+    configureUsage({ footer: true });
+    expect(isUsageFooterEnabled()).toBe(true);
+    configureUsage({});
+  });
+});
+
+describe("breakdownUsage", () => {
+  it("groups by day, project and session", () => {
+    const { total, byDay, byProject, bySession } = breakdownUsage([
+      { sessionId: "a", cliName: "claude", projectName: "shop", records: [record("claude-sonnet-4", 1_000_000, 0, "2026-03-02")] },
+      { sessionId: "b", cliName: "claude", projectName: "shop", records: [record("claude-sonnet-4", 0, 1_000_000, "2026-03-01")] },
+      { sessionId: "c", cliName: "codex", projectName: "api", records: [record("mystery", 10, 10, "2026-03-02")] },
+    ], TABLE);
+
+    expect(total.cost).toBeCloseTo(18);
+    expect(total.unpriced).toBe(1);
+    expect(byDay.map(([day]) => day)).toEqual(["2026-03-01", "2026-03-02"]);
+    expect(byProject.map(([p, t]) => [p, t.cost])).toEqual([["shop", 18], ["api", 0]]);
+    expect(bySession.map(([s]) => s.sessionId)).toEqual(["b", "a", "c"]);
+  });
+});
+
+describe("collectUsage", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads usage from each adapter's transcripts since the cutoff", async () => {
+    dir = await mkdtemp(join(tmpdir(), "usage-"));
+    const adapter = new ClaudeCodeAdapter();
+    adapter.projectsPath = dir;
+    const assistant = (id: string, timestamp: string, output: number) => JSON.stringify({
+      type: "assistant",
+      cwd: "/repos/shop",
+      timestamp,
+      message: { id, model: "claude-sonnet-4-5", content: [{ type: "text", text: "hi" }], usage: { input_tokens: 10, output_tokens: output } },
+    });
+    await mkdir(join(dir, "-repos-shop"), { recursive: true });
+    await writeFile(join(dir, "-repos-shop", "s1.jsonl"), [
+      assistant("m0", "2026-02-01T00:00:00Z", 999),
+      assistant("m1", "2026-03-05T00:00:00Z", 5),
+    ].join("\n") + "\n");
+    await writeFile(join(dir, "-repos-shop", "old.jsonl"), assistant("m2", "2026-01-01T00:00:00Z", 7) + "\n");
+    await utimes(join(dir, "-repos-shop", "old.jsonl"), new Date("2026-01-01"), new Date("2026-01-01"));
+
+    const sessions = await collectUsage([adapter], new Date("2026-03-01T00:00:00Z"));
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ sessionId: "s1", cliName: "claude", projectName: "shop" });
+    expect(sessions[0].records.map((r) => r.usage.output)).toEqual([5]);
+  });
+});
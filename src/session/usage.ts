@@ -0,0 +1,176 @@
+import { basename, extname } from "path";
+import type { SessionAdapter, TokenUsage, UsageRecord } from "./adapter.js";
+import { extractCwd } from "./jsonl.js";
+import { listTranscriptFiles, readSessionLines } from "./history.js";
+
+/** USD per million tokens. Cache rates default to the input rate when omitted. */
+export type ModelPrice = {
+  input: number;
+  output: number;
+  cacheWrite?: number;
+  cacheRead?: number;
+};
+
+/** Keyed by model ID prefix; the longest matching prefix wins. */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4-6": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cacheRead: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cacheRead: 0.005 },
+};
+
+let prices: PriceTable = DEFAULT_PRICES;
+let footerEnabled = false;
+
+/** Apply the `prices` and `usageFooter` settings from config.json. */
+export function configureUsage(options: { prices?: PriceTable; footer?: boolean }): void {
+  prices = { ...DEFAULT_PRICES, ...options.prices };
+  footerEnabled = options.footer ?? false;
+}
+
+export function isUsageFooterEnabled(): boolean {
+  return footerEnabled;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 };
+}
+
+export function addUsage(into: TokenUsage, u: TokenUsage): TokenUsage {
+  into.input += u.input;
+  into.output += u.output;
+  into.cacheWrite += u.cacheWrite;
+  into.cacheRead += u.cacheRead;
+  return into;
+}
+
+export function totalTokens(u: TokenUsage): number {
+  return u.input + u.output + u.cacheWrite + u.cacheRead;
+}
+
+function priceFor(model: string | undefined, table: PriceTable): ModelPrice | null {
+  if (!model) return null;
+  const key = Object.keys(table)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : null;
+}
+
+/** Estimated cost in USD, or null when the model isn't in the price table. */
+export function estimateCost(usage: TokenUsage, model: string | undefined, table: PriceTable = prices): number | null {
+  const price = priceFor(model, table);
+  if (!price) return null;
+  return (
+    usage.input * price.input +
+    usage.output * price.output +
+    usage.cacheWrite * (price.cacheWrite ?? price.input) +
+    usage.cacheRead * (price.cacheRead ?? price.input)
+  ) / 1_000_000;
+}
+
+/** Usage and cost of a set of requests; `unpriced` counts requests with an unknown model. */
+export type UsageTotals = { usage: TokenUsage; cost: number; unpriced: number };
+
+export function sumRecords(records: UsageRecord[], table: PriceTable = prices): UsageTotals {
+  const totals: UsageTotals = { usage: emptyUsage(), cost: 0, unpriced: 0 };
+  for (const r of records) {
+    addUsage(totals.usage, r.usage);
+    const cost = estimateCost(r.usage, r.model, table);
+    if (cost === null) totals.unpriced++;
+    else totals.cost += cost;
+  }
+  return totals;
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+export function formatCost(totals: UsageTotals): string {
+  if (totals.cost === 0 && totals.unpriced > 0) return "cost n/a";
+  const approx = totals.unpriced > 0 ? "≥" : "~";
+  return `${approx}$${totals.cost < 0.01 && totals.cost > 0 ? totals.cost.toFixed(3) : totals.cost.toFixed(2)}`;
+}
+
+/** Short footer for a response: prompt tokens (incl. cache), output tokens and cost. */
+export function formatUsageFooter(records: UsageRecord[]): string | null {
+  if (records.length === 0) return null;
+  const totals = sumRecords(records);
+  const prompt = totals.usage.input + totals.usage.cacheWrite + totals.usage.cacheRead;
+  return `↑${formatTokens(prompt)} ↓${formatTokens(totals.usage.output)} · ${formatCost(totals)}`;
+}
+
+export type SessionUsage = {
+  sessionId: string;
+  cliName: string;
+  projectName: string;
+  cwd?: string;
+  records: UsageRecord[];
+};
+
+/**
+ * Read the usage of every transcript written since `since`, for each adapter that
+ * reports usage. Records older than `since` are dropped.
+ */
+export async function collectUsage(adapters: SessionAdapter[], since: Date): Promise<SessionUsage[]> {
+  const sessions: SessionUsage[] = [];
+  for (const adapter of adapters) {
+    if (!adapter.extractUsage || !adapter.projectsPath) continue;
+    for (const { filePath, mtime } of await listTranscriptFiles(adapter.projectsPath, adapter.watchDepth ?? 2)) {
+      if (mtime < since) continue;
+      const lines = await readSessionLines(filePath).catch(() => [] as string[]);
+      const records = adapter
+        .extractUsage(lines)
+        .map((r) => ({ ...r, timestamp: r.timestamp ?? mtime }))
+        .filter((r) => r.timestamp >= since);
+      if (records.length === 0) continue;
+      const cwd = adapter.parseAssistantText(lines).cwd ?? extractCwd(lines);
+      sessions.push({
+        sessionId: basename(filePath, extname(filePath)),
+        cliName: adapter.name,
+        projectName: cwd ? basename(cwd) : basename(filePath),
+        ...(cwd ? { cwd } : {}),
+        records,
+      });
+    }
+  }
+  return sessions;
+}
+
+export type UsageBreakdown = {
+  total: UsageTotals;
+  byDay: [string, UsageTotals][];
+  byProject: [string, UsageTotals][];
+  bySession: [SessionUsage, UsageTotals][];
+};
+
+/** Group usage by UTC day (oldest first), project and session (most expensive first). */
+export function breakdownUsage(sessions: SessionUsage[], table: PriceTable = prices): UsageBreakdown {
+  const all = sessions.flatMap((s) => s.records);
+  const days = new Map<string, UsageRecord[]>();
+  for (const r of all) {
+    const day = (r.timestamp ?? new Date(0)).toISOString().slice(0, 10);
+    days.set(day, [...(days.get(day) ?? []), r]);
+  }
+  const projects = new Map<string, UsageRecord[]>();
+  for (const s of sessions) projects.set(s.projectName, [...(projects.get(s.projectName) ?? []), ...s.records]);
+
+  const byCost = (a: [unknown, UsageTotals], b: [unknown, UsageTotals]) =>
+    b[1].cost - a[1].cost || totalTokens(b[1].usage) - totalTokens(a[1].usage);
+  return {
+    total: sumRecords(all, table),
+    byDay: [...days].sort(([a], [b]) => a.localeCompare(b)).map(([day, rs]) => [day, sumRecords(rs, table)]),
+    byProject: [...projects].map(([p, rs]): [string, UsageTotals] => [p, sumRecords(rs, table)]).sort(byCost),
+    bySession: sessions.map((s): [SessionUsage, UsageTotals] => [s, sumRecords(s.records, table)]).sort(byCost),
+  };
+}
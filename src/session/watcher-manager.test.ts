@@ -135,6 +135,21 @@ describe("WatcherManager", () => {
       expect(getFileSize).toHaveBeenCalledWith("/tmp/session.jsonl");
     });
 
+    it("asks adapters that rewrite their transcript where it ends", async () => {
+      const manager = createManager();
+      const transcriptPosition = vi.fn().mockResolvedValue(4);
+      vi.mocked(adapterForCwd).mockResolvedValue({
+        adapter: { name: "gemini", transcriptPosition } as any,
+        file: { filePath: "/tmp/chat.json", sessionId: "g1" },
+      });
+
+      const result = await manager.snapshotBaseline("/tmp/project");
+
+      expect(result).toEqual({ filePath: "/tmp/chat.json", sessionId: "g1", size: 4 });
+      expect(transcriptPosition).toHaveBeenCalledWith("/tmp/chat.json");
+      expect(getFileSize).not.toHaveBeenCalled();
+    });
+
     it("returns null when no session exists", async () => {
       const manager = createManager();
       vi.mocked(adapterForCwd).mockResolvedValue(null);
@@ -9,6 +9,10 @@ import { writeFile } from "fs/promises";
 
 type PendingImagesMap = Map<string, DetectedImage[]>;
 
+function transcriptPosition(adapter: SessionAdapter, filePath: string): Promise<number> {
+  return adapter.transcriptPosition?.(filePath) ?? getFileSize(filePath);
+}
+
 export class WatcherManager {
   private activeStop: (() => void) | null = null;
   private activeAdapter: SessionAdapter | null = null;
@@ -46,7 +50,7 @@ export class WatcherManager {
   ): Promise<{ filePath: string; sessionId: string; size: number } | null> {
     const resolved = await adapterForCwd(cwd);
     if (!resolved) return null;
-    const size = await getFileSize(resolved.file.filePath);
+    const size = await transcriptPosition(resolved.adapter, resolved.file.filePath);
     return { ...resolved.file, size };
   }
 
@@ -85,7 +89,7 @@ export class WatcherManager {
       adapter = resolved.adapter;
       filePath = resolved.file.filePath;
       latestSessionId = resolved.file.sessionId;
-      baseline = await getFileSize(filePath);
+      baseline = await transcriptPosition(adapter, filePath);
     }
 
     this.activeAdapter = adapter;
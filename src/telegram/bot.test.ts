@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { createBot } from "./bot.js";
-import { findClaudePane, listTmuxPanes, isClaudePane, launchClaudeInWindow, killWindow, sendKeysToPane, injectInput } from "../session/tmux.js";
+import { findClaudePane, listTmuxPanes, isClaudePane, launchInWindow, killWindow, sendKeysToPane, injectInput } from "../session/tmux.js";
 import { getAttachedSession, listSessions, getLatestSessionFileForCwd, readSessionLines, parseJsonlLines } from "../session/history.js";
 import { unlink, writeFile } from "fs/promises";
 import { watchForResponse, getFileSize } from "../session/monitor.js";
@@ -32,7 +32,8 @@ vi.mock("../session/tmux.js", () => ({
   findClaudePane: vi.fn(),
   listTmuxPanes: vi.fn(),
   isClaudePane: vi.fn(),
-  launchClaudeInWindow: vi.fn(),
+  registerAgentPanePredicate: vi.fn(),
+  launchInWindow: vi.fn(),
   killWindow: vi.fn(),
   injectInput: vi.fn(),
   sendKeysToPane: vi.fn(),
@@ -462,6 +463,12 @@ describe("session: callbacks", () => {
     const sendMessages = apiCalls.filter((c) => c.method === "sendMessage");
     const texts = sendMessages.map((c) => c.payload.text as string);
     expect(texts.some((t) => t.includes("Launch"))).toBe(true);
+
+    const markup = sendMessages[sendMessages.length - 1].payload.reply_markup as { inline_keyboard: { callback_data: string }[][] };
+    const data = markup.inline_keyboard.flat().map((b) => b.callback_data);
+    expect(data).toContain("launch:claude:1:s1");
+    expect(data).toContain("launch:codex:1:s1");
+    expect(data).toContain("launch:cancel:s1");
   });
 });
 
@@ -505,17 +512,17 @@ describe("launch: callbacks", () => {
     expect(edits.length).toBeGreaterThan(0);
   });
 
-  it("launch:<id> launches Claude Code and shows launching message", async () => {
+  it("launch:claude:0:<id> launches Claude Code and shows launching message", async () => {
     const { bot, apiCalls } = await makeBot();
     await setupWithSessions(bot, apiCalls);
 
-    vi.mocked(launchClaudeInWindow).mockResolvedValue("%9");
+    vi.mocked(launchInWindow).mockResolvedValue("%9");
     // findClaudePane always returns found so the first poll (at t=2000ms) fires immediately
     vi.mocked(findClaudePane).mockResolvedValue({ found: true, paneId: "%9" });
 
-    await bot.handleUpdate(callbackUpdate("launch:s1") as any);
+    await bot.handleUpdate(callbackUpdate("launch:claude:0:s1") as any);
 
-    expect(launchClaudeInWindow).toHaveBeenCalledWith("/proj/myproject", "myproject", false);
+    expect(launchInWindow).toHaveBeenCalledWith("/proj/myproject", "myproject", "claude -c");
     expect(writeFile).toHaveBeenCalledWith(
       expect.anything(),
       expect.stringContaining("s1"),
@@ -536,16 +543,47 @@ describe("launch: callbacks", () => {
     expect(texts.some((t) => t.includes("ready"))).toBe(true);
   }, 10000);
 
-  it("launch:skip:<id> launches with dangerously-skip-permissions", async () => {
+  it("launch:claude:1:<id> launches with dangerously-skip-permissions", async () => {
+    const { bot, apiCalls } = await makeBot();
+    await setupWithSessions(bot, apiCalls);
+
+    vi.mocked(launchInWindow).mockResolvedValue("%9");
+    vi.mocked(findClaudePane).mockResolvedValue({ found: false, reason: "no_claude_pane" });
+
+    await bot.handleUpdate(callbackUpdate("launch:claude:1:s1") as any);
+
+    expect(launchInWindow).toHaveBeenCalledWith("/proj/myproject", "myproject", "claude -c --dangerously-skip-permissions");
+  });
+
+  it("launch:codex:<n>:<id> launches Codex with the chosen flags", async () => {
     const { bot, apiCalls } = await makeBot();
     await setupWithSessions(bot, apiCalls);
 
-    vi.mocked(launchClaudeInWindow).mockResolvedValue("%9");
+    vi.mocked(launchInWindow).mockResolvedValue("%9");
     vi.mocked(findClaudePane).mockResolvedValue({ found: false, reason: "no_claude_pane" });
 
-    await bot.handleUpdate(callbackUpdate("launch:skip:s1") as any);
+    await bot.handleUpdate(callbackUpdate("launch:codex:1:s1") as any);
+    expect(launchInWindow).toHaveBeenCalledWith("/proj/myproject", "myproject", "codex --full-auto");
+
+    await bot.handleUpdate(callbackUpdate("launch:codex:2:s1") as any);
+    expect(launchInWindow).toHaveBeenLastCalledWith("/proj/myproject", "myproject", "codex --sandbox read-only");
 
-    expect(launchClaudeInWindow).toHaveBeenCalledWith("/proj/myproject", "myproject", true);
+    const editTexts = apiCalls
+      .filter((c) => c.method === "editMessageText")
+      .map((c) => c.payload.text as string);
+    expect(editTexts.some((t) => t.includes("Launching Codex"))).toBe(true);
+  });
+
+  it("rejects unknown adapters and option indexes", async () => {
+    const { bot, apiCalls } = await makeBot();
+    await setupWithSessions(bot, apiCalls);
+
+    await bot.handleUpdate(callbackUpdate("launch:nope:0:s1") as any);
+    await bot.handleUpdate(callbackUpdate("launch:claude:9:s1") as any);
+
+    expect(launchInWindow).not.toHaveBeenCalled();
+    const answers = apiCalls.filter((c) => c.method === "answerCallbackQuery");
+    expect(answers.every((c) => String(c.payload.text).includes("Unknown launch option"))).toBe(true);
   });
 });
 
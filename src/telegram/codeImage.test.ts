@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { renderCodeAsPngs, CODE_LINES_PER_PAGE, CODE_MAX_PAGES } from "./codeImage.js";
+
+function isPng(buf: Buffer): boolean {
+  return buf[0] === 0x89 && buf.subarray(1, 4).toString() === "PNG";
+}
+
+describe("renderCodeAsPngs", () => {
+  it("renders a short block as one PNG", () => {
+    const pngs = renderCodeAsPngs(["def f(x):", "\treturn x + 1  # bump"], "python");
+    expect(pngs).toHaveLength(1);
+    expect(isPng(pngs[0])).toBe(true);
+  });
+
+  it("renders unknown languages and empty tags", () => {
+    expect(isPng(renderCodeAsPngs(["plain"], "")[0])).toBe(true);
+  });
+
+  it("pages long blocks, counting wrapped rows", () => {
+    const lines = Array.from({ length: CODE_LINES_PER_PAGE - 1 }, (_, i) => `const v${i} = ${i};`);
+    expect(renderCodeAsPngs(lines, "ts")).toHaveLength(1);
+    expect(renderCodeAsPngs([...lines, "x".repeat(150)], "ts")).toHaveLength(2);
+  });
+
+  it("caps the page count", () => {
+    const lines = Array.from({ length: CODE_LINES_PER_PAGE * CODE_MAX_PAGES + 1 }, (_, i) => `const v${i} = ${i};`);
+    expect(renderCodeAsPngs(lines, "ts")).toHaveLength(CODE_MAX_PAGES);
+  });
+});
@@ -0,0 +1,120 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { TOKEN_COLORS, highlightLine, languageFor, type Token } from "./highlight.js";
+// Registers the system fonts with the canvas on import.
+import "./tableImage.js";
+
+const FONT_FACE = "DejaVu Sans Mono";
+const FONT_SIZE = 14;          // px
+const LINE_HEIGHT = 20;
+const PAD_H = 12;
+const HEADER_HEIGHT = 30;
+const GUTTER_GAP = 12;         // space between line numbers and code
+const WRAP_CHARS = 100;        // longer lines wrap onto continuation rows
+const TAB = "    ";
+
+// Telegram scales photos down to 1280px on the long side; keep pages short
+// enough that the text is still readable on a phone.
+export const CODE_LINES_PER_PAGE = 60;
+export const CODE_MAX_PAGES = 4;
+
+const COL_HEADER_BG = "#1e293b";   // slate-800
+const COL_HEADER_TEXT = "#f8fafc"; // slate-50
+const COL_BG = "#f6f8fa";
+const COL_GUTTER_BG = "#eaeef2";
+const COL_LINE_NUMBER = "#8c959f";
+
+interface Row {
+  number: number | null; // null on wrapped continuation rows
+  tokens: Token[];
+}
+
+// Split a highlighted line into rows of at most WRAP_CHARS characters, keeping token colours.
+function wrapTokens(tokens: Token[]): Token[][] {
+  const rows: Token[][] = [[]];
+  let used = 0;
+  for (const token of tokens) {
+    let text = token.text;
+    while (text.length > 0) {
+      if (used === WRAP_CHARS) {
+        rows.push([]);
+        used = 0;
+      }
+      const piece = text.slice(0, WRAP_CHARS - used);
+      rows[rows.length - 1].push({ text: piece, kind: token.kind });
+      used += piece.length;
+      text = text.slice(piece.length);
+    }
+  }
+  return rows;
+}
+
+function renderPage(title: string, rows: Row[], digits: number): Buffer {
+  const probe = createCanvas(1, 1).getContext("2d");
+  probe.font = `${FONT_SIZE}px "${FONT_FACE}"`;
+  const charW = probe.measureText("M").width || FONT_SIZE * 0.6;
+  const longest = Math.max(20, ...rows.map((r) => r.tokens.reduce((n, t) => n + t.text.length, 0)));
+
+  const gutterW = PAD_H + digits * charW + GUTTER_GAP / 2;
+  const width = Math.ceil(gutterW + GUTTER_GAP / 2 + longest * charW + PAD_H);
+  const height = HEADER_HEIGHT + rows.length * LINE_HEIGHT + PAD_H / 2;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  ctx.fillStyle = COL_BG;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = COL_GUTTER_BG;
+  ctx.fillRect(0, HEADER_HEIGHT, gutterW, height - HEADER_HEIGHT);
+  ctx.fillStyle = COL_HEADER_BG;
+  ctx.fillRect(0, 0, width, HEADER_HEIGHT);
+  ctx.fillStyle = COL_HEADER_TEXT;
+  ctx.font = `bold ${FONT_SIZE}px "${FONT_FACE}"`;
+  ctx.textBaseline = "middle";
+  ctx.fillText(title, PAD_H, HEADER_HEIGHT / 2);
+
+  ctx.font = `${FONT_SIZE}px "${FONT_FACE}"`;
+  rows.forEach((row, i) => {
+    const mid = HEADER_HEIGHT + i * LINE_HEIGHT + LINE_HEIGHT / 2;
+    if (row.number !== null) {
+      ctx.fillStyle = COL_LINE_NUMBER;
+      ctx.textAlign = "right";
+      ctx.fillText(String(row.number), gutterW - GUTTER_GAP / 2, mid);
+      ctx.textAlign = "left";
+    }
+    let x = gutterW + GUTTER_GAP / 2;
+    for (const token of row.tokens) {
+      ctx.fillStyle = TOKEN_COLORS[token.kind];
+      ctx.fillText(token.text, x, mid);
+      x += token.text.length * charW;
+    }
+  });
+
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * Render the lines of a fenced code block as syntax-highlighted PNGs with line
+ * numbers, one per CODE_LINES_PER_PAGE rows. `tag` is the fence's info string.
+ * Rows past CODE_MAX_PAGES pages are dropped with a note.
+ */
+export function renderCodeAsPngs(lines: string[], tag: string): Buffer[] {
+  const language = languageFor(tag);
+  let rows: Row[] = lines.flatMap((line, i) =>
+    wrapTokens(highlightLine(line.replace(/\t/g, TAB), language)).map((tokens, j) => ({
+      number: j === 0 ? i + 1 : null,
+      tokens,
+    }))
+  );
+  const limit = CODE_LINES_PER_PAGE * CODE_MAX_PAGES;
+  if (rows.length > limit) {
+    const more = rows.length - (limit - 1);
+    rows = [...rows.slice(0, limit - 1), { number: null, tokens: [{ text: `⋯ ${more} more rows not shown`, kind: "comment" }] }];
+  }
+  const digits = String(lines.length).length;
+  const pageCount = Math.max(1, Math.ceil(rows.length / CODE_LINES_PER_PAGE));
+  const pages: Buffer[] = [];
+  for (let p = 0; p < pageCount; p++) {
+    const title = `${tag || "code"}${pageCount > 1 ? ` (${p + 1}/${pageCount})` : ""}`;
+    pages.push(renderPage(title, rows.slice(p * CODE_LINES_PER_PAGE, (p + 1) * CODE_LINES_PER_PAGE), digits));
+  }
+  return pages;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, diffForEdit, renderDiffAsPngs, LINES_PER_PAGE } from "./diffImage.js";
+
+describe("diffLines", () => {
+  it("marks removed and added lines around unchanged ones", () => {
+    expect(diffLines("a\nb\nc\n", "a\nB\nc\nd\n")).toEqual([
+      { kind: "context", text: "a" },
+      { kind: "del", text: "b" },
+      { kind: "add", text: "B" },
+      { kind: "context", text: "c" },
+      { kind: "add", text: "d" },
+    ]);
+  });
+
+  it("collapses unchanged runs beyond the context", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n");
+    const updated = old.replace("line 2\n", "line two\n").replace("line 17\n", "line seventeen\n");
+    const lines = diffLines(old, updated, 1);
+    expect(lines.map((l) => l.kind)).toEqual(["context", "del", "add", "context", "hunk", "context", "del", "add", "context"]);
+    expect(lines[4].text).toBe("⋯ 12 unchanged lines");
+  });
+
+  it("shows a new file as additions only", () => {
+    expect(diffLines("", "x\ny")).toEqual([{ kind: "add", text: "x" }, { kind: "add", text: "y" }]);
+  });
+});
+
+describe("diffForEdit", () => {
+  it("gives each MultiEdit change a header", () => {
+    const lines = diffForEdit({
+      tool: "MultiEdit",
+      filePath: "/a.ts",
+      changes: [{ oldText: "a", newText: "b" }, { oldText: "c", newText: "d" }],
+    });
+    expect(lines.filter((l) => l.kind === "hunk").map((l) => l.text)).toEqual(["Edit 1 of 2", "Edit 2 of 2"]);
+  });
+});
+
+describe("renderDiffAsPngs", () => {
+  it("renders one PNG for a short edit", () => {
+    const [png, ...rest] = renderDiffAsPngs({
+      tool: "Edit",
+      filePath: "/repo/src/app.ts",
+      changes: [{ oldText: "const a = 1;", newText: "const a = 2; // bumped" }],
+    });
+    expect(rest).toHaveLength(0);
+    expect(png[0]).toBe(0x89);
+    expect(png.subarray(1, 4).toString()).toBe("PNG");
+  });
+
+  it("splits long diffs into pages", () => {
+    const content = Array.from({ length: LINES_PER_PAGE + 5 }, (_, i) => `print(${i})`).join("\n");
+    expect(renderDiffAsPngs({ tool: "Write", filePath: "/repo/x.py", changes: [{ oldText: "", newText: content }] })).toHaveLength(2);
+  });
+});
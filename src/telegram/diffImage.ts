@@ -0,0 +1,188 @@
+import { createCanvas } from "@napi-rs/canvas";
+import type { FileEdit } from "../session/jsonl.js";
+import { TOKEN_COLORS, highlightLine, languageFor } from "./highlight.js";
+// Registers the system fonts with the canvas on import.
+import "./tableImage.js";
+
+// ---------------------------------------------------------------------------
+// Line diff
+// ---------------------------------------------------------------------------
+
+export interface DiffLine {
+  kind: "context" | "add" | "del" | "hunk";
+  text: string;
+}
+
+// Past this many old × new lines the LCS table gets too big; show a plain replace.
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\n$/, "").split("\n");
+}
+
+/** Unified diff of two texts, keeping `context` unchanged lines around each change. */
+export function diffLines(oldText: string, newText: string, context = 3): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  const ops: DiffLine[] = [];
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    ops.push(...a.map((text) => ({ kind: "del" as const, text })), ...b.map((text) => ({ kind: "add" as const, text })));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push({ kind: "context", text: a[i] });
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        ops.push({ kind: "del", text: a[i++] });
+      } else {
+        ops.push({ kind: "add", text: b[j++] });
+      }
+    }
+  }
+
+  // Drop context lines further than `context` from any change
+  const near = ops.map(() => false);
+  ops.forEach((op, k) => {
+    if (op.kind === "context") return;
+    for (let d = Math.max(0, k - context); d <= Math.min(ops.length - 1, k + context); d++) near[d] = true;
+  });
+  const out: DiffLine[] = [];
+  let skipped = 0;
+  ops.forEach((op, k) => {
+    if (!near[k]) {
+      skipped++;
+      return;
+    }
+    if (skipped > 0 && out.length > 0) out.push({ kind: "hunk", text: `⋯ ${skipped} unchanged line${skipped === 1 ? "" : "s"}` });
+    skipped = 0;
+    out.push(op);
+  });
+  return out;
+}
+
+/** Diff lines for every change of an edit; MultiEdit changes get a header each. */
+export function diffForEdit(edit: FileEdit): DiffLine[] {
+  if (edit.changes.length === 1) return diffLines(edit.changes[0].oldText, edit.changes[0].newText);
+  return edit.changes.flatMap((change, i) => [
+    { kind: "hunk" as const, text: `Edit ${i + 1} of ${edit.changes.length}` },
+    ...diffLines(change.oldText, change.newText),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Canvas rendering
+// ---------------------------------------------------------------------------
+
+const FONT_FACE = "DejaVu Sans Mono";
+const FONT_SIZE = 14;          // px
+const LINE_HEIGHT = 20;
+const PAD_H = 12;
+const HEADER_HEIGHT = 34;
+const GUTTER_W = 22;           // room for the +/- marker
+const MAX_LINE_CHARS = 110;    // longer lines are cut with an ellipsis
+const TAB = "  ";
+
+// Telegram scales photos down to 1280px on the long side, so tall diffs are
+// split into pages that stay legible on a phone.
+export const LINES_PER_PAGE = 50;
+export const MAX_PAGES = 4;
+
+const COL_HEADER_BG = "#1e293b";   // slate-800
+const COL_HEADER_TEXT = "#f8fafc"; // slate-50
+const COL_BG = "#ffffff";
+const LINE_BG: Record<DiffLine["kind"], string> = {
+  context: COL_BG,
+  add: "#e6ffec",
+  del: "#ffebe9",
+  hunk: "#ddf4ff",
+};
+const MARKERS: Record<DiffLine["kind"], string> = { context: " ", add: "+", del: "-", hunk: "" };
+const MARKER_COLORS: Record<DiffLine["kind"], string> = {
+  context: "#6e7781",
+  add: "#1a7f37",
+  del: "#cf222e",
+  hunk: "#0969da",
+};
+
+function clip(text: string): string {
+  const expanded = text.replace(/\t/g, TAB);
+  return expanded.length > MAX_LINE_CHARS ? expanded.slice(0, MAX_LINE_CHARS - 1) + "…" : expanded;
+}
+
+function renderPage(title: string, lines: DiffLine[], language: string | null): Buffer {
+  const probe = createCanvas(1, 1).getContext("2d");
+  probe.font = `${FONT_SIZE}px "${FONT_FACE}"`;
+  const charW = probe.measureText("M").width || FONT_SIZE * 0.6;
+  const longest = Math.max(40, ...lines.map((l) => clip(l.text).length));
+  probe.font = `bold ${FONT_SIZE}px "${FONT_FACE}"`;
+  const titleW = probe.measureText(title).width;
+
+  const width = Math.ceil(Math.max(PAD_H * 2 + GUTTER_W + longest * charW, titleW + PAD_H * 2));
+  const height = HEADER_HEIGHT + lines.length * LINE_HEIGHT + PAD_H / 2;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  ctx.fillStyle = COL_BG;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = COL_HEADER_BG;
+  ctx.fillRect(0, 0, width, HEADER_HEIGHT);
+  ctx.fillStyle = COL_HEADER_TEXT;
+  ctx.font = `bold ${FONT_SIZE}px "${FONT_FACE}"`;
+  ctx.textBaseline = "middle";
+  ctx.fillText(title, PAD_H, HEADER_HEIGHT / 2);
+
+  ctx.font = `${FONT_SIZE}px "${FONT_FACE}"`;
+  lines.forEach((line, row) => {
+    const top = HEADER_HEIGHT + row * LINE_HEIGHT;
+    const mid = top + LINE_HEIGHT / 2;
+    ctx.fillStyle = LINE_BG[line.kind];
+    ctx.fillRect(0, top, width, LINE_HEIGHT);
+    ctx.fillStyle = MARKER_COLORS[line.kind];
+    if (line.kind === "hunk") {
+      ctx.fillText(clip(line.text), PAD_H, mid);
+      return;
+    }
+    ctx.fillText(MARKERS[line.kind], PAD_H, mid);
+    let x = PAD_H + GUTTER_W;
+    for (const token of highlightLine(clip(line.text), language)) {
+      ctx.fillStyle = TOKEN_COLORS[token.kind];
+      ctx.fillText(token.text, x, mid);
+      x += token.text.length * charW;
+    }
+  });
+
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * Render an Edit/MultiEdit/Write call as syntax-coloured unified-diff PNGs, one per
+ * page of LINES_PER_PAGE lines. Pages past MAX_PAGES are dropped with a note.
+ */
+export function renderDiffAsPngs(edit: FileEdit): Buffer[] {
+  let lines = diffForEdit(edit);
+  const limit = LINES_PER_PAGE * MAX_PAGES;
+  if (lines.length > limit) {
+    const more = lines.length - (limit - 1);
+    lines = [...lines.slice(0, limit - 1), { kind: "hunk", text: `⋯ ${more} more lines not shown` }];
+  }
+  const language = languageFor(edit.filePath);
+  const pageCount = Math.max(1, Math.ceil(lines.length / LINES_PER_PAGE));
+  const pages: Buffer[] = [];
+  for (let p = 0; p < pageCount; p++) {
+    const title = `${edit.tool} ${edit.filePath}${pageCount > 1 ? ` (${p + 1}/${pageCount})` : ""}`;
+    pages.push(renderPage(title, lines.slice(p * LINES_PER_PAGE, (p + 1) * LINES_PER_PAGE), language));
+  }
+  return pages;
+}
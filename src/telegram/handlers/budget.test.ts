@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../logger.js", () => ({
+  log: vi.fn(),
+}));
+
+vi.mock("../../session/tmux.js", () => ({
+  findClaudePane: vi.fn().mockResolvedValue({ found: true, paneId: "%3" }),
+  sendRawKeyToPane: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../notifications.js", () => ({
+  sendPing: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./timer.js", () => ({
+  stopTimer: vi.fn().mockReturnValue({ frequencyMin: 10, prompt: "keep going" }),
+}));
+
+import { enforceBudget } from "./budget.js";
+import { BudgetTracker } from "../../session/budget.js";
+import { findClaudePane, sendRawKeyToPane } from "../../session/tmux.js";
+import { sendPing } from "../notifications.js";
+import { stopTimer } from "./timer.js";
+import type { SessionUsage } from "../../session/usage.js";
+
+function usage(output: number): SessionUsage {
+  return {
+    sessionId: "abcdef1234",
+    cliName: "claude",
+    projectName: "shop",
+    cwd: "/repos/shop",
+    records: [{ usage: { input: 0, output, cacheWrite: 0, cacheRead: 0 }, model: "claude-sonnet-4" }],
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("enforceBudget", () => {
+  it("only warns below the limit", async () => {
+    const tracker = new BudgetTracker({ session: { tokens: 1000 }, onLimit: { escape: true, pauseTimer: true } });
+    await enforceBudget(tracker, usage(850));
+
+    expect(sendPing).toHaveBeenCalledWith("⚠️ Session `shop` (claude abcdef12) passed 80% of its budget: 850 of 1.0k tokens");
+    expect(stopTimer).not.toHaveBeenCalled();
+    expect(sendRawKeyToPane).not.toHaveBeenCalled();
+  });
+
+  it("pauses the timer and interrupts the session at the limit", async () => {
+    const tracker = new BudgetTracker({ session: { tokens: 1000 }, onLimit: { escape: true, pauseTimer: true } });
+    await enforceBudget(tracker, usage(1200));
+
+    expect(findClaudePane).toHaveBeenCalledWith("/repos/shop");
+    expect(sendRawKeyToPane).toHaveBeenCalledWith("%3", "Escape");
+    const text = vi.mocked(sendPing).mock.calls[0][0];
+    expect(text).toMatch(/^🛑 Session `shop` .* reached its budget: 1\.2k of 1\.0k tokens/);
+    expect(text).toContain("Paused the timer (every 10 min).");
+    expect(text).toContain("Sent Escape to `shop`.");
+  });
+
+  it("leaves the session alone unless onLimit asks for it", async () => {
+    const tracker = new BudgetTracker({ daily: { cost: 0.01 } });
+    await enforceBudget(tracker, usage(1200));
+
+    expect(sendPing).toHaveBeenCalledWith(expect.stringMatching(/^🛑 Today's usage reached its budget: ~\$0\.02 of \$0\.01/));
+    expect(stopTimer).not.toHaveBeenCalled();
+    expect(sendRawKeyToPane).not.toHaveBeenCalled();
+  });
+});
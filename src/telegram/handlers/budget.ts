@@ -0,0 +1,38 @@
+import { log } from "../../logger.js";
+import { describeBudget, type BudgetAlert, type BudgetTracker } from "../../session/budget.js";
+import { findClaudePane, sendRawKeyToPane } from "../../session/tmux.js";
+import type { SessionUsage } from "../../session/usage.js";
+import { sendPing } from "../notifications.js";
+import { stopTimer } from "./timer.js";
+
+export function formatBudgetAlert(alert: BudgetAlert): string {
+  const { session } = alert;
+  const subject = alert.scope === "daily"
+    ? "Today's usage"
+    : `Session \`${session.projectName}\` (${session.cliName} ${session.sessionId.slice(0, 8)})`;
+  const reached = alert.threshold >= 1 ? "reached its budget" : `passed ${Math.round(alert.threshold * 100)}% of its budget`;
+  return `${alert.threshold >= 1 ? "🛑" : "⚠️"} ${subject} ${reached}: ${describeBudget(alert.totals, alert.limit)}`;
+}
+
+/** Warn about newly crossed budget thresholds and apply the `onLimit` actions at 100%. */
+export async function enforceBudget(tracker: BudgetTracker, usage: SessionUsage): Promise<void> {
+  for (const alert of tracker.update(usage)) {
+    const lines = [formatBudgetAlert(alert)];
+    if (alert.threshold >= 1) {
+      const { escape, pauseTimer } = tracker.config.onLimit ?? {};
+      if (pauseTimer) {
+        const stopped = stopTimer();
+        if (stopped) lines.push(`Paused the timer (every ${stopped.frequencyMin} min). Use /timer to start it again.`);
+      }
+      if (escape && usage.cwd) {
+        const pane = await findClaudePane(usage.cwd).catch(() => ({ found: false as const }));
+        if (pane.found) {
+          await sendRawKeyToPane(pane.paneId, "Escape");
+          lines.push(`Sent Escape to \`${usage.projectName}\`.`);
+        }
+      }
+    }
+    log({ message: `budget: ${alert.scope} ${Math.round(alert.threshold * 100)}% (${usage.sessionId.slice(0, 8)})` });
+    await sendPing(lines.join("\n"));
+  }
+}
@@ -0,0 +1,47 @@
+import { type Context, InputFile, InputMediaBuilder } from "grammy";
+import { log } from "../../../logger.js";
+import { getDiffs } from "../../notifications.js";
+import { renderDiffAsPngs } from "../../diffImage.js";
+
+// Telegram albums hold at most 10 photos
+const ALBUM_SIZE = 10;
+
+export async function handleDiffsCallback(ctx: Context, data: string): Promise<void> {
+  const key = data.slice("diffs:".length);
+  const edits = getDiffs(key);
+  if (!edits || edits.length === 0) {
+    await ctx.answerCallbackQuery({ text: "Diffs no longer available." });
+    return;
+  }
+  await ctx.answerCallbackQuery({ text: "Rendering…" });
+
+  const photos: { png: Buffer; caption: string }[] = [];
+  for (const edit of edits) {
+    try {
+      for (const png of renderDiffAsPngs(edit)) photos.push({ png, caption: `${edit.tool} ${edit.filePath}` });
+    } catch (err) {
+      log({ message: `diff render error for ${edit.filePath}: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
+  if (photos.length === 0) {
+    await ctx.reply("Could not render the diffs.");
+    return;
+  }
+
+  try {
+    if (photos.length === 1) {
+      await ctx.replyWithPhoto(new InputFile(photos[0].png, "diff.png"), { caption: photos[0].caption });
+      return;
+    }
+    for (let i = 0; i < photos.length; i += ALBUM_SIZE) {
+      await ctx.replyWithMediaGroup(
+        photos.slice(i, i + ALBUM_SIZE).map(({ png, caption }, j) =>
+          InputMediaBuilder.photo(new InputFile(png, `diff-${i + j + 1}.png`), { caption })
+        )
+      );
+    }
+  } catch (err) {
+    log({ message: `diff send error: ${err instanceof Error ? err.message : String(err)}` });
+    await ctx.reply("Could not send the diffs — try again?");
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Context } from "grammy";
+import { handleHistoryCallback } from "./history.js";
+import { sendHistory, renderTurn } from "../history.js";
+import { getAttachedSession, readSessionLines } from "../../../session/history.js";
+import { adapterForCwd } from "../../../session/adapters/index.js";
+import { extractTranscript } from "../../../session/jsonl.js";
+
+vi.mock("../../../session/history.js", () => ({
+  getAttachedSession: vi.fn(),
+  readSessionLines: vi.fn(),
+  PROJECTS_PATH: "/projects",
+}));
+
+vi.mock("../../../session/adapters/index.js", () => ({
+  adapterForCwd: vi.fn(),
+}));
+
+function claudeLine(type: "user" | "assistant", text: string): string {
+  return JSON.stringify({ type, message: { content: [{ type: "text", text }] } });
+}
+
+function makeCtx() {
+  return {
+    answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+    editMessageText: vi.fn().mockResolvedValue(undefined),
+    reply: vi.fn().mockResolvedValue(undefined),
+  } as unknown as Context;
+}
+
+function buttons(markup: { inline_keyboard: { text: string; callback_data?: string }[][] }) {
+  return markup.inline_keyboard.flat().map((b) => b.callback_data);
+}
+
+describe("/history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAttachedSession).mockResolvedValue({ sessionId: "s1", cwd: "/repos/shop" });
+    vi.mocked(adapterForCwd).mockResolvedValue({
+      adapter: { name: "claude", readTranscript: extractTranscript } as any,
+      file: { filePath: "/projects/-repos-shop/s1.jsonl", sessionId: "s1" },
+    });
+    vi.mocked(readSessionLines).mockResolvedValue([
+      claudeLine("user", "first prompt"),
+      claudeLine("assistant", "first reply"),
+      claudeLine("user", "second prompt"),
+      claudeLine("assistant", "second reply"),
+    ]);
+  });
+
+  it("opens on the latest turn with only a Prev button", async () => {
+    const ctx = makeCtx();
+    await sendHistory(ctx);
+
+    const [text, opts] = vi.mocked(ctx.reply).mock.calls[0] as [string, any];
+    expect(text).toBe("shop · turn 2/2\n\n👤 second prompt\n\n🤖 second reply");
+    expect(buttons(opts.reply_markup)).toEqual([expect.stringMatching(/^history:\w+:0$/)]);
+  });
+
+  it("pages by editing the message in place", async () => {
+    const first = makeCtx();
+    await sendHistory(first);
+    const [prev] = buttons((vi.mocked(first.reply).mock.calls[0] as [string, any])[1].reply_markup);
+    const ctx = makeCtx();
+    await handleHistoryCallback(ctx, prev!);
+
+    const [text, opts] = vi.mocked(ctx.editMessageText).mock.calls[0] as [string, any];
+    expect(text).toBe("shop · turn 1/2\n\n👤 first prompt\n\n🤖 first reply");
+    expect(buttons(opts.reply_markup)).toEqual([prev!.replace(/0$/, "1")]);
+    expect(ctx.reply).not.toHaveBeenCalled();
+  });
+
+  it("keeps each message paging its own session", async () => {
+    const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+    const shop = makeCtx();
+    await sendHistory(shop);
+    const [shopPrev] = buttons((vi.mocked(shop.reply).mock.calls[0] as [string, any])[1].reply_markup);
+
+    now.mockReturnValue(2000);
+    vi.mocked(getAttachedSession).mockResolvedValue({ sessionId: "s2", cwd: "/repos/blog" });
+    await sendHistory(makeCtx());
+    now.mockRestore();
+
+    const ctx = makeCtx();
+    await handleHistoryCallback(ctx, shopPrev!);
+    expect(vi.mocked(ctx.editMessageText).mock.calls[0][0]).toMatch(/^shop · turn 1\/2/);
+  });
+
+  it("reads the transcript through the session's adapter", async () => {
+    vi.mocked(adapterForCwd).mockResolvedValue({
+      adapter: { name: "mycli" } as any,
+      file: { filePath: "/tmp/s1.jsonl", sessionId: "s1" },
+    });
+    const ctx = makeCtx();
+    await sendHistory(ctx);
+    expect(ctx.reply).toHaveBeenCalledWith("History isn't available for mycli sessions yet.");
+  });
+
+  it("tells the user when nothing is attached", async () => {
+    vi.mocked(getAttachedSession).mockResolvedValue(null);
+    const ctx = makeCtx();
+    await sendHistory(ctx);
+    expect(ctx.reply).toHaveBeenCalledWith("No session attached. Use /sessions to pick one.");
+  });
+});
+
+describe("renderTurn", () => {
+  it("lists tool calls and keeps the end of a long reply", () => {
+    const text = renderTurn(
+      { prompt: "do it", replies: ["x".repeat(3000), "Done."], tools: Array.from({ length: 12 }, (_, i) => `Bash step ${i}`) },
+      0, 1, "shop"
+    );
+    expect(text).toContain("🔧 Bash step 9\n… and 2 more tool calls");
+    expect(text).not.toContain("Bash step 10");
+    expect(text.endsWith("Done.")).toBe(true);
+    expect(text).toContain("🤖 …");
+  });
+
+  it("fits a maximal turn into one Telegram message", () => {
+    const tools = Array.from({ length: 12 }, (_, i) => `Bash ${String(i).padEnd(75, "x")}`);
+    const text = renderTurn(
+      { prompt: "p".repeat(5000), replies: ["r".repeat(10_000), "Done."], tools },
+      998, 999, "a-project-with-a-long-name"
+    );
+    expect(text.length).toBeLessThanOrEqual(4096);
+    expect(text.endsWith("Done.")).toBe(true);
+    expect(text).toContain("… and 2 more tool calls");
+  });
+});
@@ -0,0 +1,25 @@
+import type { Context } from "grammy";
+import { getHistoryView, historyKeyboard, loadTurns, renderTurn } from "../history.js";
+
+export async function handleHistoryCallback(ctx: Context, data: string): Promise<void> {
+  const [, viewId, position] = data.split(":");
+  const view = getHistoryView(viewId ?? "");
+  if (!view) {
+    await ctx.answerCallbackQuery({ text: "History expired — run /history again." });
+    return;
+  }
+  const turns = await loadTurns(view).catch(() => []);
+  const index = Math.min(Number(position), turns.length - 1);
+  if (!(index >= 0)) {
+    await ctx.answerCallbackQuery({ text: "Could not read that transcript anymore." });
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+  // Page in place so the chat doesn't fill up with one message per turn.
+  await ctx
+    .editMessageText(renderTurn(turns[index], index, turns.length, view.projectName), {
+      reply_markup: historyKeyboard(viewId, index, turns.length),
+    })
+    .catch(() => {});
+}
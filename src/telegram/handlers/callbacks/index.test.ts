@@ -13,6 +13,8 @@ vi.mock("./images.js", () => ({
 vi.mock("./model.js", () => ({ handleModelCallback: vi.fn() }));
 vi.mock("./detach.js", () => ({ handleDetachCallback: vi.fn() }));
 vi.mock("./timer.js", () => ({ handleTimerCallback: vi.fn() }));
+vi.mock("./diffs.js", () => ({ handleDiffsCallback: vi.fn() }));
+vi.mock("./longResponse.js", () => ({ handleLongResponseCallback: vi.fn() }));
 
 import { registerCallbacks } from "./index.js";
 import { handleWaitingCallback } from "./waiting.js";
@@ -23,6 +25,8 @@ import { handleImagesCallback } from "./images.js";
 import { handleModelCallback } from "./model.js";
 import { handleDetachCallback } from "./detach.js";
 import { handleTimerCallback } from "./timer.js";
+import { handleDiffsCallback } from "./diffs.js";
+import { handleLongResponseCallback } from "./longResponse.js";
 
 describe("registerCallbacks", () => {
   let callbackHandler: (ctx: any) => Promise<void>;
@@ -96,6 +100,18 @@ describe("registerCallbacks", () => {
     expect(handleTimerCallback).toHaveBeenCalledWith(ctx, "timer:confirm");
   });
 
+  it("routes 'diffs:' prefix to handleDiffsCallback", async () => {
+    const ctx = makeCtx("diffs:abc-123");
+    await callbackHandler(ctx);
+    expect(handleDiffsCallback).toHaveBeenCalledWith(ctx, "diffs:abc-123");
+  });
+
+  it("routes 'longresp:' prefix to handleLongResponseCallback", async () => {
+    const ctx = makeCtx("longresp:full:abc-123");
+    await callbackHandler(ctx);
+    expect(handleLongResponseCallback).toHaveBeenCalledWith(ctx, "longresp:full:abc-123");
+  });
+
   it("does not call any handler for unknown prefix", async () => {
     const ctx = makeCtx("unknown:data");
     await callbackHandler(ctx);
@@ -107,6 +123,8 @@ describe("registerCallbacks", () => {
     expect(handleModelCallback).not.toHaveBeenCalled();
     expect(handleDetachCallback).not.toHaveBeenCalled();
     expect(handleTimerCallback).not.toHaveBeenCalled();
+    expect(handleDiffsCallback).not.toHaveBeenCalled();
+    expect(handleLongResponseCallback).not.toHaveBeenCalled();
   });
 
   it("only calls the first matching handler (waiting: short-circuits)", async () => {
@@ -7,9 +7,14 @@ import { handleImagesCallback } from "./images.js";
 import { handleModelCallback } from "./model.js";
 import { handleDetachCallback } from "./detach.js";
 import { handleTimerCallback } from "./timer.js";
+import { handleSearchCallback } from "./search.js";
+import { handleHistoryCallback } from "./history.js";
+import { handleDiffsCallback } from "./diffs.js";
+import { handleLongResponseCallback } from "./longResponse.js";
 
-// Re-export image state used by text.ts
+// Re-export image and deny-reason state used by text.ts and voice.ts
 export { pendingImages, pendingImageCount, clearPendingImageCount } from "./images.js";
+export { pendingPermissionReply, handlePermissionReply } from "./permissions.js";
 
 export function registerCallbacks(bot: Bot): void {
   bot.on("callback_query:data", async (ctx) => {
@@ -54,5 +59,25 @@ export function registerCallbacks(bot: Bot): void {
       await handleTimerCallback(ctx, data);
       return;
     }
+
+    if (data.startsWith("search:")) {
+      await handleSearchCallback(ctx, data);
+      return;
+    }
+
+    if (data.startsWith("history:")) {
+      await handleHistoryCallback(ctx, data);
+      return;
+    }
+
+    if (data.startsWith("diffs:")) {
+      await handleDiffsCallback(ctx, data);
+      return;
+    }
+
+    if (data.startsWith("longresp:")) {
+      await handleLongResponseCallback(ctx, data);
+      return;
+    }
   });
 }
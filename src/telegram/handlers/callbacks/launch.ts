@@ -1,7 +1,8 @@
 import type { Bot, Context } from "grammy";
 import { log } from "../../../logger.js";
 import { ATTACHED_SESSION_PATH } from "../../../session/history.js";
-import { findClaudePane, launchClaudeInWindow } from "../../../session/tmux.js";
+import { findClaudePane, launchInWindow } from "../../../session/tmux.js";
+import { adapters } from "../../../session/adapters/index.js";
 import { pendingSessions, setLaunchedPaneId } from "../sessions.js";
 import { writeFile, mkdir } from "fs/promises";
 import { homedir } from "os";
@@ -13,10 +14,15 @@ export async function handleLaunchCallback(ctx: Context, data: string, bot: Bot)
     return;
   }
 
-  const skipPermissions = data.startsWith("launch:skip:");
-  const sessionId = skipPermissions
-    ? data.slice("launch:skip:".length)
-    : data.slice("launch:".length);
+  // launch:<adapter>:<option index>:<sessionId>
+  const match = data.match(/^launch:([^:]+):(\d+):(.+)$/);
+  const adapter = match ? adapters.find((a) => a.name === match[1]) : undefined;
+  const option = match ? adapter?.launch?.options[Number(match[2])] : undefined;
+  if (!match || !adapter?.launch || !option) {
+    await ctx.answerCallbackQuery({ text: "Unknown launch option — try /sessions again." });
+    return;
+  }
+  const sessionId = match[3];
 
   const session = pendingSessions.get(sessionId);
   if (!session) {
@@ -24,12 +30,14 @@ export async function handleLaunchCallback(ctx: Context, data: string, bot: Bot)
     return;
   }
 
+  const label = adapter.launch.label;
+  const command = [adapter.launch.command, ...option.args].join(" ");
   let paneId: string;
   try {
-    paneId = await launchClaudeInWindow(session.cwd, session.projectName, skipPermissions);
+    paneId = await launchInWindow(session.cwd, session.projectName, command);
   } catch (err) {
     await ctx.answerCallbackQuery({ text: "Failed to launch tmux window." });
-    log({ message: `launchClaudeInWindow error: ${err instanceof Error ? err.message : String(err)}` });
+    log({ message: `launchInWindow error: ${err instanceof Error ? err.message : String(err)}` });
     return;
   }
 
@@ -38,13 +46,12 @@ export async function handleLaunchCallback(ctx: Context, data: string, bot: Bot)
   setLaunchedPaneId(paneId);
 
   await ctx.answerCallbackQuery({ text: "Launched!" });
-  const flag = skipPermissions ? " with `--dangerously-skip-permissions`" : "";
   await ctx.editMessageText(
-    `Launching Claude Code${flag} at \`${session.projectName}\`… I'll notify you when it's ready.`,
+    `Launching ${label} (\`${command}\`) at \`${session.projectName}\`… I'll notify you when it's ready.`,
     { parse_mode: "Markdown" }
   );
 
-  // Poll in the background until Claude Code's pane is detectable, then notify.
+  // Poll in the background until the agent's pane is detectable, then notify.
   const chatId = ctx.chat!.id;
   const projectName = session.projectName;
   const cwd = session.cwd;
@@ -54,10 +61,10 @@ export async function handleLaunchCallback(ctx: Context, data: string, bot: Bot)
       await new Promise((r) => setTimeout(r, 2000));
       const found = await findClaudePane(cwd).catch(() => ({ found: false as const, reason: "no_tmux" as const }));
       if (found.found) {
-        await bot.api.sendMessage(chatId, `✅ Claude Code is ready at \`${projectName}\`. Send your first message.`, { parse_mode: "Markdown" });
+        await bot.api.sendMessage(chatId, `✅ ${label} is ready at \`${projectName}\`. Send your first message.`, { parse_mode: "Markdown" });
         return;
       }
     }
-    await bot.api.sendMessage(chatId, `⚠️ Claude Code at \`${projectName}\` didn't start within 60s — check the tmux window.`, { parse_mode: "Markdown" });
+    await bot.api.sendMessage(chatId, `⚠️ ${label} at \`${projectName}\` didn't start within 60s — check the tmux window.`, { parse_mode: "Markdown" });
   })().catch((err) => log({ message: `launch ready-poll error: ${err instanceof Error ? err.message : String(err)}` }));
 }
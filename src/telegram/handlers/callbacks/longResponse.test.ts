@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Context } from "grammy";
+import { handleLongResponseCallback } from "./longResponse.js";
+import { getLongResponse } from "../../notifications.js";
+import { sendMarkdownReply } from "../../utils.js";
+import { summarizeResponse } from "../../../agent/summarizer.js";
+
+vi.mock("../../notifications.js", () => ({ getLongResponse: vi.fn() }));
+vi.mock("../../utils.js", () => ({ sendMarkdownReply: vi.fn().mockResolvedValue(undefined) }));
+vi.mock("../../../agent/summarizer.js", () => ({ summarizeResponse: vi.fn() }));
+vi.mock("../../../logger.js", () => ({ log: vi.fn() }));
+
+function makeCtx() {
+  return {
+    answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+    reply: vi.fn().mockResolvedValue(undefined),
+  } as unknown as Context;
+}
+
+describe("handleLongResponseCallback", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("sends the full text in chat", async () => {
+    vi.mocked(getLongResponse).mockReturnValue("the whole reply");
+    const ctx = makeCtx();
+    await handleLongResponseCallback(ctx, "longresp:full:abc-1");
+    expect(getLongResponse).toHaveBeenCalledWith("abc-1");
+    expect(sendMarkdownReply).toHaveBeenCalledWith(ctx, "the whole reply");
+  });
+
+  it("replies with a summary, or an error when summarizing fails", async () => {
+    vi.mocked(getLongResponse).mockReturnValue("the whole reply");
+    vi.mocked(summarizeResponse).mockResolvedValueOnce("Short version.").mockRejectedValueOnce(new Error("429"));
+    const ctx = makeCtx();
+    await handleLongResponseCallback(ctx, "longresp:summary:abc-1");
+    expect(ctx.reply).toHaveBeenCalledWith("Short version.");
+    await handleLongResponseCallback(ctx, "longresp:summary:abc-1");
+    expect(ctx.reply).toHaveBeenLastCalledWith("Could not summarize the reply — try again?");
+  });
+
+  it("explains when the reply is no longer tracked", async () => {
+    vi.mocked(getLongResponse).mockReturnValue(undefined);
+    const ctx = makeCtx();
+    await handleLongResponseCallback(ctx, "longresp:full:gone");
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "That reply is no longer available — open the attached file." });
+    expect(sendMarkdownReply).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,30 @@
+import type { Context } from "grammy";
+import { log } from "../../../logger.js";
+import { getLongResponse } from "../../notifications.js";
+import { sendMarkdownReply } from "../../utils.js";
+import { summarizeResponse } from "../../../agent/summarizer.js";
+
+export async function handleLongResponseCallback(ctx: Context, data: string): Promise<void> {
+  const [, action, key] = data.split(":");
+  const text = getLongResponse(key ?? "");
+  if (text === undefined) {
+    await ctx.answerCallbackQuery({ text: "That reply is no longer available — open the attached file." });
+    return;
+  }
+
+  if (action === "full") {
+    await ctx.answerCallbackQuery();
+    await sendMarkdownReply(ctx, text);
+    return;
+  }
+
+  if (action === "summary") {
+    await ctx.answerCallbackQuery({ text: "Summarizing…" });
+    try {
+      await ctx.reply(await summarizeResponse(text));
+    } catch (err) {
+      log({ message: `long response summary error: ${err instanceof Error ? err.message : String(err)}` });
+      await ctx.reply("Could not summarize the reply — try again?");
+    }
+  }
+}
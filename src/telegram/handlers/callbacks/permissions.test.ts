@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import type { Context } from "grammy";
-import { handlePermissionCallback } from "./permissions.js";
+import { handlePermissionCallback, handlePermissionReply, pendingPermissionReply } from "./permissions.js";
 import { log } from "../../../logger.js";
 import { getAttachedSession } from "../../../session/history.js";
-import { respondToPermission } from "../../../session/permissions.js";
-import { findClaudePane, sendKeysToPane, sendRawKeyToPane } from "../../../session/tmux.js";
+import { isPermissionPending, respondToPermission } from "../../../session/permissions.js";
+import { capturePaneContent, findClaudePane, injectInput, sendKeysToPane, sendRawKeyToPane } from "../../../session/tmux.js";
+import { respondToCodexApproval } from "../../../session/codex-approvals.js";
+import { permissionRules } from "../../../session/permission-rules.js";
+import { getPermissionRequest } from "../../notifications.js";
 
 vi.mock("../../../logger.js", () => ({
   log: vi.fn(),
@@ -16,18 +19,35 @@ vi.mock("../../../session/history.js", () => ({
 
 vi.mock("../../../session/permissions.js", () => ({
   respondToPermission: vi.fn().mockResolvedValue(undefined),
+  isPermissionPending: vi.fn().mockResolvedValue(true),
 }));
 
 vi.mock("../../../session/tmux.js", () => ({
   findClaudePane: vi.fn(),
+  capturePaneContent: vi.fn().mockResolvedValue("Do you want to proceed?\n❯ 1. Yes\n  2. No"),
   sendKeysToPane: vi.fn().mockResolvedValue(undefined),
   sendRawKeyToPane: vi.fn().mockResolvedValue(undefined),
+  injectInput: vi.fn().mockResolvedValue({ found: true, paneId: "%1" }),
+}));
+
+vi.mock("../../../session/codex-approvals.js", () => ({
+  isCodexApprovalRequest: (id: string) => id.startsWith("codex-"),
+  respondToCodexApproval: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock("../../../session/permission-rules.js", () => ({
+  permissionRules: { rememberAllow: vi.fn().mockResolvedValue("always allowed in proj") },
+}));
+
+vi.mock("../../notifications.js", () => ({
+  getPermissionRequest: vi.fn(),
 }));
 
 function makeCtx() {
   return {
     answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
     editMessageReplyMarkup: vi.fn().mockResolvedValue(undefined),
+    reply: vi.fn().mockResolvedValue(undefined),
   } as unknown as Context;
 }
 
@@ -92,15 +112,15 @@ describe("handlePermissionCallback", () => {
     expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Approved ✅" });
   });
 
-  it("respondToPermission error: logs error, still answers callback", async () => {
+  it("respondToPermission error: logs error and says the answer wasn't sent", async () => {
     const ctx = makeCtx();
-    vi.mocked(respondToPermission).mockRejectedValue(new Error("file not found"));
+    vi.mocked(respondToPermission).mockRejectedValueOnce(new Error("file not found"));
     vi.mocked(getAttachedSession).mockResolvedValue(null);
 
     await handlePermissionCallback(ctx, "perm:approve:req-err");
 
     expect(log).toHaveBeenCalledWith({ message: "respondToPermission error: file not found" });
-    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Approved ✅" });
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Couldn't send the answer." });
   });
 
   it("pane not found: does not send keys, still answers callback", async () => {
@@ -114,4 +134,252 @@ describe("handlePermissionCallback", () => {
     expect(sendKeysToPane).not.toHaveBeenCalled();
     expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Approved ✅" });
   });
+
+  it("a request answered in the terminal or expired: says so and sends nothing", async () => {
+    const ctx = makeCtx();
+    vi.mocked(isPermissionPending).mockResolvedValueOnce(false);
+
+    await handlePermissionCallback(ctx, "perm:approve:req-done");
+
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(findClaudePane).not.toHaveBeenCalled();
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "No longer pending." });
+  });
+
+  it("dialog no longer on screen: answers the hook but sends no keys", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getAttachedSession).mockResolvedValue({ sessionId: "s1", cwd: "/proj" });
+    vi.mocked(findClaudePane).mockResolvedValue({ found: true, paneId: "%1" });
+    vi.mocked(capturePaneContent).mockResolvedValueOnce("> ");
+
+    await handlePermissionCallback(ctx, "perm:deny:req-gone-dialog");
+
+    expect(respondToPermission).toHaveBeenCalledWith("req-gone-dialog", "deny");
+    expect(sendRawKeyToPane).not.toHaveBeenCalled();
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Denied ❌" });
+  });
+
+  it("codex approvals are answered in the Codex pane, not through the hook", async () => {
+    const ctx = makeCtx();
+
+    await handlePermissionCallback(ctx, "perm:deny:codex-call_1");
+
+    expect(respondToCodexApproval).toHaveBeenCalledWith("codex-call_1", "deny");
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(findClaudePane).not.toHaveBeenCalled();
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Denied ❌" });
+  });
+
+  it("codex approvals that are no longer pending say so", async () => {
+    const ctx = makeCtx();
+    vi.mocked(respondToCodexApproval).mockResolvedValueOnce(false);
+
+    await handlePermissionCallback(ctx, "perm:approve:codex-call_2");
+
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "No longer pending." });
+    expect(ctx.editMessageReplyMarkup).toHaveBeenCalled();
+  });
+
+  it("always allow: approves, then records the rule", async () => {
+    const ctx = makeCtx();
+    const req = { requestId: "req-a", toolName: "Bash", toolInput: "", toolCommand: "npm test", filePath: "", cwd: "/proj" };
+    vi.mocked(getPermissionRequest).mockReturnValue(req);
+    vi.mocked(getAttachedSession).mockResolvedValue(null);
+
+    await handlePermissionCallback(ctx, "perm:always-cmd:req-a");
+
+    expect(permissionRules.rememberAllow).toHaveBeenCalledWith(req, "command");
+    expect(respondToPermission).toHaveBeenCalledWith("req-a", "approve");
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Approved ✅ — always allowed in proj" });
+  });
+
+  it("allow for session: still approves when the rule can't be recorded", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({ requestId: "codex-call_3", toolName: "Bash", toolInput: "", filePath: "" });
+    vi.mocked(permissionRules.rememberAllow).mockRejectedValueOnce(new Error("session unknown"));
+
+    await handlePermissionCallback(ctx, "perm:session:codex-call_3");
+
+    expect(log).toHaveBeenCalledWith({ message: "rememberAllow error: session unknown" });
+    expect(respondToCodexApproval).toHaveBeenCalledWith("codex-call_3", "approve");
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Approved ✅" });
+  });
+
+  it("always allow on an expired prompt: records no rule", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({ requestId: "req-old", toolName: "Bash", toolInput: "", toolCommand: "rm -rf dist", filePath: "", cwd: "/proj" });
+    vi.mocked(isPermissionPending).mockResolvedValueOnce(false);
+
+    await handlePermissionCallback(ctx, "perm:always-cmd:req-old");
+
+    expect(permissionRules.rememberAllow).not.toHaveBeenCalled();
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "No longer pending." });
+  });
+
+  it("always allow when the answer can't be written: records no rule", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({ requestId: "req-w", toolName: "Bash", toolInput: "", toolCommand: "make", filePath: "", cwd: "/proj" });
+    vi.mocked(respondToPermission).mockRejectedValueOnce(new Error("EACCES"));
+    vi.mocked(getAttachedSession).mockResolvedValue(null);
+
+    await handlePermissionCallback(ctx, "perm:always-tool:req-w");
+
+    expect(permissionRules.rememberAllow).not.toHaveBeenCalled();
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "Couldn't send the answer." });
+  });
+
+  it("always allow for a forgotten request: approves nothing", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue(undefined);
+
+    await handlePermissionCallback(ctx, "perm:always-tool:req-gone");
+
+    expect(permissionRules.rememberAllow).not.toHaveBeenCalled();
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "No longer pending." });
+  });
+
+  it("deny with reason: asks for the reason, then denies with it through the hook", async () => {
+    vi.useFakeTimers();
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({ requestId: "req-r", toolName: "Bash", toolInput: "", filePath: "", cwd: "/repo" });
+    vi.mocked(findClaudePane).mockResolvedValue({ found: true, paneId: "%2" });
+
+    await handlePermissionCallback(ctx, "perm:deny-reason:req-r");
+    expect(pendingPermissionReply).toEqual({ kind: "reason", requestId: "req-r", cwd: "/repo" });
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(ctx.reply).toHaveBeenCalledWith("Why deny? Send the reason as a text or voice message.");
+
+    const done = handlePermissionReply(ctx, " use pnpm instead ");
+    await vi.runAllTimersAsync();
+    await done;
+    vi.useRealTimers();
+
+    expect(respondToPermission).toHaveBeenCalledWith("req-r", "deny", { reason: "use pnpm instead" });
+    expect(findClaudePane).toHaveBeenCalledWith("/repo");
+    expect(sendRawKeyToPane).toHaveBeenCalledWith("%2", "Escape");
+    expect(injectInput).not.toHaveBeenCalled();
+    expect(ctx.reply).toHaveBeenLastCalledWith("Denied ❌ — reason sent.");
+    expect(pendingPermissionReply).toBeNull();
+  });
+
+  it("deny with reason for Codex: types the reason into its pane and says when it couldn't", async () => {
+    vi.useFakeTimers();
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({ requestId: "codex-call_9", toolName: "Bash", toolInput: "", filePath: "", cwd: "/repo" });
+
+    await handlePermissionCallback(ctx, "perm:deny-reason:codex-call_9");
+    vi.mocked(injectInput).mockResolvedValueOnce({ found: false, reason: "no_claude_pane" });
+    const done = handlePermissionReply(ctx, "use pnpm");
+    await vi.runAllTimersAsync();
+    await done;
+    vi.useRealTimers();
+
+    expect(respondToCodexApproval).toHaveBeenCalledWith("codex-call_9", "deny");
+    expect(injectInput).toHaveBeenCalledWith("/repo", "use pnpm");
+    expect(ctx.reply).toHaveBeenLastCalledWith("Denied ❌ — but the reason couldn't be typed into the agent's pane.");
+  });
+
+  it("deny with reason: a reply after the request was answered elsewhere is not used", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({ requestId: "req-x", toolName: "Bash", toolInput: "", filePath: "", cwd: "/repo" });
+
+    await handlePermissionCallback(ctx, "perm:deny-reason:req-x");
+    vi.mocked(isPermissionPending).mockResolvedValueOnce(false);
+    await handlePermissionReply(ctx, "too late");
+
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(injectInput).not.toHaveBeenCalled();
+    expect(ctx.reply).toHaveBeenLastCalledWith("That request is no longer pending.");
+  });
+
+  it("answering with a button drops a pending reason request", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({ requestId: "req-y", toolName: "Bash", toolInput: "", filePath: "", cwd: "/repo" });
+    vi.mocked(getAttachedSession).mockResolvedValue(null);
+
+    await handlePermissionCallback(ctx, "perm:deny-reason:req-y");
+    await handlePermissionCallback(ctx, "perm:approve:req-y");
+
+    expect(pendingPermissionReply).toBeNull();
+  });
+
+  it("deny with reason for an expired request: doesn't wait for a reason", async () => {
+    const ctx = makeCtx();
+    vi.mocked(isPermissionPending).mockResolvedValueOnce(false);
+
+    await handlePermissionCallback(ctx, "perm:deny-reason:req-old");
+
+    expect(pendingPermissionReply).toBeNull();
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "No longer pending." });
+  });
+
+  it("edit command: offers the full command, then has Claude run the edited one through the hook", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({
+      requestId: "req-e", toolName: "Bash", toolInput: "", toolCommand: "npm test -- a.test", filePath: "", cwd: "/repo",
+      input: { command: "npm test -- a.test.ts", description: "Run tests" }, sessionId: "s1",
+    });
+    vi.mocked(findClaudePane).mockResolvedValue({ found: true, paneId: "%2" });
+
+    await handlePermissionCallback(ctx, "perm:edit:req-e");
+    expect(ctx.reply).toHaveBeenLastCalledWith("npm test -- a.test.ts");
+    expect(pendingPermissionReply).toEqual({
+      kind: "edit", requestId: "req-e", cwd: "/repo", input: { command: "npm test -- a.test.ts", description: "Run tests" },
+    });
+
+    await handlePermissionReply(ctx, "npm test -- b.test.ts");
+
+    expect(respondToPermission).toHaveBeenCalledWith("req-e", "approve", {
+      updatedInput: { command: "npm test -- b.test.ts", description: "Run tests" },
+    });
+    // "1" in the dialog would approve the original command
+    expect(sendKeysToPane).not.toHaveBeenCalled();
+    expect(injectInput).not.toHaveBeenCalled();
+    expect(ctx.reply).toHaveBeenLastCalledWith("Edited command sent ✏️");
+  });
+
+  it("edit command for Codex: denies and says when the edited command couldn't be typed in", async () => {
+    vi.useFakeTimers();
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({
+      requestId: "codex-call_5", toolName: "Bash", toolInput: "", toolCommand: "ls", filePath: "", cwd: "/repo",
+    });
+
+    await handlePermissionCallback(ctx, "perm:edit:codex-call_5");
+    vi.mocked(injectInput).mockResolvedValueOnce({ found: false, reason: "no_claude_pane" });
+    const done = handlePermissionReply(ctx, "ls -la");
+    await vi.runAllTimersAsync();
+    await done;
+    vi.useRealTimers();
+
+    expect(respondToCodexApproval).toHaveBeenCalledWith("codex-call_5", "deny");
+    expect(injectInput).toHaveBeenCalledWith("/repo", "Don't run that command — run this edited version instead: ls -la");
+    expect(ctx.reply).toHaveBeenLastCalledWith("Denied ❌ — but the edited command couldn't be typed into the agent's pane.");
+  });
+
+  it("edit command answered elsewhere meanwhile: says so", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue({
+      requestId: "req-f", toolName: "Bash", toolInput: "", toolCommand: "ls", filePath: "", sessionId: "s1",
+    });
+
+    await handlePermissionCallback(ctx, "perm:edit:req-f");
+    vi.mocked(isPermissionPending).mockResolvedValueOnce(false);
+    await handlePermissionReply(ctx, "ls -la");
+
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(ctx.reply).toHaveBeenLastCalledWith("That request is no longer pending.");
+  });
+
+  it("edit command for a forgotten request: says it is no longer pending", async () => {
+    const ctx = makeCtx();
+    vi.mocked(getPermissionRequest).mockReturnValue(undefined);
+
+    await handlePermissionCallback(ctx, "perm:edit:req-gone");
+
+    expect(ctx.answerCallbackQuery).toHaveBeenCalledWith({ text: "No longer pending." });
+    expect(pendingPermissionReply).toBeNull();
+  });
 });
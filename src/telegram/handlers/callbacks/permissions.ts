@@ -1,33 +1,188 @@
 import type { Context } from "grammy";
 import { log } from "../../../logger.js";
 import { getAttachedSession } from "../../../session/history.js";
-import { respondToPermission } from "../../../session/permissions.js";
-import { findClaudePane, sendKeysToPane, sendRawKeyToPane } from "../../../session/tmux.js";
+import { isPermissionPending, respondToPermission } from "../../../session/permissions.js";
+import { isCodexApprovalRequest, respondToCodexApproval } from "../../../session/codex-approvals.js";
+import { injectInput } from "../../../session/tmux.js";
+import { permissionRules, type AllowScope } from "../../../session/permission-rules.js";
+import { fullCommand } from "../../../session/policy.js";
+import { getPermissionRequest } from "../../notifications.js";
+import { pressPermissionKey } from "../policy.js";
+
+// Buttons that approve and also record a rule so the next request like it isn't asked
+const ALLOW_SCOPES: Record<string, AllowScope> = {
+  "always-cmd": "command",
+  "always-tool": "tool",
+  session: "session",
+};
+
+// Set when the user clicked "Deny with reason…" or "Edit command" — the next text
+// or voice message is the reason, or the command to run in place of the asked one
+export let pendingPermissionReply:
+  | { kind: "reason"; requestId: string; cwd?: string }
+  | { kind: "edit"; requestId: string; cwd?: string; input: Record<string, unknown> }
+  | null = null;
+
+/** Stop waiting for a reply to a request that was answered or expired meanwhile. */
+export function clearPendingPermissionReply(requestId: string): void {
+  if (pendingPermissionReply?.requestId === requestId) pendingPermissionReply = null;
+}
+
+// Codex requests are checked when answered: respondToCodexApproval looks at the pane.
+async function isPending(requestId: string): Promise<boolean> {
+  return isCodexApprovalRequest(requestId) || isPermissionPending(requestId);
+}
+
+// "failed" when the answer couldn't be handed over; "reason-lost" when the request
+// was denied but its reason didn't reach the agent
+type AnswerOutcome = "answered" | "not-pending" | "failed" | "reason-lost";
+
+/**
+ * Answer a request through the hook (Claude) or the pane (Codex). A denial
+ * reason or an edited tool input goes back in the hook's response, which Claude
+ * reads; Codex has no hook, so its reason is typed into the pane, where the
+ * agent is waiting to hear what to do instead.
+ */
+async function answerRequest(
+  requestId: string,
+  action: "approve" | "deny",
+  { cwd, reason, updatedInput }: { cwd?: string; reason?: string; updatedInput?: Record<string, unknown> } = {}
+): Promise<AnswerOutcome> {
+  if (isCodexApprovalRequest(requestId)) {
+    // Codex has no hook to answer through — the keystroke in its pane is the answer.
+    const answered = await respondToCodexApproval(requestId, action).catch((err) => {
+      log({ message: `respondToCodexApproval error: ${err instanceof Error ? err.message : String(err)}` });
+      return false;
+    });
+    if (!answered) return "not-pending";
+    if (reason && !(cwd && (await typeReason(cwd, reason)))) return "reason-lost";
+    return "answered";
+  }
+  if (!(await isPermissionPending(requestId))) return "not-pending";
+  const details = reason ? { reason } : updatedInput ? { updatedInput } : undefined;
+  try {
+    await (details ? respondToPermission(requestId, action, details) : respondToPermission(requestId, action));
+  } catch (err) {
+    log({ message: `respondToPermission error: ${err instanceof Error ? err.message : String(err)}` });
+    return "failed";
+  }
+  // Also send the matching key to the Claude Code tmux pane so the terminal
+  // permission dialog is dismissed even if the user is looking at the terminal.
+  // Only while it's on screen: otherwise "1" or Escape would go to Claude itself.
+  // An edited command is answered by the hook alone: "1" would approve the original.
+  const paneCwd = cwd ?? (await getAttachedSession().catch(() => null))?.cwd;
+  if (!updatedInput) await pressPermissionKey(paneCwd, action, { onlyIfPrompting: true });
+  return "answered";
+}
+
+async function typeReason(cwd: string, reason: string): Promise<boolean> {
+  // Give the agent a moment to close the dialog and focus its input
+  await new Promise((r) => setTimeout(r, 600));
+  const result = await injectInput(cwd, reason).catch((err) => {
+    log({ message: `deny reason inject error: ${err instanceof Error ? err.message : String(err)}` });
+    return null;
+  });
+  return result?.found === true;
+}
+
+const NOT_PENDING = "That request is no longer pending.";
+const FAILED = "Couldn't send the answer — answer it in the terminal.";
+
+/**
+ * Deny the request waiting on "Deny with reason…", passing `reason` back to the
+ * agent. For "Edit command" the reply is the revised command, which Claude runs
+ * in place of the asked one; Codex is denied and told to run it instead.
+ */
+export async function handlePermissionReply(ctx: Context, reply: string): Promise<void> {
+  if (!pendingPermissionReply) return;
+  const pending = pendingPermissionReply;
+  pendingPermissionReply = null;
+  const text = reply.trim();
+  if (pending.kind === "reason") {
+    const outcome = await answerRequest(pending.requestId, "deny", { cwd: pending.cwd, reason: text });
+    await ctx.reply({
+      answered: "Denied ❌ — reason sent.",
+      "not-pending": NOT_PENDING,
+      failed: FAILED,
+      "reason-lost": "Denied ❌ — but the reason couldn't be typed into the agent's pane.",
+    }[outcome]);
+    return;
+  }
+
+  const outcome = isCodexApprovalRequest(pending.requestId)
+    ? await answerRequest(pending.requestId, "deny", {
+        cwd: pending.cwd,
+        reason: `Don't run that command — run this edited version instead: ${text}`,
+      })
+    : await answerRequest(pending.requestId, "approve", { cwd: pending.cwd, updatedInput: { ...pending.input, command: text } });
+  await ctx.reply({
+    answered: "Edited command sent ✏️",
+    "not-pending": NOT_PENDING,
+    failed: FAILED,
+    "reason-lost": "Denied ❌ — but the edited command couldn't be typed into the agent's pane.",
+  }[outcome]);
+}
 
 export async function handlePermissionCallback(ctx: Context, data: string): Promise<void> {
   const parts = data.split(":");
-  const action = parts[1];
   const requestId = parts.slice(2).join(":");
-  if (!requestId || (action !== "approve" && action !== "deny")) {
+  const scope = ALLOW_SCOPES[parts[1]];
+  const action = scope ? "approve" : parts[1];
+  if (!requestId || (action !== "approve" && action !== "deny" && action !== "deny-reason" && action !== "edit")) {
     await ctx.answerCallbackQuery({ text: "Invalid permission request." });
     return;
   }
-  await respondToPermission(requestId, action === "deny" ? "deny" : "approve").catch((err) => {
-    log({ message: `respondToPermission error: ${err instanceof Error ? err.message : String(err)}` });
-  });
-  // Also send the matching key to the Claude Code tmux pane so the terminal
-  // permission dialog is dismissed even if the user is looking at the terminal.
-  const attachedForPerm = await getAttachedSession().catch(() => null);
-  if (attachedForPerm) {
-    const pane = await findClaudePane(attachedForPerm.cwd).catch(() => ({ found: false as const, reason: "no_tmux" as const }));
-    if (pane.found) {
-      if (action === "approve") {
-        await sendKeysToPane(pane.paneId, "1").catch(() => {});
-      } else {
-        await sendRawKeyToPane(pane.paneId, "Escape").catch(() => {});
-      }
+
+  if (action === "edit") {
+    const req = getPermissionRequest(requestId);
+    const command = req && fullCommand(req);
+    if (!command || !(await isPending(requestId))) {
+      await ctx.answerCallbackQuery({ text: "No longer pending." });
+      await ctx.editMessageReplyMarkup().catch(() => {});
+      return;
     }
+    pendingPermissionReply = { kind: "edit", requestId, cwd: req.cwd, input: req.input ?? { command } };
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    await ctx.reply("Send the edited command. Current:");
+    await ctx.reply(command);
+    return;
   }
-  await ctx.answerCallbackQuery({ text: action === "deny" ? "Denied ❌" : "Approved ✅" });
+
+  if (action === "deny-reason") {
+    if (!(await isPending(requestId))) {
+      await ctx.answerCallbackQuery({ text: "No longer pending." });
+      await ctx.editMessageReplyMarkup().catch(() => {});
+      return;
+    }
+    pendingPermissionReply = { kind: "reason", requestId, cwd: getPermissionRequest(requestId)?.cwd };
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    await ctx.reply("Why deny? Send the reason as a text or voice message.");
+    return;
+  }
+
+  // Rules are only recorded for approvals that got through: a stale button adds none
+  const req = scope ? getPermissionRequest(requestId) : undefined;
+  if (scope && !req) {
+    await ctx.answerCallbackQuery({ text: "No longer pending." });
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    return;
+  }
+
+  clearPendingPermissionReply(requestId);
+  const outcome = await answerRequest(requestId, action);
+  let approvedText = "Approved ✅";
+  if (scope && req && outcome === "answered") {
+    // Failing to record the rule shouldn't cost the approval itself
+    const note = await permissionRules.rememberAllow(req, scope).catch((err) => {
+      log({ message: `rememberAllow error: ${err instanceof Error ? err.message : String(err)}` });
+      return null;
+    });
+    if (note) approvedText = `Approved ✅ — ${note}`;
+  }
+  await ctx.answerCallbackQuery({
+    text: outcome === "not-pending" ? "No longer pending." : outcome === "failed" ? "Couldn't send the answer." : action === "deny" ? "Denied ❌" : approvedText,
+  });
   await ctx.editMessageReplyMarkup().catch(() => {});
 }
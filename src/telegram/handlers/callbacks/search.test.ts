@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Context } from "grammy";
+import { handleSearchCallback } from "./search.js";
+import { pendingSearches } from "../search.js";
+import { pendingSessions } from "../sessions.js";
+import { handleSessionCallback } from "./sessions.js";
+import { loadHitContext, type SearchHit } from "../../../session/search.js";
+
+vi.mock("./sessions.js", () => ({
+  handleSessionCallback: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../../../session/search.js", () => ({
+  loadHitContext: vi.fn(),
+}));
+
+function makeCtx() {
+  return {
+    answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+    reply: vi.fn().mockResolvedValue(undefined),
+  } as unknown as Context;
+}
+
+const HIT: SearchHit = {
+  sessionId: "s-shop",
+  filePath: "/p/s-shop.jsonl",
+  cliName: "claude",
+  cwd: "/repos/shop",
+  projectName: "shop",
+  kind: "assistant",
+  snippet: "Fixed the migration",
+  line: 3,
+  timestamp: new Date(),
+  matches: 1,
+};
+
+describe("handleSearchCallback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pendingSearches.clear();
+    pendingSessions.clear();
+  });
+
+  it("attach hands the session to the /sessions attach flow", async () => {
+    pendingSearches.set("k1", [HIT]);
+    const ctx = makeCtx();
+    await handleSearchCallback(ctx, "search:attach:k1:0");
+
+    expect(pendingSessions.get("s-shop")).toEqual({ sessionId: "s-shop", cwd: "/repos/shop", projectName: "shop" });
+    expect(handleSessionCallback).toHaveBeenCalledWith(ctx, "session:s-shop");
+  });
+
+  it("context replies with the surrounding entries", async () => {
+    pendingSearches.set("k1", [HIT]);
+    vi.mocked(loadHitContext).mockResolvedValue([
+      { kind: "user", text: "fix the migration", line: 2 },
+      { kind: "assistant", text: "Fixed the migration", line: 3 },
+    ]);
+    const ctx = makeCtx();
+    await handleSearchCallback(ctx, "search:context:k1:0");
+
+    expect(ctx.reply).toHaveBeenCalledWith("shop (claude):\n\n👤 fix the migration\n\n🤖 Fixed the migration");
+  });
+
+  it("answers with a hint when the result is gone", async () => {
+    pendingSearches.set("k2", [HIT]);
+    const ctx = makeCtx();
+    await handleSearchCallback(ctx, "search:attach:k1:0");
+    await handleSearchCallback(ctx, "search:attach:k2:4");
+
+    expect(ctx.answerCallbackQuery).toHaveBeenNthCalledWith(1, { text: "Result expired — run /search again." });
+    expect(ctx.answerCallbackQuery).toHaveBeenNthCalledWith(2, { text: "Result expired — run /search again." });
+    expect(handleSessionCallback).not.toHaveBeenCalled();
+  });
+});
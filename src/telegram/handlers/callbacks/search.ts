@@ -0,0 +1,42 @@
+import type { Context } from "grammy";
+import { loadHitContext } from "../../../session/search.js";
+import { pendingSessions } from "../sessions.js";
+import { KIND_ICONS, pendingSearches } from "../search.js";
+import { handleSessionCallback } from "./sessions.js";
+
+const CONTEXT_ENTRY_LIMIT = 600;
+
+export async function handleSearchCallback(ctx: Context, data: string): Promise<void> {
+  const [, action, searchId, index] = data.split(":");
+  const hit = pendingSearches.get(searchId)?.[Number(index)];
+  if (!hit) {
+    await ctx.answerCallbackQuery({ text: "Result expired — run /search again." });
+    return;
+  }
+
+  if (action === "attach") {
+    if (!hit.cwd) {
+      await ctx.answerCallbackQuery({ text: "No working directory recorded for this session." });
+      return;
+    }
+    // Same flow as picking the session from /sessions, launching a CLI if none is running.
+    pendingSessions.set(hit.sessionId, { sessionId: hit.sessionId, cwd: hit.cwd, projectName: hit.projectName });
+    await handleSessionCallback(ctx, `session:${hit.sessionId}`);
+    return;
+  }
+
+  if (action === "context") {
+    await ctx.answerCallbackQuery();
+    const entries = await loadHitContext(hit).catch(() => []);
+    if (entries.length === 0) {
+      await ctx.reply("Could not read that transcript anymore.");
+      return;
+    }
+    const body = entries.map((e) => {
+      const text = e.text.trim();
+      const clipped = text.length > CONTEXT_ENTRY_LIMIT ? `${text.slice(0, CONTEXT_ENTRY_LIMIT)}…` : text;
+      return `${KIND_ICONS[e.kind]} ${clipped}`;
+    });
+    await ctx.reply(`${hit.projectName} (${hit.cliName}):\n\n${body.join("\n\n")}`);
+  }
+}
@@ -1,6 +1,7 @@
 import { type Context, InlineKeyboard } from "grammy";
 import { ATTACHED_SESSION_PATH } from "../../../session/history.js";
 import { findClaudePane } from "../../../session/tmux.js";
+import { adapters } from "../../../session/adapters/index.js";
 import { pendingSessions, setLaunchedPaneId } from "../sessions.js";
 import { writeFile, mkdir } from "fs/promises";
 import { homedir } from "os";
@@ -27,13 +28,19 @@ export async function handleSessionCallback(ctx: Context, data: string): Promise
   } else {
     await ctx.answerCallbackQuery();
     await ctx.editMessageReplyMarkup().catch(() => {});
-    const keyboard = new InlineKeyboard()
-      .text("Launch", `launch:${sessionId}`)
-      .text("Launch (skip permissions)", `launch:skip:${sessionId}`)
-      .row()
-      .text("Cancel", `launch:cancel:${sessionId}`);
+    // One row per adapter that can be launched; Telegram buttons get cramped past two per row.
+    const keyboard = new InlineKeyboard();
+    for (const adapter of adapters) {
+      if (!adapter.launch) continue;
+      adapter.launch.options.forEach((option, i) => {
+        if (i > 0 && i % 2 === 0) keyboard.row();
+        keyboard.text(option.label, `launch:${adapter.name}:${i}:${sessionId}`);
+      });
+      keyboard.row();
+    }
+    keyboard.text("Cancel", `launch:cancel:${sessionId}`);
     await ctx.reply(
-      `No Claude Code running at \`${session.projectName}\`. Launch one?`,
+      `No agent CLI running at \`${session.projectName}\`. Launch one?`,
       { parse_mode: "Markdown", reply_markup: keyboard }
     );
   }
@@ -5,6 +5,11 @@ import { findClaudePane, sendKeysToPane, killWindow } from "../../session/tmux.j
 import { summarizeSession } from "../../agent/summarizer.js";
 import { sendMarkdownReply } from "../utils.js";
 import { sendSessionPicker } from "./sessions.js";
+import { sendSearchResults } from "./search.js";
+import { sendHistory } from "./history.js";
+import { sendExport } from "./export.js";
+import { sendUsage } from "./usage.js";
+import { formatContextFill, readContextFill } from "../../session/context.js";
 import { clearActiveWatcher, watcherManager, fetchAndOfferImages } from "./text.js";
 import { isTimerActive, stopTimer, setTimerSetup } from "./timer.js";
 import { unlink, writeFile, mkdir } from "fs/promises";
@@ -66,7 +71,7 @@ export const BOT_COMMANDS: Array<{ command: string; description: string; details
   {
     command: "status",
     description: "Show attached session info",
-    details: "Shows the project name, working directory, and watcher state of the currently attached session.",
+    details: "Shows the project name, working directory, watcher state and estimated context window fill of the currently attached session.",
   },
   {
     command: "detach",
@@ -88,6 +93,26 @@ export const BOT_COMMANDS: Array<{ command: string; description: string; details
     description: "Send Escape to cancel Claude's current action",
     details: "Sends the Escape key to the Claude Code tmux pane. Use this to interrupt a running action without sending a new message.",
   },
+  {
+    command: "history",
+    description: "Browse earlier turns of the attached session",
+    details: "Shows the latest turn of the attached session — your prompt, the tool calls and the reply — with Prev/Next buttons to page back through earlier turns.",
+  },
+  {
+    command: "export",
+    description: "Export the session as a Markdown or HTML file",
+    details: "Sends the attached session's full transcript — prompts, replies, tool calls with their inputs and results, and timestamps — as a document. Use /export html for a self-contained HTML page; Markdown is the default.",
+  },
+  {
+    command: "search",
+    description: "Search past Claude and Codex transcripts",
+    details: "Searches assistant replies, your prompts and tool inputs across all Claude Code and Codex transcripts. Filter with project:<name> and since:<7d|12h|2026-01-31>. Each result can be attached to or expanded for more context.",
+  },
+  {
+    command: "usage",
+    description: "Show token usage and estimated cost",
+    details: "Adds up the token usage recorded in Claude Code and Codex transcripts and estimates the cost, broken down by day, project and session. Defaults to the last 7 days; pass a period such as /usage today, /usage 30d or /usage 2026-01-31.",
+  },
   {
     command: "summarize",
     description: "Summarise the current session",
@@ -139,18 +164,23 @@ async function isVoicePolishEnabled(): Promise<boolean> {
   }
 }
 
+/** Type a command into the agent pane for `cwd`. Returns false when there is no such pane. */
+export async function sendClaudeCommandToCwd(cwd: string, command: string): Promise<boolean> {
+  const pane = await findClaudePane(cwd).catch(() => ({ found: false as const, reason: "no_tmux" as const }));
+  if (!pane.found) return false;
+  await sendKeysToPane(pane.paneId, command);
+  return true;
+}
+
 async function sendClaudeCommand(ctx: Parameters<Parameters<Bot["command"]>[1]>[0], command: string): Promise<void> {
   const attached = await getAttachedSession().catch(() => null);
   if (!attached) {
     await ctx.reply("No session attached. Use /sessions to pick one.");
     return;
   }
-  const pane = await findClaudePane(attached.cwd).catch(() => ({ found: false as const, reason: "no_tmux" as const }));
-  if (!pane.found) {
+  if (!(await sendClaudeCommandToCwd(attached.cwd, command))) {
     await ctx.reply("Could not find the Claude Code tmux pane.");
-    return;
   }
-  await sendKeysToPane(pane.paneId, command);
 }
 
 export function registerCommands(bot: Bot): void {
@@ -189,6 +219,22 @@ export function registerCommands(bot: Bot): void {
     await sendSessionPicker(ctx);
   });
 
+  bot.command("history", async (ctx) => {
+    await sendHistory(ctx);
+  });
+
+  bot.command("export", async (ctx) => {
+    await sendExport(ctx, ctx.match);
+  });
+
+  bot.command("usage", async (ctx) => {
+    await sendUsage(ctx, ctx.match);
+  });
+
+  bot.command("search", async (ctx) => {
+    await sendSearchResults(ctx, ctx.match);
+  });
+
   bot.command("detach", async (ctx) => {
     const attached = await getAttachedSession().catch(() => null);
     const pane = attached
@@ -241,8 +287,10 @@ export function registerCommands(bot: Bot): void {
     const info = sessions.find((s) => s.sessionId === attached.sessionId);
     const project = info?.projectName ?? attached.sessionId.slice(0, 8);
     const watcherState = watcherManager.isActive ? "⏳ active" : "✅ idle";
+    const fill = await readContextFill(attached.cwd).catch(() => null);
+    const context = fill ? ` · context: ${formatContextFill(fill)}` : "";
     await ctx.reply(
-      `\`${project}\` · \`${attached.cwd}\` · watcher: ${watcherState}`,
+      `\`${project}\` · \`${attached.cwd}\` · watcher: ${watcherState}${context}`,
       { parse_mode: "Markdown" }
     );
   });
@@ -333,7 +381,7 @@ export function registerCommands(bot: Bot): void {
   bot.command("help", async (ctx) => {
     await ctx.reply(HELP_TEXT, { parse_mode: "MarkdownV2" }).catch(() =>
       ctx.reply(
-        "Commands: /sessions /detach /status /summarize /compact /clear /escape /close_session /polishvoice /restart /help"
+        "Commands: /sessions /history /export /search /detach /status /usage /summarize /compact /clear /escape /close_session /polishvoice /restart /help"
       )
     );
   });
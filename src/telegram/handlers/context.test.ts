@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../logger.js", () => ({
+  log: vi.fn(),
+}));
+
+vi.mock("../notifications.js", () => ({
+  sendPing: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("./commands.js", () => ({
+  sendClaudeCommandToCwd: vi.fn().mockResolvedValue(true),
+}));
+
+import { watchContext } from "./context.js";
+import { ContextTracker } from "../../session/context.js";
+import type { SessionUsageState } from "../../session/monitor.js";
+import { sendPing } from "../notifications.js";
+import { sendClaudeCommandToCwd } from "./commands.js";
+
+function state(prompt: number, idle: boolean): SessionUsageState {
+  return {
+    sessionId: "abc",
+    cliName: "claude",
+    projectName: "shop",
+    cwd: "/repos/shop",
+    records: [{ usage: { input: prompt, output: 0, cacheWrite: 0, cacheRead: 0 }, model: "claude-sonnet-4-5" }],
+    idle,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("watchContext", () => {
+  it("warns when the threshold is crossed", async () => {
+    const tracker = new ContextTracker({});
+    await watchContext(tracker, state(100_000, true));
+    await watchContext(tracker, state(170_000, true));
+    await watchContext(tracker, state(175_000, true));
+
+    expect(sendPing).toHaveBeenCalledTimes(1);
+    expect(sendPing).toHaveBeenCalledWith("📚 `shop` (claude) context: 170.0k/200.0k tokens (85%). Send /compact to free space.");
+    expect(sendClaudeCommandToCwd).not.toHaveBeenCalled();
+  });
+
+  it("sends /compact through the pane once the turn ends", async () => {
+    const tracker = new ContextTracker({ autoCompact: true });
+    await watchContext(tracker, state(170_000, false));
+    await watchContext(tracker, state(172_000, true));
+
+    expect(sendClaudeCommandToCwd).toHaveBeenCalledWith("/repos/shop", "/compact");
+    expect(vi.mocked(sendPing).mock.calls.map(([text]) => text)).toEqual([
+      "📚 `shop` (claude) context: 170.0k/200.0k tokens (85%). It will be compacted when the turn ends.",
+      "🗜 `shop` (claude) context: 172.0k/200.0k tokens (86%) — sent /compact.",
+    ]);
+  });
+
+  it("retries /compact on the next idle update when sending failed", async () => {
+    const tracker = new ContextTracker({ autoCompact: true });
+    vi.mocked(sendClaudeCommandToCwd).mockResolvedValueOnce(false);
+    await watchContext(tracker, state(170_000, true));
+    await watchContext(tracker, state(171_000, true));
+
+    expect(sendClaudeCommandToCwd).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(sendPing).mock.calls.map(([text]) => text)).toEqual([
+      "📚 `shop` (claude) context: 170.0k/200.0k tokens (85%). It will be compacted when the turn ends.",
+      "🗜 `shop` (claude) context: 171.0k/200.0k tokens (86%) — sent /compact.",
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { log } from "../../logger.js";
+import { estimateContextFill, formatContextFill, type ContextTracker } from "../../session/context.js";
+import type { SessionUsageState } from "../../session/monitor.js";
+import { sendPing } from "../notifications.js";
+import { sendClaudeCommandToCwd } from "./commands.js";
+
+/** Warn when a session's context passes the threshold and, if configured, compact it once idle. */
+export async function watchContext(tracker: ContextTracker, state: SessionUsageState): Promise<void> {
+  const fill = estimateContextFill(state.records);
+  if (!fill) return;
+  const { notify, compact } = tracker.update(state.sessionId, fill, state.idle);
+  if (!notify && !compact) return;
+
+  const subject = `\`${state.projectName}\` (${state.cliName}) context: ${formatContextFill(fill)}`;
+  if (compact && state.cwd) {
+    const sent = await sendClaudeCommandToCwd(state.cwd, "/compact").catch(() => false);
+    log({ message: `context: ${sent ? "sent" : "could not send"} /compact to ${state.sessionId.slice(0, 8)}` });
+    if (sent) {
+      await sendPing(`🗜 ${subject} — sent /compact.`);
+      return;
+    }
+    tracker.compactFailed(state.sessionId);
+  }
+  if (notify) {
+    const hint = tracker.config.autoCompact ? "It will be compacted when the turn ends." : "Send /compact to free space.";
+    await sendPing(`📚 ${subject}. ${hint}`);
+  }
+}
@@ -0,0 +1,59 @@
+import { Context, InputFile } from "grammy";
+import { log } from "../../logger.js";
+import { getAttachedSession, readSessionLines } from "../../session/history.js";
+import { adapterForCwd } from "../../session/adapters/index.js";
+import { renderHtml, renderMarkdown, type ExportFormat, type ExportMeta } from "../../session/export.js";
+
+/** Send the attached session's transcript as a Markdown (default) or HTML document. */
+export async function sendExport(ctx: Context, arg: string): Promise<void> {
+  const requested = arg.trim().toLowerCase();
+  const format: ExportFormat | null = requested === "" || requested === "md" || requested === "markdown"
+    ? "md"
+    : requested === "html" ? "html" : null;
+  if (!format) {
+    await ctx.reply("Usage: /export [md|html]");
+    return;
+  }
+
+  const attached = await getAttachedSession().catch(() => null);
+  if (!attached) {
+    await ctx.reply("No session attached. Use /sessions to pick one.");
+    return;
+  }
+  const resolved = await adapterForCwd(attached.cwd).catch(() => null);
+  if (!resolved) {
+    await ctx.reply("Could not find the session file. The session may have been cleared.");
+    return;
+  }
+  const { adapter, file } = resolved;
+  if (!adapter.readTranscript) {
+    await ctx.reply(`Export isn't available for ${adapter.name} sessions yet.`);
+    return;
+  }
+
+  try {
+    const lines = await (adapter.readLines?.(file.filePath, 0) ?? readSessionLines(file.filePath));
+    const entries = adapter.readTranscript(lines);
+    if (entries.length === 0) {
+      await ctx.reply("The session exists but has no readable history yet.");
+      return;
+    }
+
+    const projectName = attached.cwd.split("/").pop() || attached.cwd;
+    const meta: ExportMeta = {
+      projectName,
+      cwd: attached.cwd,
+      sessionId: file.sessionId,
+      cliName: adapter.name,
+      exportedAt: new Date(),
+    };
+    const content = format === "html" ? renderHtml(meta, entries) : renderMarkdown(meta, entries);
+    const filename = `${projectName}-${file.sessionId.slice(0, 8)}.${format}`;
+    await ctx.replyWithDocument(new InputFile(Buffer.from(content, "utf8"), filename), {
+      caption: `${projectName} · ${adapter.name} · ${entries.length} entries`,
+    });
+  } catch (err) {
+    log({ message: `export error: ${err instanceof Error ? err.message : String(err)}` });
+    await ctx.reply("Could not export the session — try again?");
+  }
+}
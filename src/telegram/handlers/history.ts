@@ -0,0 +1,96 @@
+import { Context, InlineKeyboard } from "grammy";
+import { getAttachedSession, readSessionLines } from "../../session/history.js";
+import { adapterForCwd } from "../../session/adapters/index.js";
+import type { SessionAdapter } from "../../session/adapter.js";
+import { groupTurns, type Turn } from "../../session/turns.js";
+import { timeAgo } from "./sessions.js";
+
+const PROMPT_LIMIT = 800;
+const REPLY_LIMIT = 2400;
+const TOOL_LINES = 10;
+// Telegram's cap on a message's text
+const MESSAGE_LIMIT = 4096;
+
+// The transcripts recent /history messages page through, by view id; buttons carry
+// the id so every message keeps paging its own session.
+type HistoryView = { filePath: string; adapter: SessionAdapter; projectName: string };
+const historyViews = new Map<string, HistoryView>();
+const MAX_TRACKED_VIEWS = 10;
+
+export function getHistoryView(viewId: string): HistoryView | undefined {
+  return historyViews.get(viewId);
+}
+
+export async function loadTurns({ filePath, adapter }: HistoryView): Promise<Turn[]> {
+  if (!adapter.readTranscript) return [];
+  const lines = await (adapter.readLines?.(filePath, 0) ?? readSessionLines(filePath));
+  return groupTurns(adapter.readTranscript(lines));
+}
+
+function clip(text: string, limit: number, keep: "start" | "end"): string {
+  if (text.length <= limit) return text;
+  return keep === "start" ? `${text.slice(0, limit)}…` : `…${text.slice(-limit)}`;
+}
+
+export function renderTurn(turn: Turn, index: number, total: number, projectName: string): string {
+  const when = turn.timestamp ? ` · ${timeAgo(turn.timestamp)}` : "";
+  const parts = [`${projectName} · turn ${index + 1}/${total}${when}`];
+  if (turn.prompt) parts.push(`👤 ${clip(turn.prompt.trim(), PROMPT_LIMIT, "start")}`);
+  if (turn.tools.length > 0) {
+    const shown = turn.tools.slice(0, TOOL_LINES).map((t) => `🔧 ${t}`);
+    if (turn.tools.length > TOOL_LINES) shown.push(`… and ${turn.tools.length - TOOL_LINES} more tool calls`);
+    parts.push(shown.join("\n"));
+  }
+  // Earlier replies are progress notes; if space runs out, the final answer wins.
+  // The reply gets whatever the message has left, up to its own limit.
+  const reply = turn.replies.join("\n\n").trim();
+  const room = MESSAGE_LIMIT - parts.join("\n\n").length - "\n\n🤖 …".length;
+  parts.push(reply ? `🤖 ${clip(reply, Math.min(REPLY_LIMIT, room), "end")}` : "🤖 (no reply)");
+  return parts.join("\n\n");
+}
+
+export function historyKeyboard(viewId: string, index: number, total: number): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  if (index > 0) keyboard.text("◀ Prev", `history:${viewId}:${index - 1}`);
+  if (index < total - 1) keyboard.text("Next ▶", `history:${viewId}:${index + 1}`);
+  return keyboard;
+}
+
+/** Show the latest turn of the attached session, with buttons to page back through it. */
+export async function sendHistory(ctx: Context): Promise<void> {
+  const attached = await getAttachedSession().catch(() => null);
+  if (!attached) {
+    await ctx.reply("No session attached. Use /sessions to pick one.");
+    return;
+  }
+  const resolved = await adapterForCwd(attached.cwd).catch(() => null);
+  if (!resolved) {
+    await ctx.reply("Could not find the session file. The session may have been cleared.");
+    return;
+  }
+
+  const view: HistoryView = {
+    filePath: resolved.file.filePath,
+    adapter: resolved.adapter,
+    projectName: attached.cwd.split("/").pop() || attached.cwd,
+  };
+  if (!view.adapter.readTranscript) {
+    await ctx.reply(`History isn't available for ${view.adapter.name} sessions yet.`);
+    return;
+  }
+  const turns = await loadTurns(view).catch(() => []);
+  if (turns.length === 0) {
+    await ctx.reply("The session exists but has no readable history yet.");
+    return;
+  }
+
+  const viewId = Date.now().toString(36);
+  historyViews.set(viewId, view);
+  if (historyViews.size > MAX_TRACKED_VIEWS) {
+    historyViews.delete(historyViews.keys().next().value!);
+  }
+  const last = turns.length - 1;
+  await ctx.reply(renderTurn(turns[last], last, turns.length, view.projectName), {
+    reply_markup: historyKeyboard(viewId, last, turns.length),
+  });
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../logger.js", () => ({
+  log: vi.fn(),
+}));
+
+vi.mock("../../session/tmux.js", () => ({
+  findClaudePane: vi.fn().mockResolvedValue({ found: true, paneId: "%3" }),
+  sendKeysToPane: vi.fn().mockResolvedValue(undefined),
+  sendRawKeyToPane: vi.fn().mockResolvedValue(undefined),
+  capturePaneContent: vi.fn().mockResolvedValue(""),
+}));
+
+vi.mock("../../session/history.js", () => ({
+  getAttachedSession: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("../../session/permissions.js", () => ({
+  respondToPermission: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("../../session/codex-approvals.js", () => ({
+  isCodexApprovalRequest: (id: string) => id.startsWith("codex-"),
+  respondToCodexApproval: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock("../../session/permission-rules.js", () => ({
+  permissionRules: { rulesFor: vi.fn().mockResolvedValue([]) },
+}));
+
+vi.mock("../notifications.js", () => ({
+  notifyPermission: vi.fn().mockResolvedValue(undefined),
+  notifyAutoDecision: vi.fn().mockResolvedValue(undefined),
+  notifyPermissionExpired: vi.fn().mockResolvedValue(undefined),
+  getPermissionRequest: vi.fn(),
+}));
+
+vi.mock("./callbacks/permissions.js", () => ({
+  clearPendingPermissionReply: vi.fn(),
+}));
+
+import { applyPermissionPolicy, handlePermissionExpired } from "./policy.js";
+import { clearPendingPermissionReply } from "./callbacks/permissions.js";
+import { capturePaneContent, findClaudePane, sendKeysToPane, sendRawKeyToPane } from "../../session/tmux.js";
+import { respondToPermission, type PermissionRequest } from "../../session/permissions.js";
+import { respondToCodexApproval } from "../../session/codex-approvals.js";
+import { permissionRules } from "../../session/permission-rules.js";
+import { getPermissionRequest, notifyAutoDecision, notifyPermission, notifyPermissionExpired } from "../notifications.js";
+
+const handle = applyPermissionPolicy({
+  rules: [
+    { action: "approve", tool: "Bash", command: "npm test", reason: "tests" },
+    { action: "deny", tool: "Bash", command: "git push *" },
+    { action: "ask", tool: "Bash", command: "npm publish" },
+  ],
+});
+
+function bash(command: string, requestId = "req-12345678"): PermissionRequest {
+  return {
+    requestId,
+    toolName: "Bash",
+    toolInput: "Claude needs your permission to use Bash",
+    toolCommand: command,
+    filePath: "/tmp/req.json",
+    cwd: "/repos/shop",
+    input: { command },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("applyPermissionPolicy", () => {
+  it("approves matching requests without asking and presses 1 in the pane", async () => {
+    const req = bash("npm test");
+    await handle(req);
+
+    expect(respondToPermission).toHaveBeenCalledWith("req-12345678", "approve");
+    expect(findClaudePane).toHaveBeenCalledWith("/repos/shop");
+    expect(sendKeysToPane).toHaveBeenCalledWith("%3", "1");
+    expect(notifyAutoDecision).toHaveBeenCalledWith(req, "approve", "tests");
+    expect(notifyPermission).not.toHaveBeenCalled();
+  });
+
+  it("denies matching requests with Escape", async () => {
+    await handle(bash("git push origin main"));
+
+    expect(respondToPermission).toHaveBeenCalledWith("req-12345678", "deny");
+    expect(sendRawKeyToPane).toHaveBeenCalledWith("%3", "Escape");
+    expect(notifyAutoDecision).toHaveBeenCalledWith(expect.anything(), "deny", "Bash `git push *`");
+  });
+
+  it("asks on Telegram for ask rules and unmatched requests", async () => {
+    await handle(bash("npm publish"));
+    await handle(bash("make"));
+
+    expect(notifyPermission).toHaveBeenCalledTimes(2);
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(notifyAutoDecision).not.toHaveBeenCalled();
+  });
+
+  it("answers Codex approvals in their pane", async () => {
+    await handle(bash("npm test", "codex-call_1"));
+
+    expect(respondToCodexApproval).toHaveBeenCalledWith("codex-call_1", "approve");
+    expect(respondToPermission).not.toHaveBeenCalled();
+    expect(notifyAutoDecision).toHaveBeenCalled();
+  });
+
+  it("falls back to asking when answering fails", async () => {
+    vi.mocked(respondToPermission).mockRejectedValueOnce(new Error("EACCES"));
+    await handle(bash("npm test"));
+
+    expect(notifyPermission).toHaveBeenCalled();
+    expect(notifyAutoDecision).not.toHaveBeenCalled();
+  });
+
+  it("approves from learned rules when no configured rule matches", async () => {
+    vi.mocked(permissionRules.rulesFor).mockResolvedValue([
+      { action: "approve", tool: "Bash", command: "make", reason: "allowed for this session" },
+      { action: "approve", tool: "Bash", command: "npm publish" },
+    ]);
+    await handle(bash("make"));
+    await handle(bash("npm publish"));
+
+    expect(notifyAutoDecision).toHaveBeenCalledTimes(1);
+    expect(notifyAutoDecision).toHaveBeenCalledWith(expect.anything(), "approve", "allowed for this session");
+    expect(notifyPermission).toHaveBeenCalledTimes(1);
+    vi.mocked(permissionRules.rulesFor).mockResolvedValue([]);
+  });
+});
+
+describe("handlePermissionExpired", () => {
+  const expiry = { requestId: "req-12345678", action: "deny" as const, seconds: 300 };
+
+  it("dismisses the dialog still on screen and reports the expiry", async () => {
+    vi.mocked(getPermissionRequest).mockReturnValue(bash("make"));
+    vi.mocked(capturePaneContent).mockResolvedValueOnce("Bash command\n make\nDo you want to proceed?\n❯ 1. Yes\n  2. No");
+
+    await handlePermissionExpired(expiry);
+
+    expect(findClaudePane).toHaveBeenCalledWith("/repos/shop");
+    expect(sendRawKeyToPane).toHaveBeenCalledWith("%3", "Escape");
+    expect(clearPendingPermissionReply).toHaveBeenCalledWith("req-12345678");
+    expect(notifyPermissionExpired).toHaveBeenCalledWith(expiry);
+  });
+
+  it("sends no key once the dialog is gone", async () => {
+    vi.mocked(getPermissionRequest).mockReturnValue(bash("make"));
+    vi.mocked(capturePaneContent).mockResolvedValueOnce("✻ Working… (esc to interrupt)");
+
+    await handlePermissionExpired(expiry);
+
+    expect(sendRawKeyToPane).not.toHaveBeenCalled();
+    expect(notifyPermissionExpired).toHaveBeenCalledWith(expiry);
+  });
+});
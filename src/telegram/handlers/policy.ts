@@ -0,0 +1,81 @@
+import { log } from "../../logger.js";
+import { getAttachedSession } from "../../session/history.js";
+import { respondToPermission, type PermissionExpiry, type PermissionRequest } from "../../session/permissions.js";
+import { isCodexApprovalRequest, respondToCodexApproval } from "../../session/codex-approvals.js";
+import { describeRule, evaluatePolicy, type PermissionPolicyConfig } from "../../session/policy.js";
+import { permissionRules } from "../../session/permission-rules.js";
+import { capturePaneContent, findClaudePane, sendKeysToPane, sendRawKeyToPane } from "../../session/tmux.js";
+import { getPermissionRequest, notifyAutoDecision, notifyPermission, notifyPermissionExpired } from "../notifications.js";
+import { clearPendingPermissionReply } from "./callbacks/permissions.js";
+
+// Claude Code's permission dialog, e.g. "Do you want to proceed?\n❯ 1. Yes"
+const CLAUDE_PERMISSION_PROMPT_RE = /Do you want to [^\n]*\?[\s\S]*\b1\. Yes/;
+
+/**
+ * Dismiss Claude Code's permission dialog in the session's pane the way a
+ * Telegram answer does: "1" approves, Escape denies. With onlyIfPrompting, only
+ * while the dialog is on screen. Returns whether a key was sent.
+ */
+export async function pressPermissionKey(
+  cwd: string | undefined,
+  action: "approve" | "deny",
+  { onlyIfPrompting = false } = {}
+): Promise<boolean> {
+  const paneCwd = cwd ?? (await getAttachedSession().catch(() => null))?.cwd;
+  if (!paneCwd) return false;
+  const pane = await findClaudePane(paneCwd).catch(() => ({ found: false as const }));
+  if (!pane.found) return false;
+  if (onlyIfPrompting) {
+    const screen = await capturePaneContent(pane.paneId).catch(() => "");
+    if (!CLAUDE_PERMISSION_PROMPT_RE.test(screen.split("\n").slice(-30).join("\n"))) return false;
+  }
+  const sent = action === "approve"
+    ? sendKeysToPane(pane.paneId, "1")
+    : sendRawKeyToPane(pane.paneId, "Escape");
+  return sent.then(() => true, () => false);
+}
+
+/**
+ * Permission request handler that answers from the policy when an approve or
+ * deny rule matches, and asks on Telegram otherwise. Configured rules come
+ * first, then the ones learned from "Always allow" and "Allow for this session".
+ */
+export function applyPermissionPolicy(policy: PermissionPolicyConfig): (req: PermissionRequest) => Promise<void> {
+  return async (req) => {
+    const decision = evaluatePolicy(policy, req)
+      ?? evaluatePolicy({ rules: await permissionRules.rulesFor(req) }, req);
+    if (!decision || decision.action === "ask") {
+      await notifyPermission(req);
+      return;
+    }
+
+    const action = decision.action;
+    const reason = describeRule(decision.rule);
+    try {
+      if (isCodexApprovalRequest(req.requestId)) {
+        if (!(await respondToCodexApproval(req.requestId, action))) return;
+      } else {
+        await respondToPermission(req.requestId, action);
+        await pressPermissionKey(req.cwd, action);
+      }
+    } catch (err) {
+      log({ message: `permission policy error, asking instead: ${err instanceof Error ? err.message : String(err)}` });
+      await notifyPermission(req);
+      return;
+    }
+    log({ message: `permission auto-${action}: ${req.toolName} (${req.requestId.slice(0, 8)}) — ${reason}` });
+    await notifyAutoDecision(req, action, reason);
+  };
+}
+
+/**
+ * The hook gave up waiting and applied the timeout action. Make the terminal
+ * match — unless the dialog is already gone, e.g. answered there, where a
+ * stray Escape would interrupt Claude — then update the chat.
+ */
+export async function handlePermissionExpired(expiry: PermissionExpiry): Promise<void> {
+  const req = getPermissionRequest(expiry.requestId);
+  clearPendingPermissionReply(expiry.requestId);
+  await pressPermissionKey(req?.cwd, expiry.action, { onlyIfPrompting: true });
+  await notifyPermissionExpired(expiry);
+}
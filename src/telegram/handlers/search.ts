@@ -0,0 +1,61 @@
+import { Context, InlineKeyboard } from "grammy";
+import { log } from "../../logger.js";
+import { parseSearchQuery, searchTranscripts, type SearchHit, type SearchQuery } from "../../session/search.js";
+import { timeAgo } from "./sessions.js";
+
+// Hits of recent /search calls, by search id; buttons carry the id and the hit's position.
+export const pendingSearches = new Map<string, SearchHit[]>();
+const MAX_TRACKED_SEARCHES = 10;
+
+export const KIND_ICONS: Record<SearchHit["kind"], string> = {
+  user: "👤",
+  assistant: "🤖",
+  tool: "🔧",
+};
+
+const USAGE = 'Usage: /search <words> [project:<name>] [since:7d]\nQuote a phrase to match it exactly: /search "fix migration"';
+
+export async function sendSearchResults(ctx: Context, input: string): Promise<void> {
+  let query: SearchQuery;
+  try {
+    query = parseSearchQuery(input);
+  } catch (err) {
+    await ctx.reply(err instanceof Error ? err.message : String(err));
+    return;
+  }
+  if (query.terms.length === 0) {
+    await ctx.reply(USAGE);
+    return;
+  }
+
+  await ctx.replyWithChatAction("typing");
+  let hits: SearchHit[];
+  try {
+    hits = await searchTranscripts(query);
+  } catch (err) {
+    log({ message: `search error: ${err instanceof Error ? err.message : String(err)}` });
+    await ctx.reply("Search failed — try again?");
+    return;
+  }
+
+  const described = query.terms.map((t) => `"${t}"`).join(" ");
+  if (hits.length === 0) {
+    await ctx.reply(`No matches for ${described}.`);
+    return;
+  }
+
+  const searchId = Date.now().toString(36);
+  pendingSearches.set(searchId, hits);
+  if (pendingSearches.size > MAX_TRACKED_SEARCHES) {
+    pendingSearches.delete(pendingSearches.keys().next().value!);
+  }
+
+  const keyboard = new InlineKeyboard();
+  const listLines = hits.map((hit, i) => {
+    keyboard.text(`${i + 1}. Attach`, `search:attach:${searchId}:${i}`).text(`${i + 1}. Context`, `search:context:${searchId}:${i}`).row();
+    const more = hit.matches > 1 ? ` · ${hit.matches} matches` : "";
+    return `${i + 1}. ${hit.projectName} (${hit.cliName}) · ${timeAgo(hit.timestamp)}${more}\n  ${KIND_ICONS[hit.kind]} ${hit.snippet}`;
+  });
+
+  await ctx.reply(`Results for ${described}:\n\n${listLines.join("\n\n")}`, { reply_markup: keyboard });
+}
@@ -1,7 +1,7 @@
 import { Context, InlineKeyboard } from "grammy";
 import { readSessionLines } from "../../session/history.js";
 import { listTmuxPanes } from "../../session/tmux.js";
-import { adapterForPane } from "../../session/adapters/index.js";
+import { adapterForPane, adapters } from "../../session/adapters/index.js";
 
 export const pendingSessions = new Map<string, { sessionId: string; cwd: string; projectName: string }>();
 
@@ -43,7 +43,7 @@ export async function sendSessionPicker(ctx: Context): Promise<void> {
     if (!found) continue;
 
     const projectName = pane.cwd.split("/").pop() || pane.cwd;
-    const lines = await readSessionLines(found.filePath).catch(() => []);
+    const lines = await (adapter.readLines?.(found.filePath, 0) ?? readSessionLines(found.filePath)).catch(() => []);
     // Use the adapter's parser for an accurate last-message preview across CLIs.
     const parsed = adapter.parseAssistantText(lines);
     const preview = (parsed.text ?? "").slice(0, 200).replace(/\n/g, " ");
@@ -58,7 +58,7 @@ export async function sendSessionPicker(ctx: Context): Promise<void> {
   }
 
   if (sessions.length === 0) {
-    await ctx.reply("No active Claude Code or Codex sessions found in tmux.");
+    await ctx.reply(`No active agent sessions (${adapters.map((a) => a.name).join(", ")}) found in tmux.`);
     return;
   }
 
@@ -74,5 +74,5 @@ export async function sendSessionPicker(ctx: Context): Promise<void> {
     return `• ${s.projectName} (${s.cliName})\n${preview}`;
   });
 
-  await ctx.reply(`Active Claude Code / Codex sessions:\n\n${listLines.join("\n\n")}`, { reply_markup: keyboard });
+  await ctx.reply(`Active agent sessions:\n\n${listLines.join("\n\n")}`, { reply_markup: keyboard });
 }
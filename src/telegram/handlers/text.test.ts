@@ -45,6 +45,7 @@ vi.mock("../../session/tmux.js", () => ({
   findClaudePane: (...args: unknown[]) => mockFindClaudePane(...args),
   injectInput: (...args: unknown[]) => mockInjectInput(...args),
   sendInterrupt: (...args: unknown[]) => mockSendInterrupt(...args),
+  registerAgentPanePredicate: vi.fn(),
 }));
 
 vi.mock("../../logger.js", () => ({ log: vi.fn() }));
@@ -66,10 +67,12 @@ const {
   mockTimerSetup,
   mockSetTimerSetup,
   mockStartTimer,
+  mockHandlePermissionReply,
 } = vi.hoisted(() => {
   const state = {
     pendingImageCount: null as { key: string; max: number } | null,
     timerSetup: null as { phase: string; frequencyMin?: number } | null,
+    pendingPermissionReply: null as { requestId: string } | null,
   };
   return {
     mockPendingImageCount: state,
@@ -78,6 +81,7 @@ const {
     mockTimerSetup: state,
     mockSetTimerSetup: vi.fn((s: any) => { state.timerSetup = s; }),
     mockStartTimer: vi.fn(),
+    mockHandlePermissionReply: vi.fn().mockResolvedValue(undefined),
   };
 });
 
@@ -85,6 +89,8 @@ vi.mock("./callbacks/index.js", () => ({
   get pendingImageCount() { return mockPendingImageCount.pendingImageCount; },
   clearPendingImageCount: () => mockClearPendingImageCount(),
   pendingImages: mockPendingImages,
+  get pendingPermissionReply() { return mockPendingImageCount.pendingPermissionReply; },
+  handlePermissionReply: (...args: unknown[]) => mockHandlePermissionReply(...args),
 }));
 
 vi.mock("./timer.js", () => ({
@@ -112,6 +118,7 @@ function makeCtx() {
 beforeEach(() => {
   vi.clearAllMocks();
   mockPendingImageCount.pendingImageCount = null;
+  mockPendingImageCount.pendingPermissionReply = null;
   mockPendingImages.clear();
   mockTimerSetup.timerSetup = null;
   mockGetAttachedSession.mockResolvedValue(null);
@@ -208,6 +215,18 @@ describe("processTextTurn — pendingImageCount", () => {
   });
 });
 
+describe("processTextTurn — deny with reason", () => {
+  it("sends the message as the reason instead of injecting it", async () => {
+    const ctx = makeCtx();
+    mockPendingImageCount.pendingPermissionReply = { requestId: "req-1" };
+
+    await processTextTurn(ctx, 12345, "use pnpm instead");
+
+    expect(mockHandlePermissionReply).toHaveBeenCalledWith(ctx, "use pnpm instead");
+    expect(mockGetAttachedSession).not.toHaveBeenCalled();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // processTextTurn — timer setup flow
 // ---------------------------------------------------------------------------
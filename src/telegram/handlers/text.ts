@@ -6,7 +6,7 @@ import { notifyResponse, notifyImages, sendPing, getSessionForMessage } from "..
 import { sendMarkdownReply } from "../utils.js";
 import { launchedPaneId } from "./sessions.js";
 import { findClaudePane, sendInterrupt, injectInput, listTmuxPanes } from "../../session/tmux.js";
-import { pendingImages, pendingImageCount, clearPendingImageCount } from "./callbacks/index.js";
+import { pendingImages, pendingImageCount, clearPendingImageCount, pendingPermissionReply, handlePermissionReply } from "./callbacks/index.js";
 import { InputFile } from "grammy";
 import { writeFile, mkdir, readFile } from "fs/promises";
 import { homedir } from "os";
@@ -133,6 +133,12 @@ export async function ensureSession(
 }
 
 export async function processTextTurn(ctx: Context, chatId: number, text: string): Promise<void> {
+  // Handle the reply to a "Deny with reason…" or "Edit command" permission answer
+  if (pendingPermissionReply && text.trim()) {
+    await handlePermissionReply(ctx, text);
+    return;
+  }
+
   // Handle "Part" image count reply
   if (pendingImageCount) {
     const parsed = parseInt(text.trim(), 10);
@@ -0,0 +1,51 @@
+import type { Context } from "grammy";
+import { log } from "../../logger.js";
+import { adapters } from "../../session/adapters/index.js";
+import { parseSince } from "../../session/search.js";
+import { breakdownUsage, collectUsage, formatCost, formatTokens, totalTokens, type UsageTotals } from "../../session/usage.js";
+
+const DEFAULT_PERIOD = "7d";
+const MAX_ROWS = 10;
+
+function row(label: string, totals: UsageTotals): string {
+  return `${label}  ${formatTokens(totalTokens(totals.usage))} · ${formatCost(totals)}`;
+}
+
+/** Token usage and estimated cost since a given time, by day, project and session. */
+export async function sendUsage(ctx: Context, arg: string): Promise<void> {
+  const period = arg.trim() || DEFAULT_PERIOD;
+  let since: Date;
+  try {
+    since = period === "today" ? new Date(new Date().toISOString().slice(0, 10)) : parseSince(period);
+  } catch {
+    await ctx.reply("Usage: /usage [today|24h|7d|30d|2026-01-31]");
+    return;
+  }
+
+  await ctx.replyWithChatAction("typing");
+  try {
+    const sessions = await collectUsage(adapters, since);
+    if (sessions.length === 0) {
+      await ctx.reply(`No token usage recorded since ${period === "today" ? "today" : period}.`);
+      return;
+    }
+    const { total, byDay, byProject, bySession } = breakdownUsage(sessions);
+    const lines = [
+      row(`Token usage (${period}):`, total),
+      "",
+      "By day:",
+      ...byDay.map(([day, t]) => row(day, t)),
+      "",
+      "By project:",
+      ...byProject.slice(0, MAX_ROWS).map(([project, t]) => row(project, t)),
+      "",
+      "By session:",
+      ...bySession.slice(0, MAX_ROWS).map(([s, t]) => row(`${s.projectName} (${s.cliName}) ${s.sessionId.slice(0, 8)}`, t)),
+    ];
+    if (total.unpriced > 0) lines.push("", "Some requests used models without a price; add them under \"prices\" in config.json.");
+    await ctx.reply(lines.join("\n"));
+  } catch (err) {
+    log({ message: `usage error: ${err instanceof Error ? err.message : String(err)}` });
+    await ctx.reply("Could not read usage — try again?");
+  }
+}
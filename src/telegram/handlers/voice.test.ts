@@ -48,6 +48,13 @@ vi.mock("fs/promises", () => ({
 
 vi.mock("../../logger.js", () => ({ log: vi.fn() }));
 
+const permissionReply = { pending: null as { requestId: string } | null };
+const mockHandlePermissionReply = vi.fn().mockResolvedValue(undefined);
+vi.mock("./callbacks/index.js", () => ({
+  get pendingPermissionReply() { return permissionReply.pending; },
+  handlePermissionReply: (...args: unknown[]) => mockHandlePermissionReply(...args),
+}));
+
 import { handleVoice } from "./voice.js";
 
 function makeCtx() {
@@ -72,6 +79,7 @@ beforeEach(() => {
   mockSnapshotBaseline.mockResolvedValue({ filePath: "/f.jsonl", sessionId: "s1", size: 0 });
   mockStartInjectionWatcher.mockResolvedValue(undefined);
   mockAccess.mockRejectedValue(new Error("ENOENT")); // polish on
+  permissionReply.pending = null;
 
   vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
     ok: true,
@@ -97,6 +105,17 @@ describe("handleVoice", () => {
     expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining("[transcription]"));
   });
 
+  it("uses the voice note as the reason when a denial is waiting for one", async () => {
+    const ctx = makeCtx();
+    permissionReply.pending = { requestId: "req-1" };
+
+    await handleVoice(ctx, 12345, "test-token");
+
+    expect(mockHandlePermissionReply).toHaveBeenCalledWith(ctx, "polished text");
+    expect(mockEnsureSession).not.toHaveBeenCalled();
+    expect(mockInjectInput).not.toHaveBeenCalled();
+  });
+
   it("no session: replies with voice message", async () => {
     const ctx = makeCtx();
     mockEnsureSession.mockResolvedValue(null);
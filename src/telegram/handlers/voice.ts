@@ -6,6 +6,7 @@ import { narrate } from "../../narrator.js";
 import { sendMarkdownReply } from "../utils.js";
 import { launchedPaneId } from "./sessions.js";
 import { ensureSession, snapshotBaseline, startInjectionWatcher } from "./text.js";
+import { pendingPermissionReply, handlePermissionReply } from "./callbacks/index.js";
 import type { SessionResponseState } from "../../session/monitor.js";
 import { access } from "fs/promises";
 import { homedir } from "os";
@@ -37,6 +38,11 @@ export async function handleVoice(ctx: Context, chatId: number, token: string):
   const polished = polishEnabled ? await polishTranscript(transcript) : transcript;
   log({ chatId, direction: "in", message: `[voice] ${transcript} → polished: ${polished}` });
 
+  if (pendingPermissionReply && polished.trim()) {
+    await handlePermissionReply(ctx, polished);
+    return;
+  }
+
   const attached = await ensureSession(ctx, chatId);
 
   if (!attached) {
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { highlightLine, languageFor } from "./highlight.js";
+
+describe("languageFor", () => {
+  it("maps file extensions and fence tags", () => {
+    expect(languageFor("/repo/src/app.ts")).toBe("c");
+    expect(languageFor("scripts/build.PY")).toBe("python");
+    expect(languageFor("typescript")).toBe("c");
+    expect(languageFor("bash")).toBe("shell");
+    expect(languageFor("README.md")).toBeNull();
+    expect(languageFor("")).toBeNull();
+  });
+});
+
+describe("highlightLine", () => {
+  it("colours keywords, strings, numbers and comments", () => {
+    expect(highlightLine('const s = "a // b"; // note', "c")).toEqual([
+      { text: "const", kind: "keyword" },
+      { text: " s = ", kind: "plain" },
+      { text: '"a // b"', kind: "string" },
+      { text: "; ", kind: "plain" },
+      { text: "// note", kind: "comment" },
+    ]);
+    expect(highlightLine("return 0x1F + 2.5", "c").filter((t) => t.kind === "number").map((t) => t.text)).toEqual(["0x1F", "2.5"]);
+  });
+
+  it("handles escapes and unterminated strings", () => {
+    expect(highlightLine("x = 'it\\'s' + 'open", "python")).toEqual([
+      { text: "x = ", kind: "plain" },
+      { text: "'it\\'s'", kind: "string" },
+      { text: " + ", kind: "plain" },
+      { text: "'open", kind: "string" },
+    ]);
+  });
+
+  it("leaves unknown languages plain", () => {
+    expect(highlightLine("if x", null)).toEqual([{ text: "if x", kind: "plain" }]);
+  });
+});
@@ -0,0 +1,146 @@
+// ---------------------------------------------------------------------------
+// Minimal syntax highlighting for rendered code images.
+//
+// Lines are tokenised one at a time, so a block comment or string spanning
+// several lines is only coloured on its first line. That's an acceptable trade
+// for a phone-sized preview and keeps us free of a grammar dependency.
+// ---------------------------------------------------------------------------
+
+export type TokenKind = "plain" | "keyword" | "string" | "comment" | "number";
+
+export interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+// GitHub's light theme, to match the light table and diff images
+export const TOKEN_COLORS: Record<TokenKind, string> = {
+  plain: "#1f2328",
+  keyword: "#cf222e",
+  string: "#0a3069",
+  comment: "#6e7781",
+  number: "#0550ae",
+};
+
+interface Language {
+  keywords: Set<string>;
+  lineComment: string[];
+  blockComment?: [string, string];
+}
+
+const C_LIKE_KEYWORDS = [
+  "abstract", "async", "await", "break", "case", "catch", "class", "const", "continue", "default",
+  "delete", "do", "else", "enum", "export", "extends", "false", "finally", "for", "from", "function",
+  "if", "implements", "import", "in", "instanceof", "interface", "let", "new", "null", "of", "private",
+  "protected", "public", "readonly", "return", "static", "super", "switch", "this", "throw", "true",
+  "try", "type", "typeof", "undefined", "var", "void", "while", "yield",
+  // Go, Rust, Swift, Kotlin, Java, C
+  "fn", "func", "go", "impl", "match", "mod", "mut", "package", "pub", "struct", "trait", "use",
+  "where", "val", "fun", "guard", "self", "nil", "defer", "chan", "map", "range", "int",
+  "char", "float", "double", "bool", "boolean", "string", "unsigned", "sizeof", "include",
+];
+
+const PYTHON_KEYWORDS = [
+  "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else",
+  "except", "False", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "None",
+  "nonlocal", "not", "or", "pass", "raise", "return", "True", "try", "while", "with", "yield",
+  // Ruby
+  "begin", "do", "end", "ensure", "module", "nil", "rescue", "self", "then", "unless", "until", "when",
+];
+
+const SHELL_KEYWORDS = [
+  "case", "do", "done", "elif", "else", "esac", "export", "fi", "for", "function", "if", "in",
+  "local", "return", "then", "until", "while",
+];
+
+const SQL_KEYWORDS = [
+  "select", "from", "where", "insert", "into", "values", "update", "set", "delete", "create", "table",
+  "drop", "alter", "join", "left", "right", "inner", "outer", "on", "group", "by", "order", "having",
+  "limit", "and", "or", "not", "null", "as", "distinct", "index", "primary", "key",
+].flatMap((k) => [k, k.toUpperCase()]);
+
+const LANGUAGES: Record<string, Language> = {
+  c: { keywords: new Set(C_LIKE_KEYWORDS), lineComment: ["//"], blockComment: ["/*", "*/"] },
+  python: { keywords: new Set(PYTHON_KEYWORDS), lineComment: ["#"] },
+  shell: { keywords: new Set(SHELL_KEYWORDS), lineComment: ["#"] },
+  sql: { keywords: new Set(SQL_KEYWORDS), lineComment: ["--"], blockComment: ["/*", "*/"] },
+  data: { keywords: new Set(["true", "false", "null"]), lineComment: ["#"] },
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: "c", tsx: "c", js: "c", jsx: "c", mjs: "c", cjs: "c", java: "c", kt: "c", swift: "c",
+  go: "c", rs: "c", c: "c", h: "c", cpp: "c", hpp: "c", cs: "c", scala: "c", dart: "c", css: "c", scss: "c",
+  py: "python", rb: "python",
+  sh: "shell", bash: "shell", zsh: "shell",
+  sql: "sql",
+  json: "data", yaml: "data", yml: "data", toml: "data",
+};
+
+// Names used after ``` in Markdown code fences
+const FENCE_ALIASES: Record<string, string> = {
+  typescript: "ts", javascript: "js", python: "py", ruby: "rb", rust: "rs", golang: "go",
+  shell: "sh", console: "sh", kotlin: "kt", csharp: "cs", "c++": "cpp",
+};
+
+/** Language for a file path or code fence tag, or null when we don't colour it. */
+export function languageFor(pathOrTag: string): string | null {
+  const lower = pathOrTag.toLowerCase();
+  const ext = lower.includes(".") || lower.includes("/") ? lower.split(".").pop() ?? "" : lower;
+  return EXTENSION_LANGUAGES[FENCE_ALIASES[ext] ?? ext] ?? null;
+}
+
+const NUMBER_RE = /^(0x[0-9a-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?)/;
+const WORD_RE = /^[A-Za-z_$][\w$]*/;
+
+/** Split one line into coloured tokens. Unknown languages come back as a single plain token. */
+export function highlightLine(line: string, language: string | null): Token[] {
+  const lang = language ? LANGUAGES[language] : undefined;
+  if (!lang) return [{ text: line, kind: "plain" }];
+
+  const tokens: Token[] = [];
+  const push = (text: string, kind: TokenKind) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ text, kind });
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const rest = line.slice(i);
+    if (lang.lineComment.some((c) => rest.startsWith(c))) {
+      push(rest, "comment");
+      break;
+    }
+    if (lang.blockComment && rest.startsWith(lang.blockComment[0])) {
+      const end = rest.indexOf(lang.blockComment[1], lang.blockComment[0].length);
+      const len = end === -1 ? rest.length : end + lang.blockComment[1].length;
+      push(rest.slice(0, len), "comment");
+      i += len;
+      continue;
+    }
+    const ch = rest[0];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      let j = 1;
+      while (j < rest.length && rest[j] !== ch) j += rest[j] === "\\" ? 2 : 1;
+      const len = Math.min(j + 1, rest.length);
+      push(rest.slice(0, len), "string");
+      i += len;
+      continue;
+    }
+    const num = /[0-9]/.test(ch) ? rest.match(NUMBER_RE) : null;
+    if (num) {
+      push(num[0], "number");
+      i += num[0].length;
+      continue;
+    }
+    const word = rest.match(WORD_RE);
+    if (word) {
+      push(word[0], lang.keywords.has(word[0]) ? "keyword" : "plain");
+      i += word[0].length;
+      continue;
+    }
+    push(ch, "plain");
+    i++;
+  }
+  return tokens;
+}
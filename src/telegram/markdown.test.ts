@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { markdownToTelegramHtml, inlineToHtml, splitTelegramHtml, htmlToPlainText } from "./markdown.js";
+
+describe("inlineToHtml", () => {
+  it("converts emphasis, strikethrough and code", () => {
+    expect(inlineToHtml("**bold** and *it* and __b__ and _i_ and ~~gone~~")).toBe(
+      "<b>bold</b> and <i>it</i> and <b>b</b> and <i>i</i> and <s>gone</s>"
+    );
+    expect(inlineToHtml("***both***")).toBe("<b><i>both</i></b>");
+    expect(inlineToHtml("*a **b** c*")).toBe("<i>a <b>b</b> c</i>");
+  });
+
+  it("leaves underscores inside words and inline code alone", () => {
+    expect(inlineToHtml("set max_retry_count in `my_config_file`")).toBe(
+      "set max_retry_count in <code>my_config_file</code>"
+    );
+    expect(inlineToHtml("`` a `tick` ``")).toBe("<code>a `tick`</code>");
+    expect(inlineToHtml("**not `closed** here`")).toBe("**not <code>closed** here</code>");
+  });
+
+  it("escapes HTML and honours backslash escapes", () => {
+    expect(inlineToHtml("a < b && c > d")).toBe("a &lt; b &amp;&amp; c &gt; d");
+    expect(inlineToHtml("\\*literal\\* 2 * 3")).toBe("*literal* 2 * 3");
+    expect(inlineToHtml("`<div>`")).toBe("<code>&lt;div&gt;</code>");
+  });
+
+  it("converts links, dropping ones Telegram can't open", () => {
+    expect(inlineToHtml('[the **docs**](https://x.dev/a_(b) "Title")')).toBe('<a href="https://x.dev/a_(b)">the <b>docs</b></a>');
+    expect(inlineToHtml("see [app.ts](src/app.ts:12)")).toBe("see app.ts");
+    expect(inlineToHtml("![chart](https://x.dev/c.png)")).toBe('<a href="https://x.dev/c.png">chart</a>');
+    expect(inlineToHtml("<https://x.dev?a=1&b=2>")).toBe('<a href="https://x.dev?a=1&amp;b=2">https://x.dev?a=1&amp;b=2</a>');
+  });
+});
+
+describe("markdownToTelegramHtml", () => {
+  it("flattens headings, lists and rules", () => {
+    const md = [
+      "## Summary",
+      "- first",
+      "  - nested `x`",
+      "1. step",
+      "- [x] done",
+      "- [ ] todo",
+      "---",
+    ].join("\n");
+    expect(markdownToTelegramHtml(md)).toBe(
+      ["<b>Summary</b>", "• first", "  ◦ nested <code>x</code>", "1. step", "☑ done", "☐ todo", "──────────"].join("\n")
+    );
+  });
+
+  it("renders fenced code as pre blocks, keeping the language and dropping list indent", () => {
+    expect(markdownToTelegramHtml("```ts\nif (a < b) {}\n```")).toBe(
+      '<pre><code class="language-ts">if (a &lt; b) {}</code></pre>'
+    );
+    expect(markdownToTelegramHtml("1. Run:\n   ```\n   npm **test**\n   ```")).toBe("1. Run:\n<pre>npm **test**</pre>");
+    expect(markdownToTelegramHtml("```\nunclosed")).toBe("<pre>unclosed</pre>");
+  });
+
+  it("renders blockquotes recursively", () => {
+    expect(markdownToTelegramHtml("> **Note**\n> - item\nafter")).toBe("<blockquote><b>Note</b>\n• item</blockquote>\nafter");
+  });
+});
+
+describe("splitTelegramHtml", () => {
+  it("returns short text as one chunk and drops blank text", () => {
+    expect(splitTelegramHtml("<b>hi</b>")).toEqual(["<b>hi</b>"]);
+    expect(splitTelegramHtml("  \n")).toEqual([]);
+  });
+
+  it("splits at line breaks and reopens tags across chunks", () => {
+    const code = Array.from({ length: 40 }, (_, i) => `line ${i} ${"x".repeat(20)}`).join("\n");
+    const html = `intro\n<pre><code class="language-py">${code}</code></pre>`;
+    const chunks = splitTelegramHtml(html, 500);
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(500);
+    expect(chunks[1].startsWith('<pre><code class="language-py">')).toBe(true);
+    expect(chunks[1].endsWith("</code></pre>")).toBe(true);
+    expect(chunks.map(htmlToPlainText).join("\n")).toBe(htmlToPlainText(html));
+  });
+
+  it("never cuts inside a tag or entity when there is no line break", () => {
+    const html = ("a&amp;b <i>c</i> ").repeat(100);
+    for (const chunk of splitTelegramHtml(html, 300)) {
+      expect(chunk).not.toMatch(/&[a-z]*$|<[^>]*$/);
+      expect(chunk).not.toMatch(/^[a-z]*;|^[^<]*>/);
+    }
+  });
+});
+
+describe("htmlToPlainText", () => {
+  it("strips tags and unescapes entities", () => {
+    expect(htmlToPlainText('<a href="x">a &lt;b&gt; &amp; &quot;c&quot;</a>')).toBe('a <b> & "c"');
+  });
+});
@@ -0,0 +1,315 @@
+// ---------------------------------------------------------------------------
+// CommonMark/GFM → Telegram HTML
+//
+// Telegram's HTML mode understands <b>, <i>, <s>, <code>, <pre>, <a> and
+// <blockquote>. Everything else is flattened to text: headings become bold,
+// list items get bullet characters, rules become a line. Only <, > and & need
+// escaping, which makes HTML far more forgiving than MarkdownV2.
+// ---------------------------------------------------------------------------
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttr(text: string): string {
+  return escapeHtml(text).replace(/"/g, "&quot;");
+}
+
+// Characters CommonMark lets you backslash-escape
+const ESCAPABLE_RE = /[!-/:-@[-`{-~]/;
+// Telegram rejects links it can't open (e.g. relative file paths), failing the whole message
+const LINKABLE_URL_RE = /^(https?:\/\/|mailto:|tg:)/i;
+
+// Index of the backtick run closing a code span opened by `length` backticks, or -1
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+  const re = /`+/g;
+  re.lastIndex = from;
+  for (let m = re.exec(text); m; m = re.exec(text)) {
+    if (m[0].length === length) return m.index;
+  }
+  return -1;
+}
+
+// Index just past the bracket matching the one at `open`, skipping escapes and code spans
+function findClosingBracket(text: string, open: number, openCh: string, closeCh: string): number {
+  let depth = 0;
+  for (let j = open; j < text.length; j++) {
+    const ch = text[j];
+    if (ch === "\\") {
+      j++;
+    } else if (ch === "`") {
+      const run = /^`+/.exec(text.slice(j))![0];
+      const end = findCodeSpanEnd(text, j + run.length, run.length);
+      if (end !== -1) j = end + run.length - 1;
+    } else if (ch === openCh) {
+      depth++;
+    } else if (ch === closeCh && --depth === 0) {
+      return j + 1;
+    }
+  }
+  return -1;
+}
+
+interface Link { label: string; url: string; end: number }
+
+// [label](url "title") or ![alt](url) starting at i
+function matchLink(text: string, i: number): Link | null {
+  const start = text[i] === "!" && text[i + 1] === "[" ? i + 1 : text[i] === "[" ? i : -1;
+  if (start === -1) return null;
+  const labelEnd = findClosingBracket(text, start, "[", "]");
+  if (labelEnd === -1 || text[labelEnd] !== "(") return null;
+  const urlEnd = findClosingBracket(text, labelEnd, "(", ")");
+  if (urlEnd === -1) return null;
+  const target = text.slice(labelEnd + 1, urlEnd - 1).trim();
+  const url = target.replace(/\s+("[^"]*"|'[^']*')$/, "").replace(/^<(.*)>$/, "$1");
+  const label = text.slice(start + 1, labelEnd - 1) || url;
+  return { label, url, end: urlEnd };
+}
+
+const EMPHASIS: { delim: string; tag: string }[] = [
+  { delim: "**", tag: "b" },
+  { delim: "__", tag: "b" },
+  { delim: "~~", tag: "s" },
+  { delim: "*", tag: "i" },
+  { delim: "_", tag: "i" },
+];
+
+const isWordChar = (ch: string | undefined) => ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+const isSpace = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+
+// Emphasis opened at i: the tag and the text between the delimiters
+function matchEmphasis(text: string, i: number): { tag: string; inner: string; end: number } | null {
+  for (const { delim, tag } of EMPHASIS) {
+    if (!text.startsWith(delim, i)) continue;
+    const underscore = delim[0] === "_";
+    // Openers need text right after them; underscores don't work inside words (snake_case)
+    if (isSpace(text[i + delim.length]) || (underscore && isWordChar(text[i - 1]))) continue;
+
+    for (let j = i + delim.length + 1; j < text.length; j++) {
+      const ch = text[j];
+      if (ch === "\\") {
+        j++;
+        continue;
+      }
+      if (ch === "`") {
+        const run = /^`+/.exec(text.slice(j))![0];
+        const end = findCodeSpanEnd(text, j + run.length, run.length);
+        if (end !== -1) j = end + run.length - 1;
+        continue;
+      }
+      if (!text.startsWith(delim, j)) continue;
+      // A single delimiter skips over doubled ones, which belong to nested emphasis
+      if (delim.length === 1 && text[j + 1] === delim) {
+        j++;
+        continue;
+      }
+      // Close at the end of a delimiter run so ***x*** nests as <b><i>x</i></b>
+      let close = j;
+      while (text[close + delim.length] === delim[0]) close++;
+      if (isSpace(text[close - 1]) || (underscore && isWordChar(text[close + delim.length]))) {
+        j = close + delim.length - 1;
+        continue;
+      }
+      return { tag, inner: text.slice(i + delim.length, close), end: close + delim.length };
+    }
+  }
+  return null;
+}
+
+/** Convert inline Markdown (code, links, emphasis, escapes) to Telegram HTML. */
+export function inlineToHtml(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\\" && i + 1 < text.length && ESCAPABLE_RE.test(text[i + 1])) {
+      out += escapeHtml(text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = findCodeSpanEnd(text, i + run.length, run.length);
+      if (end === -1) {
+        out += run;
+        i += run.length;
+        continue;
+      }
+      let code = text.slice(i + run.length, end);
+      if (code.length > 2 && code.startsWith(" ") && code.endsWith(" ") && code.trim()) code = code.slice(1, -1);
+      out += `<code>${escapeHtml(code)}</code>`;
+      i = end + run.length;
+      continue;
+    }
+
+    const link = ch === "[" || ch === "!" ? matchLink(text, i) : null;
+    if (link) {
+      out += LINKABLE_URL_RE.test(link.url)
+        ? `<a href="${escapeAttr(link.url)}">${inlineToHtml(link.label)}</a>`
+        : inlineToHtml(link.label);
+      i = link.end;
+      continue;
+    }
+
+    const autolink = ch === "<" ? /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(text.slice(i)) : null;
+    if (autolink) {
+      out += `<a href="${escapeAttr(autolink[1])}">${escapeHtml(autolink[1])}</a>`;
+      i += autolink[0].length;
+      continue;
+    }
+
+    const emphasis = ch === "*" || ch === "_" || ch === "~" ? matchEmphasis(text, i) : null;
+    if (emphasis) {
+      out += `<${emphasis.tag}>${inlineToHtml(emphasis.inner)}</${emphasis.tag}>`;
+      i = emphasis.end;
+      continue;
+    }
+
+    out += escapeHtml(ch);
+    i++;
+  }
+  return out;
+}
+
+const FENCE_OPEN_RE = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)/;
+
+function isFenceClose(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= marker.length && /^(`+|~+)$/.test(trimmed) && trimmed[0] === marker[0];
+}
+
+// Leading whitespace as nesting depth, counting two spaces (or a tab) per level
+function indentLevel(indent: string): number {
+  return Math.floor(indent.replace(/\t/g, "  ").length / 2);
+}
+
+function convertLine(line: string): string {
+  const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)(\s+#+)?\s*$/);
+  if (heading) return `<b>${inlineToHtml(heading[1])}</b>`;
+
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) return "──────────";
+
+  const task = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+  if (task) return `${"  ".repeat(indentLevel(task[1]))}${task[2] === " " ? "☐" : "☑"} ${inlineToHtml(task[3])}`;
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) {
+    const level = indentLevel(bullet[1]);
+    return `${"  ".repeat(level)}${level % 2 === 0 ? "•" : "◦"} ${inlineToHtml(bullet[2])}`;
+  }
+
+  const ordered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+  if (ordered) return `${"  ".repeat(indentLevel(ordered[1]))}${ordered[2]}. ${inlineToHtml(ordered[3])}`;
+
+  return inlineToHtml(line);
+}
+
+/**
+ * Convert Markdown as Claude writes it (CommonMark plus GFM strikethrough and
+ * task lists) to Telegram HTML. Tables are expected to be split out beforehand.
+ */
+export function markdownToTelegramHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_OPEN_RE);
+    if (fence) {
+      const [, indent, marker, language] = fence;
+      const body: string[] = [];
+      for (i++; i < lines.length && !isFenceClose(lines[i], marker); i++) {
+        // Fences inside list items are indented; drop that indent from the code
+        body.push(lines[i].startsWith(indent) ? lines[i].slice(indent.length) : lines[i].trimStart());
+      }
+      i++;
+      const code = escapeHtml(body.join("\n"));
+      out.push(language
+        ? `<pre><code class="language-${escapeAttr(language)}">${code}</code></pre>`
+        : `<pre>${code}</pre>`);
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && /^\s{0,3}>/.test(lines[i]); i++) quoted.push(lines[i].replace(/^\s{0,3}> ?/, ""));
+      out.push(`<blockquote>${markdownToTelegramHtml(quoted.join("\n"))}</blockquote>`);
+      continue;
+    }
+
+    out.push(convertLine(line));
+    i++;
+  }
+  return out.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Splitting HTML into messages
+// ---------------------------------------------------------------------------
+
+const TAG_RE = /<(\/?)([a-z-]+)[^>]*>/g;
+// Room left in each chunk for the tags closed and reopened at a cut
+const TAG_RESERVE = 200;
+
+// Open tags (outermost first) after the given HTML, starting from `stack`
+function openTagsAfter(stack: string[], html: string): string[] {
+  const open = [...stack];
+  for (const m of html.matchAll(TAG_RE)) {
+    if (m[1]) open.pop();
+    else open.push(m[0]);
+  }
+  return open;
+}
+
+const closingTag = (openTag: string) => `</${/^<([a-z-]+)/.exec(openTag)![1]}>`;
+
+// Move a cut back so it never lands inside a tag or an &entity;
+function safeCut(html: string, from: number, end: number): number {
+  const lt = html.lastIndexOf("<", end - 1);
+  if (lt >= from && html.lastIndexOf(">", end - 1) < lt) end = lt;
+  const amp = html.lastIndexOf("&", end - 1);
+  if (amp >= from && amp > end - 8 && html.indexOf(";", amp) >= end) end = amp;
+  return end > from ? end : from + 1;
+}
+
+/** Plain text of Telegram HTML, for resending a chunk Telegram refused to parse. */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(TAG_RE, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Split Telegram HTML into messages of at most `limit` characters, preferring
+ * line breaks. Tags open at a cut are closed at the end of one chunk and
+ * reopened at the start of the next, so every chunk parses on its own.
+ */
+export function splitTelegramHtml(html: string, limit = 4000): string[] {
+  if (!html.trim()) return [];
+  if (html.length <= limit) return [html];
+
+  const budget = limit - TAG_RESERVE;
+  const chunks: string[] = [];
+  let stack: string[] = [];
+  let pos = 0;
+  while (pos < html.length) {
+    let end = Math.min(pos + budget, html.length);
+    if (end < html.length) {
+      const newline = html.lastIndexOf("\n", end);
+      end = newline > pos ? newline : safeCut(html, pos, end);
+    }
+    const piece = html.slice(pos, end);
+    const prefix = stack.join("");
+    stack = openTagsAfter(stack, piece);
+    const suffix = [...stack].reverse().map(closingTag).join("");
+    if (htmlToPlainText(piece).trim()) chunks.push(prefix + piece + suffix);
+    pos = html[end] === "\n" ? end + 1 : end;
+  }
+  return chunks;
+}
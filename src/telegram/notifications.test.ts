@@ -1,7 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { sendStartupMessage, registerForNotifications, persistChatId, notifyResponse, notifyPermission, notifyWaiting, notifyImages, sendPing, resolveWaitingAction, friendlyModelName, notifications, notifyToolUse } from "./notifications.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { sendStartupMessage, registerForNotifications, persistChatId, notifyResponse, notifyPermission, notifyWaiting, notifyImages, sendPing, resolveWaitingAction, friendlyModelName, notifications, notifyToolUse, firstParagraph, setLongResponseConfig, getLongResponse, notifyAutoDecision, getPermissionRequest, notifyPermissionExpired } from "./notifications.js";
 import { WaitingType } from "../session/monitor.js";
-import { splitMessage } from "./utils.js";
+import { configureUsage } from "../session/usage.js";
 
 vi.mock("fs/promises", () => ({
   readFile: vi.fn(),
@@ -9,6 +9,10 @@ vi.mock("fs/promises", () => ({
   mkdir: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock("../agent/summarizer.js", () => ({
+  summarizeResponse: vi.fn(),
+}));
+
 vi.mock("../session/history.js", () => ({
   getAttachedSession: vi.fn(),
   ATTACHED_SESSION_PATH: "/tmp/test-attached",
@@ -18,6 +22,7 @@ vi.mock("../session/history.js", () => ({
 
 const { readFile, writeFile } = await import("fs/promises");
 import { getAttachedSession } from "../session/history.js";
+import { summarizeResponse } from "../agent/summarizer.js";
 
 describe("sendStartupMessage", () => {
   beforeEach(() => { vi.clearAllMocks(); });
@@ -88,43 +93,6 @@ describe("resolveWaitingAction", () => {
   });
 });
 
-describe("splitMessage", () => {
-  it("returns a single chunk when text is under the limit", () => {
-    expect(splitMessage("hello world")).toEqual(["hello world"]);
-  });
-
-  it("returns a single chunk when text equals the limit exactly", () => {
-    const text = "a".repeat(4000);
-    expect(splitMessage(text)).toEqual([text]);
-  });
-
-  it("splits at the last newline before the limit", () => {
-    const first = "a".repeat(3990);
-    const second = "b".repeat(100);
-    const text = first + "\n" + second;
-    const chunks = splitMessage(text);
-    expect(chunks).toHaveLength(2);
-    expect(chunks[0]).toBe(first);
-    expect(chunks[1]).toBe(second);
-  });
-
-  it("hard-splits at the limit when there is no newline", () => {
-    const text = "x".repeat(4500);
-    const chunks = splitMessage(text);
-    expect(chunks[0]).toHaveLength(4000);
-    expect(chunks[1]).toHaveLength(500);
-  });
-
-  it("handles three chunks correctly", () => {
-    // Two full chunks + a tail
-    const chunk = "a".repeat(3999) + "\n";
-    const text = chunk + chunk + "end";
-    const chunks = splitMessage(text);
-    expect(chunks).toHaveLength(3);
-    expect(chunks[2]).toBe("end");
-  });
-});
-
 // ---------------------------------------------------------------------------
 // notifyResponse
 // ---------------------------------------------------------------------------
@@ -183,6 +151,79 @@ describe("notifyResponse", () => {
 
     expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
   });
+
+  it("appends a token footer only when enabled", async () => {
+    const usage = [{ usage: { input: 1000, output: 200, cacheWrite: 0, cacheRead: 0 }, model: "claude-sonnet-4-5" }];
+    await notifyResponse({ ...makeState({ text: "Done" }), usage });
+    expect(mockBot.api.sendMessage.mock.calls[0][1]).not.toContain("↑");
+
+    configureUsage({ footer: true });
+    try {
+      await notifyResponse({ ...makeState({ text: "Done" }), usage });
+      expect(mockBot.api.sendMessage.mock.calls[1][1]).toContain("<code>↑1.0k ↓200 · ~$0.006</code>");
+    } finally {
+      configureUsage({});
+    }
+  });
+
+  describe("long responses", () => {
+    const long = "Short intro paragraph.\n\n" + "More detail. ".repeat(800);
+
+    beforeEach(() => {
+      mockBot.api.sendDocument = vi.fn().mockResolvedValue({ message_id: 7 });
+    });
+    afterEach(() => setLongResponseConfig(undefined));
+
+    it("sends the reply as a .md file with a preview and buttons", async () => {
+      await notifyResponse(makeState({ text: long }));
+
+      expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+      const [id, file, options] = mockBot.api.sendDocument.mock.calls[0];
+      expect(id).toBe(chatId);
+      expect(file.filename).toBe("myproject-reply.md");
+      expect(options.caption).toBe(`<code>myproject:</code> Short intro paragraph.\n\n📄 Full reply attached (${(long.length / 1000).toFixed(1)}k characters).`);
+      expect(options.parse_mode).toBe("HTML");
+      const buttons = options.reply_markup.inline_keyboard[0];
+      expect(buttons.map((b: any) => b.text)).toEqual(["Show full text here", "Summarize"]);
+      const key = buttons[0].callback_data.replace(/^longresp:full:/, "");
+      expect(getLongResponse(key)).toBe(long);
+    });
+
+    it("renders the preview's markdown, falling back to plain text", async () => {
+      mockBot.api.sendDocument.mockRejectedValueOnce(new Error("can't parse entities"));
+      await notifyResponse(makeState({ text: "Uses **bold** and `code`.\n\n" + long }));
+
+      expect(mockBot.api.sendDocument.mock.calls[0][2].caption).toContain("Uses <b>bold</b> and <code>code</code>.");
+      const fallback = mockBot.api.sendDocument.mock.calls[1][2];
+      expect(fallback.parse_mode).toBeUndefined();
+      expect(fallback.caption).toContain("myproject: Uses bold and code.");
+    });
+
+    it("uses a summary preview when configured, falling back to the first paragraph", async () => {
+      setLongResponseConfig({ preview: "summary" });
+      vi.mocked(summarizeResponse).mockResolvedValueOnce("It explained things.");
+      await notifyResponse(makeState({ text: long }));
+      expect(mockBot.api.sendDocument.mock.calls[0][2].caption).toContain("<code>myproject:</code> It explained things.");
+
+      vi.mocked(summarizeResponse).mockRejectedValueOnce(new Error("no key"));
+      await notifyResponse(makeState({ text: long }));
+      expect(mockBot.api.sendDocument.mock.calls[1][2].caption).toContain("Short intro paragraph.");
+    });
+
+    it("respects the configured threshold", async () => {
+      setLongResponseConfig({ threshold: 0 });
+      await notifyResponse(makeState({ text: long }));
+      expect(mockBot.api.sendDocument).not.toHaveBeenCalled();
+      expect(mockBot.api.sendMessage).toHaveBeenCalled();
+    });
+  });
+});
+
+describe("firstParagraph", () => {
+  it("returns the first paragraph, cut at a word when too long", () => {
+    expect(firstParagraph("One two.\n\nThree.")).toBe("One two.");
+    expect(firstParagraph("alpha beta gamma", 12)).toBe("alpha beta…");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -246,6 +287,52 @@ describe("notifyPermission", () => {
     expect(approveButton).toBeDefined();
     expect(denyButton).toBeDefined();
   });
+
+  it("offers always-allow buttons when the project and session are known", async () => {
+    const req = { ...makeReq({ requestId: "req-7" }), cwd: "/repos/shop", sessionId: "s1" };
+    await notifyPermission(req);
+    const keyboard = mockBot.api.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard as Array<Array<{ text: string; callback_data: string }>>;
+    expect(keyboard.slice(1).map((row) => row[0].callback_data)).toEqual([
+      "perm:edit:req-7",
+      "perm:always-cmd:req-7",
+      "perm:always-tool:req-7",
+      "perm:session:req-7",
+    ]);
+    expect(getPermissionRequest("req-7")).toBe(req);
+
+    mockBot.api.sendMessage.mockClear();
+    await notifyPermission(makeReq({ requestId: "req-8", toolName: "Read" }));
+    expect(mockBot.api.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard).toHaveLength(1);
+  });
+
+  it("marks expired prompts and says which action was applied", async () => {
+    mockBot.api.sendMessage.mockResolvedValueOnce({ message_id: 77 });
+    mockBot.api.editMessageText = vi.fn().mockResolvedValue({});
+    await notifyPermission({ ...makeReq({ requestId: "req-exp" }), cwd: "/repos/shop" });
+
+    await notifyPermissionExpired({ requestId: "req-exp", action: "deny", seconds: 300 });
+
+    const [, messageId, text, options] = mockBot.api.editMessageText.mock.calls[0];
+    expect(messageId).toBe(77);
+    expect(text).toMatch(/npm test\n```\n\n_⌛ Expired — denied_$/);
+    expect(options.reply_markup).toEqual({ inline_keyboard: [] });
+    expect(mockBot.api.sendMessage).toHaveBeenLastCalledWith(
+      chatId,
+      "⌛ Permission request for Bash `npm test` in `shop` expired after 5 min without an answer — denied.",
+      { parse_mode: "Markdown" }
+    );
+    expect(getPermissionRequest("req-exp")).toBeUndefined();
+  });
+
+  it("records policy decisions silently", async () => {
+    await notifyAutoDecision({ ...makeReq(), cwd: "/repos/shop" }, "approve", "tests are safe");
+
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith(
+      chatId,
+      "✅ Auto-approved Bash `npm test` in `shop` — tests are safe",
+      { parse_mode: "Markdown", disable_notification: true }
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -277,9 +364,9 @@ describe("notifyWaiting prompt rendering", () => {
 
     const calls = mockBot.api.sendMessage.mock.calls;
     expect(calls.length).toBe(2);
-    // First call: prompt text with Markdown parse mode (from sendMarkdownMessage)
-    expect(calls[0][1]).toBe("## My Plan\nDo the thing.");
-    expect(calls[0][2]).toEqual(expect.objectContaining({ parse_mode: "Markdown" }));
+    // First call: prompt converted to HTML (from sendMarkdownMessage)
+    expect(calls[0][1]).toBe("<b>My Plan</b>\nDo the thing.");
+    expect(calls[0][2]).toEqual(expect.objectContaining({ parse_mode: "HTML" }));
     // Second call: header with keyboard
     expect(calls[1][1]).toContain("⚠️ Claude is waiting");
     expect(calls[1][2]?.reply_markup).toBeDefined();
@@ -290,7 +377,7 @@ describe("notifyWaiting prompt rendering", () => {
 
     const promptCall = mockBot.api.sendMessage.mock.calls[0];
     const text: string = promptCall[1];
-    expect(text).toBe("*Bold* and `code`");
+    expect(text).toBe("<b>Bold</b> and <code>code</code>");
     expect(text).not.toContain('_"');
     expect(text).not.toContain('"_');
   });
@@ -304,6 +391,12 @@ describe("notifyWaiting prompt rendering", () => {
     expect(promptCall[1].length).toBe(3000);
   });
 
+  it("names other CLIs in the header, capitalised", async () => {
+    await notifyWaiting({ ...makeState(""), cliName: "codex" });
+
+    expect(mockBot.api.sendMessage.mock.calls[0][1]).toBe("⚠️ Codex is waiting in `myproject`:");
+  });
+
   it("skips prompt message when prompt is empty", async () => {
     await notifyWaiting(makeState(""));
 
@@ -325,8 +418,8 @@ describe("notifyWaiting prompt rendering", () => {
 
     const calls = mockBot.api.sendMessage.mock.calls;
     expect(calls.length).toBe(3);
-    // First: markdown attempt (failed)
-    expect(calls[0][2]).toEqual(expect.objectContaining({ parse_mode: "Markdown" }));
+    // First: HTML attempt (failed)
+    expect(calls[0][2]).toEqual(expect.objectContaining({ parse_mode: "HTML" }));
     // Second: plain text fallback (no parse_mode)
     expect(calls[1][2]).toBeUndefined();
     // Third: header+keyboard
@@ -739,6 +832,48 @@ describe("notifyToolUse", () => {
     // sendMessage should be called 3 times total: first tool, response text, new tool
     expect(mockBot.api.sendMessage).toHaveBeenCalledTimes(3);
   });
+
+  it("shows the detail of non-Bash tools", async () => {
+    notifications.register(mockBot as any, 123);
+    await notifications.notifyToolUse("myproject", "session-1", [
+      { id: "t1", name: "Edit", detail: "src/app.ts" },
+      { id: "t2", name: "Grep", detail: "TODO" },
+    ]);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith(
+      123,
+      "`myproject:` Edit(`src/app.ts`) → Grep(`TODO`)",
+      expect.any(Object)
+    );
+  });
+
+  it("only shows the configured tools", async () => {
+    notifications.register(mockBot as any, 123);
+    notifications.setNotifiedTools(["Bash", "mcp__*"]);
+    try {
+      await notifications.notifyToolUse("myproject", "session-1", [{ id: "t1", name: "Read", detail: "a.ts" }]);
+      expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+      await notifications.notifyToolUse("myproject", "session-1", [
+        { id: "t2", name: "Read", detail: "b.ts" },
+        { id: "t3", name: "mcp__github__get_issue" },
+      ]);
+      expect(mockBot.api.sendMessage).toHaveBeenCalledWith(123, "`myproject:` mcp__github__get_issue", expect.any(Object));
+    } finally {
+      notifications.setNotifiedTools(undefined);
+    }
+  });
+
+  it("offers a Show diffs button for file edits", async () => {
+    notifications.register(mockBot as any, 123);
+    const edit = { tool: "Edit", filePath: "/a.ts", changes: [{ oldText: "a", newText: "b" }] };
+    const write = { tool: "Write", filePath: "/b.ts", changes: [{ oldText: "", newText: "c" }] };
+    await notifications.notifyToolUse("myproject", "session-1", [{ id: "t1", name: "Edit", detail: "/a.ts", edit }]);
+    await notifications.notifyToolUse("myproject", "session-1", [{ id: "t2", name: "Write", detail: "/b.ts", edit: write }]);
+
+    const keyboard = mockBot.api.editMessageText.mock.calls[0][3].reply_markup.inline_keyboard;
+    expect(keyboard[0][0].text).toBe("Show diffs (2)");
+    const key = keyboard[0][0].callback_data.replace(/^diffs:/, "");
+    expect(notifications.getDiffs(key)).toEqual([edit, write]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1,12 +1,17 @@
-import { Bot, InlineKeyboard } from "grammy";
+import { Bot, InlineKeyboard, InputFile } from "grammy";
 import { WaitingType, type SessionWaitingState, type SessionResponseState, type DetectedImage } from "../session/monitor.js";
-import type { PermissionRequest } from "../session/permissions.js";
+import type { PermissionExpiry, PermissionRequest } from "../session/permissions.js";
+import type { FileEdit, ToolUseEntry } from "../session/jsonl.js";
 import { getAttachedSession } from "../session/history.js";
 import { log } from "../logger.js";
 import { writeFile, readFile, mkdir } from "fs/promises";
 import { homedir } from "os";
-import { join } from "path";
+import { basename, join } from "path";
 import { sendMarkdownMessage, sendMarkdownMessageWithMessageId } from "./utils.js";
+import { htmlToPlainText, markdownToTelegramHtml } from "./markdown.js";
+import { formatUsageFooter, isUsageFooterEnabled } from "../session/usage.js";
+import { summarizeResponse } from "../agent/summarizer.js";
+import type { LongResponseConfig } from "../config/config.js";
 
 const CODEDOVE_DIR = join(homedir(), ".codedove");
 const CHAT_ID_PATH = join(CODEDOVE_DIR, "chat-id");
@@ -31,15 +36,41 @@ function buildWaitingKeyboard(waitingType: WaitingType, choices?: string[]): Inl
   return kb;
 }
 
+export const DEFAULT_LONG_RESPONSE_THRESHOLD = 8000;
+// Telegram captions are capped at 1024 characters; leave room for the label and footer.
+const PREVIEW_MAX_CHARS = 700;
+
+/** First paragraph of a reply, cut at a word boundary when longer than `max`. */
+export function firstParagraph(text: string, max = PREVIEW_MAX_CHARS): string {
+  const para = text.trim().split(/\n\s*\n/)[0];
+  if (para.length <= max) return para;
+  const cut = para.slice(0, max);
+  return cut.slice(0, Math.max(cut.lastIndexOf(" "), max / 2)) + "…";
+}
+
+type ToolStatusEntry = { name: string; command?: string; detail?: string };
+
 export class NotificationService {
   private bot: Bot | null = null;
   private chatId: number | null = null;
 
   // Tool use status messages: one editable message per session
-  private toolStatus = new Map<string, { messageId: number; tools: { name: string; command?: string }[] }>();
+  private toolStatus = new Map<string, { messageId: number; tools: ToolStatusEntry[]; diffKey: string; edits: FileEdit[] }>();
+  // File edits behind each status message's "Show diffs" button, by diff key
+  private diffs = new Map<string, FileEdit[]>();
+  private static MAX_TRACKED_DIFFS = 50;
+  // Tool names (a trailing * matches a prefix) shown in the tool status; null shows all
+  private notifiedTools: string[] | null = null;
+  // Full text of responses sent as documents, by key, for their inline buttons
+  private longResponses = new Map<string, string>();
+  private static MAX_TRACKED_LONG_RESPONSES = 20;
+  private longResponseConfig: LongResponseConfig = {};
 
   private messageToSession = new Map<number, { sessionId: string; cwd?: string }>();
   private static MAX_TRACKED_MESSAGES = 500;
+  // Requests behind permission keyboards, for the buttons that record a rule and for expiry edits
+  private permissionRequests = new Map<string, { req: PermissionRequest; messageId?: number; text: string; markdown: boolean }>();
+  private static MAX_TRACKED_PERMISSIONS = 50;
 
   register(bot: Bot, chatId: number): void {
     this.bot = bot;
@@ -48,6 +79,19 @@ export class NotificationService {
     this.messageToSession.clear();
   }
 
+  setNotifiedTools(tools: string[] | undefined): void {
+    this.notifiedTools = tools ?? null;
+  }
+
+  setLongResponseConfig(config: LongResponseConfig | undefined): void {
+    this.longResponseConfig = config ?? {};
+  }
+
+  private isToolNotified(name: string): boolean {
+    if (!this.notifiedTools) return true;
+    return this.notifiedTools.some((t) => (t.endsWith("*") ? name.startsWith(t.slice(0, -1)) : name === t));
+  }
+
   async sendPing(text: string): Promise<void> {
     if (!this.bot || !this.chatId) return;
     await sendMarkdownMessage(this.bot, this.chatId, text);
@@ -62,7 +106,8 @@ export class NotificationService {
       if (state.prompt) {
         await sendMarkdownMessage(this.bot, this.chatId, state.prompt);
       }
-      const header = `⚠️ Claude is waiting in \`${state.projectName}\`:`;
+      const cli = state.cliName ? state.cliName[0].toUpperCase() + state.cliName.slice(1) : "Claude";
+      const header = `⚠️ ${cli} is waiting in \`${state.projectName}\`:`;
       await this.bot.api.sendMessage(this.chatId, header, {
         parse_mode: "Markdown",
         reply_markup: keyboard,
@@ -84,7 +129,16 @@ export class NotificationService {
       ? `${cliLabel} ${modelName}`
       : cliLabel || modelName;
     const suffix = parenContent ? ` (${parenContent})` : "";
-    const text = `\`${state.projectName}${suffix}:\` ${state.text.replace(/:$/m, "")}`;
+    const footer = isUsageFooterEnabled() && state.usage ? formatUsageFooter(state.usage) : null;
+    const label = `\`${state.projectName}${suffix}:\``;
+    const body = state.text.replace(/:$/m, "");
+    const footerLine = footer ? `\n\n\`${footer}\`` : "";
+    const threshold = this.longResponseConfig.threshold ?? DEFAULT_LONG_RESPONSE_THRESHOLD;
+    if (threshold > 0 && body.length > threshold) {
+      await this.notifyLongResponse(state, label, body, footerLine);
+      return;
+    }
+    const text = `${label} ${body}${footerLine}`;
     try {
       const messageId = await sendMarkdownMessageWithMessageId(this.bot, this.chatId, text);
       if (messageId !== null) this.trackMessage(messageId, state.sessionId, state.cwd);
@@ -94,6 +148,50 @@ export class NotificationService {
     }
   }
 
+  // Send a long reply as a .md document whose caption is a preview, instead of
+  // flooding the chat with 4000-character chunks.
+  private async notifyLongResponse(state: SessionResponseState, label: string, body: string, footerLine: string): Promise<void> {
+    const { bot, chatId } = this;
+    if (!bot || !chatId) return;
+    const key = `${state.sessionId.slice(0, 8)}-${Date.now().toString(36)}`;
+    this.longResponses.set(key, body);
+    if (this.longResponses.size > NotificationService.MAX_TRACKED_LONG_RESPONSES) {
+      this.longResponses.delete(this.longResponses.keys().next().value!);
+    }
+
+    let preview = firstParagraph(body);
+    if (this.longResponseConfig.preview === "summary") {
+      preview = await summarizeResponse(body)
+        .then((summary) => firstParagraph(summary))
+        .catch((err) => {
+          log({ message: `long response summary failed, using first paragraph: ${err instanceof Error ? err.message : String(err)}` });
+          return preview;
+        });
+    }
+    const size = `${(body.length / 1000).toFixed(1)}k characters`;
+    // Rendered like other replies; the preview is the agent's own markdown
+    const caption = markdownToTelegramHtml(`${label} ${preview}\n\n📄 Full reply attached (${size}).${footerLine}`);
+    const keyboard = new InlineKeyboard()
+      .text("Show full text here", `longresp:full:${key}`)
+      .text("Summarize", `longresp:summary:${key}`);
+    const file = new InputFile(Buffer.from(body, "utf8"), `${state.projectName}-reply.md`);
+
+    try {
+      const sent = await bot.api
+        .sendDocument(chatId, file, { caption, parse_mode: "HTML", reply_markup: keyboard })
+        .catch(() => bot.api.sendDocument(chatId, file, { caption: htmlToPlainText(caption), reply_markup: keyboard }));
+      this.trackMessage(sent.message_id, state.sessionId, state.cwd);
+      log({ chatId, message: `notified long response as document: ${state.projectName} (${size})` });
+    } catch (err) {
+      log({ message: `failed to send long response: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
+
+  /** Full text behind a long-response document's buttons, while it is still tracked. */
+  getLongResponse(key: string): string | undefined {
+    return this.longResponses.get(key);
+  }
+
   getSessionForMessage(messageId: number): { sessionId: string; cwd?: string } | undefined {
     return this.messageToSession.get(messageId);
   }
@@ -112,30 +210,96 @@ export class NotificationService {
     const commandLine = req.toolName === "Bash" && req.toolCommand
       ? `\n\`\`\`\n${req.toolCommand}\n\`\`\``
       : "";
-    const text = `🔐 *Claude needs your permission to use ${req.toolName}*${commandLine}`;
+    const text = `🔐 *${req.agent ?? "Claude"} needs your permission to use ${req.toolName}*${commandLine}`;
     const keyboard = new InlineKeyboard()
       .text("Yes", `perm:approve:${req.requestId}`)
-      .text("No", `perm:deny:${req.requestId}`);
+      .text("No", `perm:deny:${req.requestId}`)
+      .text("Deny with reason…", `perm:deny-reason:${req.requestId}`);
+    if (req.toolName === "Bash" && req.toolCommand) keyboard.row().text("Edit command", `perm:edit:${req.requestId}`);
+    if (req.toolName === "Bash" && req.toolCommand && req.cwd) {
+      keyboard.row().text("Always allow this command", `perm:always-cmd:${req.requestId}`);
+    }
+    if (req.cwd) keyboard.row().text("Always allow this tool in this project", `perm:always-tool:${req.requestId}`);
+    if (req.sessionId) keyboard.row().text("Allow for this session", `perm:session:${req.requestId}`);
+
+    const tracked: { req: PermissionRequest; messageId?: number; text: string; markdown: boolean } = { req, text, markdown: true };
+    this.permissionRequests.set(req.requestId, tracked);
+    if (this.permissionRequests.size > NotificationService.MAX_TRACKED_PERMISSIONS) {
+      this.permissionRequests.delete(this.permissionRequests.keys().next().value!);
+    }
 
     try {
-      await this.bot.api.sendMessage(this.chatId, text, {
+      const sent = await this.bot.api.sendMessage(this.chatId, text, {
         parse_mode: "Markdown",
         reply_markup: keyboard,
       });
+      tracked.messageId = sent?.message_id;
       log({ chatId: this.chatId, message: `permission notification: ${req.toolName} (${req.requestId.slice(0, 8)})` });
     } catch {
       try {
-        await this.bot.api.sendMessage(
+        const sent = await this.bot.api.sendMessage(
           this.chatId,
           req.toolInput,
           { reply_markup: keyboard }
         );
+        Object.assign(tracked, { messageId: sent?.message_id, text: req.toolInput, markdown: false });
       } catch (err) {
         log({ message: `failed to send permission notification: ${err instanceof Error ? err.message : String(err)}` });
       }
     }
   }
 
+  getPermissionRequest(requestId: string): PermissionRequest | undefined {
+    return this.permissionRequests.get(requestId)?.req;
+  }
+
+  /** Mark an unanswered prompt as expired and say which action the hook applied. */
+  async notifyPermissionExpired(expiry: PermissionExpiry): Promise<void> {
+    if (!this.bot || !this.chatId) return;
+    const tracked = this.permissionRequests.get(expiry.requestId);
+    this.permissionRequests.delete(expiry.requestId);
+    const outcome = expiry.action === "approve" ? "approved" : "denied";
+
+    if (tracked?.messageId) {
+      const note = `⌛ Expired — ${outcome}`;
+      await this.bot.api
+        .editMessageText(this.chatId, tracked.messageId, `${tracked.text}\n\n${tracked.markdown ? `_${note}_` : note}`, {
+          ...(tracked.markdown ? { parse_mode: "Markdown" as const } : {}),
+          reply_markup: { inline_keyboard: [] },
+        })
+        .catch((err) => log({ message: `permission expiry edit error: ${err instanceof Error ? err.message : String(err)}` }));
+    }
+
+    const req = tracked?.req;
+    const subject = req ? (req.toolCommand ? `${req.toolName} \`${req.toolCommand}\`` : req.toolName) : "a tool";
+    const where = req?.cwd ? ` in \`${basename(req.cwd)}\`` : "";
+    const after = expiry.seconds >= 60 && expiry.seconds % 60 === 0 ? `${expiry.seconds / 60} min` : `${expiry.seconds}s`;
+    const text = `⌛ Permission request for ${subject}${where} expired after ${after} without an answer — ${outcome}.`;
+    try {
+      await this.bot.api.sendMessage(this.chatId, text, { parse_mode: "Markdown" });
+    } catch {
+      await this.bot.api
+        .sendMessage(this.chatId, text)
+        .catch((err) => log({ message: `notifyPermissionExpired error: ${err instanceof Error ? err.message : String(err)}` }));
+    }
+  }
+
+  // Sent silently: the request was already answered, this is just a record.
+  async notifyAutoDecision(req: PermissionRequest, action: "approve" | "deny", reason: string): Promise<void> {
+    if (!this.bot || !this.chatId) return;
+    const subject = req.toolCommand ? `${req.toolName} \`${req.toolCommand}\`` : req.toolName;
+    const where = req.cwd ? ` in \`${basename(req.cwd)}\`` : "";
+    const verb = action === "approve" ? "✅ Auto-approved" : "🚫 Auto-denied";
+    const text = `${verb} ${subject}${where} — ${reason}`;
+    try {
+      await this.bot.api.sendMessage(this.chatId, text, { parse_mode: "Markdown", disable_notification: true });
+    } catch {
+      await this.bot.api
+        .sendMessage(this.chatId, text, { disable_notification: true })
+        .catch((err) => log({ message: `notifyAutoDecision error: ${err instanceof Error ? err.message : String(err)}` }));
+    }
+  }
+
   async notifyImages(images: DetectedImage[], key: string): Promise<void> {
     if (!this.bot || !this.chatId) return;
     const n = images.length;
@@ -153,33 +317,36 @@ export class NotificationService {
   async notifyToolUse(
     projectName: string,
     sessionId: string,
-    tools: { id: string; name: string; command?: string }[]
+    tools: ToolUseEntry[]
   ): Promise<void> {
     if (!this.bot || !this.chatId) return;
 
     const existing = this.toolStatus.get(sessionId);
-    const newEntries = tools.map((t) => ({
-      name: t.name,
-      ...(t.command ? { command: t.command } : {}),
-    }));
+    const newEntries: ToolStatusEntry[] = tools
+      .filter((t) => this.isToolNotified(t.name))
+      .map((t) => ({
+        name: t.name,
+        ...(t.command ? { command: t.command } : {}),
+        ...(t.detail ? { detail: t.detail } : {}),
+      }));
+    if (newEntries.length === 0) return;
+    const newEdits = tools.filter((t) => t.edit && this.isToolNotified(t.name)).map((t) => t.edit!);
 
     if (existing) {
       existing.tools.push(...newEntries);
+      existing.edits.push(...newEdits);
       const text = this.formatToolStatus(projectName, existing.tools);
       try {
-        await this.bot.api.editMessageText(this.chatId, existing.messageId, text, {
-          parse_mode: "Markdown",
-        });
+        await this.bot.api.editMessageText(this.chatId, existing.messageId, text, this.toolStatusOptions(existing.diffKey, existing.edits));
       } catch (err) {
         log({ message: `editMessageText error: ${err instanceof Error ? err.message : String(err)}` });
       }
     } else {
       const text = this.formatToolStatus(projectName, newEntries);
+      const diffKey = `${sessionId.slice(0, 8)}-${Date.now().toString(36)}`;
       try {
-        const sent = await this.bot.api.sendMessage(this.chatId, text, {
-          parse_mode: "Markdown",
-        });
-        this.toolStatus.set(sessionId, { messageId: sent.message_id, tools: newEntries });
+        const sent = await this.bot.api.sendMessage(this.chatId, text, this.toolStatusOptions(diffKey, newEdits));
+        this.toolStatus.set(sessionId, { messageId: sent.message_id, tools: newEntries, diffKey, edits: newEdits });
         this.trackMessage(sent.message_id, sessionId);
       } catch (err) {
         log({ message: `notifyToolUse send error: ${err instanceof Error ? err.message : String(err)}` });
@@ -187,10 +354,29 @@ export class NotificationService {
     }
   }
 
-  private formatToolStatus(projectName: string, tools: { name: string; command?: string }[]): string {
-    const parts = tools.map((t) =>
-      t.command ? `${t.name}(\`${t.command}\`)` : t.name
-    );
+  /** The file edits behind a "Show diffs" button, while they are still tracked. */
+  getDiffs(diffKey: string): FileEdit[] | undefined {
+    return this.diffs.get(diffKey);
+  }
+
+  private toolStatusOptions(diffKey: string, edits: FileEdit[]) {
+    if (edits.length === 0) return { parse_mode: "Markdown" as const };
+    this.diffs.set(diffKey, edits);
+    if (this.diffs.size > NotificationService.MAX_TRACKED_DIFFS) {
+      this.diffs.delete(this.diffs.keys().next().value!);
+    }
+    const label = edits.length === 1 ? "Show diff" : `Show diffs (${edits.length})`;
+    return {
+      parse_mode: "Markdown" as const,
+      reply_markup: new InlineKeyboard().text(label, `diffs:${diffKey}`),
+    };
+  }
+
+  private formatToolStatus(projectName: string, tools: ToolStatusEntry[]): string {
+    const parts = tools.map((t) => {
+      const arg = t.command ?? t.detail;
+      return arg ? `${t.name}(\`${arg}\`)` : t.name;
+    });
     return `\`${projectName}:\` ${parts.join(" → ")}`;
   }
 }
@@ -232,6 +418,18 @@ export async function notifyPermission(req: PermissionRequest): Promise<void> {
   return notifications.notifyPermission(req);
 }
 
+export function getPermissionRequest(requestId: string): PermissionRequest | undefined {
+  return notifications.getPermissionRequest(requestId);
+}
+
+export async function notifyPermissionExpired(expiry: PermissionExpiry): Promise<void> {
+  return notifications.notifyPermissionExpired(expiry);
+}
+
+export async function notifyAutoDecision(req: PermissionRequest, action: "approve" | "deny", reason: string): Promise<void> {
+  return notifications.notifyAutoDecision(req, action, reason);
+}
+
 export async function notifyImages(images: DetectedImage[], key: string): Promise<void> {
   return notifications.notifyImages(images, key);
 }
@@ -239,11 +437,29 @@ export async function notifyImages(images: DetectedImage[], key: string): Promis
 export async function notifyToolUse(
   projectName: string,
   sessionId: string,
-  tools: { id: string; name: string; command?: string }[]
+  tools: ToolUseEntry[]
 ): Promise<void> {
   return notifications.notifyToolUse(projectName, sessionId, tools);
 }
 
+export function getDiffs(diffKey: string): FileEdit[] | undefined {
+  return notifications.getDiffs(diffKey);
+}
+
+export function getLongResponse(key: string): string | undefined {
+  return notifications.getLongResponse(key);
+}
+
+/** Apply the `longResponses` setting from config.json. */
+export function setLongResponseConfig(config: LongResponseConfig | undefined): void {
+  notifications.setLongResponseConfig(config);
+}
+
+/** Apply the `notifyTools` setting from config.json. */
+export function setNotifiedTools(tools: string[] | undefined): void {
+  notifications.setNotifiedTools(tools);
+}
+
 export function getSessionForMessage(messageId: number): { sessionId: string; cwd?: string } | undefined {
   return notifications.getSessionForMessage(messageId);
 }
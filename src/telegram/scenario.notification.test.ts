@@ -107,8 +107,8 @@ describe("scenario: JSONL write → watchForResponse → notifyResponse → Tele
     // Must be sent to the configured chat ID
     expect(sentChatId).toBe(CHAT_ID);
 
-    // Must start with a backtick-quoted project-name prefix
-    expect(sentText).toMatch(/^`[^`]+:`/);
+    // Must start with the project-name prefix as inline code
+    expect(sentText).toMatch(/^<code>[^<]+:<\/code>/);
 
     // Colons and semicolons are preserved (TTS sanitization moved to voice layer)
     expect(sentText).toContain("Step one: done; step two: done");
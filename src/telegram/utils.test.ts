@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { splitMessage, splitAtTables, sendMarkdownReply, sendMarkdownMessage } from "./utils.js";
+import { splitAtTables, sendMarkdownReply, sendMarkdownMessage, CODE_IMAGE_MIN_LINES, CODE_IMAGE_MAX_LINES } from "./utils.js";
 
 // Mock tableImage — renderTableAsPng returns a small Buffer by default
 const mockRenderTableAsPng = vi.fn();
@@ -7,6 +7,13 @@ vi.mock("./tableImage.js", () => ({
   renderTableAsPng: (...args: unknown[]) => mockRenderTableAsPng(...args),
 }));
 
+const mockRenderCodeAsPngs = vi.fn();
+vi.mock("./codeImage.js", () => ({
+  renderCodeAsPngs: (...args: unknown[]) => mockRenderCodeAsPngs(...args),
+  CODE_LINES_PER_PAGE: 60,
+  CODE_MAX_PAGES: 4,
+}));
+
 vi.mock("../logger.js", () => ({
   log: vi.fn(),
 }));
@@ -24,30 +31,6 @@ vi.mock("grammy", async () => {
 
 beforeEach(() => vi.clearAllMocks());
 
-describe("splitMessage", () => {
-  it("returns single chunk when text fits within limit", () => {
-    expect(splitMessage("hello", 100)).toEqual(["hello"]);
-  });
-
-  it("splits at newline boundary when text exceeds limit", () => {
-    const text = "line one\nline two\nline three";
-    const chunks = splitMessage(text, 15);
-    expect(chunks.length).toBeGreaterThan(1);
-    chunks.forEach((c) => expect(c.length).toBeLessThanOrEqual(15));
-  });
-
-  it("falls back to hard split when no newline found within limit", () => {
-    const text = "a".repeat(50);
-    const chunks = splitMessage(text, 20);
-    expect(chunks.length).toBeGreaterThan(1);
-    chunks.forEach((c) => expect(c.length).toBeLessThanOrEqual(20));
-  });
-
-  it("returns empty array for empty string", () => {
-    expect(splitMessage("", 100)).toEqual([]);
-  });
-});
-
 describe("splitAtTables", () => {
   it("returns a single text part when there are no tables", () => {
     const parts = splitAtTables("Just some plain text.\nAnother line.");
@@ -89,6 +72,35 @@ describe("splitAtTables", () => {
     expect(parts).toHaveLength(1);
     expect(parts[0].type).toBe("table");
   });
+
+  const codeLines = Array.from({ length: CODE_IMAGE_MIN_LINES }, (_, i) => `x = ${i}`);
+
+  it("splits out long fenced code blocks with their language", () => {
+    const input = ["Intro", "```python", ...codeLines, "```", "Outro"].join("\n");
+    const parts = splitAtTables(input);
+    expect(parts).toEqual([
+      { type: "text", content: "Intro" },
+      { type: "code", language: "python", lines: codeLines },
+      { type: "text", content: "Outro" },
+    ]);
+  });
+
+  it("keeps short snippets and unclosed fences in the text", () => {
+    const short = "Run:\n```\nnpm test\n```\nDone";
+    expect(splitAtTables(short)).toEqual([{ type: "text", content: short }]);
+    const unclosed = ["```", ...codeLines].join("\n");
+    expect(splitAtTables(unclosed)).toEqual([{ type: "text", content: unclosed }]);
+  });
+
+  it("keeps blocks too long for the image pages in the text", () => {
+    const long = ["```python", ...Array.from({ length: CODE_IMAGE_MAX_LINES + 1 }, (_, i) => `x = ${i}`), "```"].join("\n");
+    expect(splitAtTables(long)).toEqual([{ type: "text", content: long }]);
+  });
+
+  it("does not treat pipes inside a code fence as a table", () => {
+    const input = "```sh\n| not a table |\n```";
+    expect(splitAtTables(input)).toEqual([{ type: "text", content: input }]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -103,10 +115,10 @@ describe("sendMarkdownReply", () => {
     } as any;
   }
 
-  it("sends plain text with Markdown parse_mode", async () => {
+  it("sends plain text with HTML parse_mode", async () => {
     const ctx = makeCtx();
     await sendMarkdownReply(ctx, "Hello world");
-    expect(ctx.reply).toHaveBeenCalledWith("Hello world", { parse_mode: "Markdown" });
+    expect(ctx.reply).toHaveBeenCalledWith("Hello world", { parse_mode: "HTML" });
   });
 
   it("renders table as PNG and sends photo", async () => {
@@ -121,6 +133,22 @@ describe("sendMarkdownReply", () => {
     expect(ctx.reply).not.toHaveBeenCalled();
   });
 
+  it("renders long code blocks as photos, falling back to a fenced block", async () => {
+    const ctx = makeCtx();
+    const code = Array.from({ length: CODE_IMAGE_MIN_LINES }, (_, i) => `line ${i}`);
+    mockRenderCodeAsPngs.mockReturnValue([Buffer.from("page-1"), Buffer.from("page-2")]);
+
+    await sendMarkdownReply(ctx, ["```ts", ...code, "```"].join("\n"));
+    expect(mockRenderCodeAsPngs).toHaveBeenCalledWith(code, "ts");
+    expect(ctx.replyWithPhoto).toHaveBeenCalledTimes(2);
+    expect(ctx.replyWithPhoto.mock.calls[0][0].filename).toBe("code.png");
+    expect(ctx.reply).not.toHaveBeenCalled();
+
+    mockRenderCodeAsPngs.mockImplementation(() => { throw new Error("no canvas"); });
+    await sendMarkdownReply(ctx, ["```ts", ...code, "```"].join("\n"));
+    expect(ctx.reply).toHaveBeenCalledWith(`<pre><code class="language-ts">${code.join("\n")}</code></pre>`, { parse_mode: "HTML" });
+  });
+
   it("falls back to plain text when Markdown parse fails", async () => {
     const ctx = makeCtx();
     // First call with Markdown fails, second without parse_mode succeeds
@@ -133,6 +161,15 @@ describe("sendMarkdownReply", () => {
     // Second call should be without parse_mode
     expect(ctx.reply.mock.calls[1]).toEqual(["bad *markdown"]);
   });
+
+  it("resends a refused chunk as plain text without the HTML markup", async () => {
+    const ctx = makeCtx();
+    ctx.reply.mockRejectedValueOnce(new Error("can't parse entities")).mockResolvedValue(undefined);
+
+    await sendMarkdownReply(ctx, "## Result\nUse `a < b` and **x_y**");
+    expect(ctx.reply.mock.calls[0]).toEqual(["<b>Result</b>\nUse <code>a &lt; b</code> and <b>x_y</b>", { parse_mode: "HTML" }]);
+    expect(ctx.reply.mock.calls[1]).toEqual(["Result\nUse a < b and x_y"]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -149,10 +186,10 @@ describe("sendMarkdownMessage", () => {
     } as any;
   }
 
-  it("sends plain text with Markdown parse_mode via bot.api", async () => {
+  it("sends plain text with HTML parse_mode via bot.api", async () => {
     const bot = makeBot();
     await sendMarkdownMessage(bot, 12345, "Hello world");
-    expect(bot.api.sendMessage).toHaveBeenCalledWith(12345, "Hello world", { parse_mode: "Markdown" });
+    expect(bot.api.sendMessage).toHaveBeenCalledWith(12345, "Hello world", { parse_mode: "HTML" });
   });
 
   it("renders table as PNG and sends photo via bot.api", async () => {
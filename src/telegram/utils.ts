@@ -1,40 +1,82 @@
 import { InputFile } from "grammy";
 import type { Context, Bot } from "grammy";
 import { renderTableAsPng } from "./tableImage.js";
+import { renderCodeAsPngs, CODE_LINES_PER_PAGE, CODE_MAX_PAGES } from "./codeImage.js";
+import { htmlToPlainText, markdownToTelegramHtml, splitTelegramHtml } from "./markdown.js";
 import { log } from "../logger.js";
 
 // ---------------------------------------------------------------------------
-// Table splitting
+// Table and code block splitting
 // ---------------------------------------------------------------------------
 
 export type MessagePart =
   | { type: "text"; content: string }
-  | { type: "table"; lines: string[] };
+  | { type: "table"; lines: string[] }
+  | { type: "code"; language: string; lines: string[] };
 
-// Split text into alternating text/table parts at markdown table boundaries.
+// Fenced code blocks shorter than this stay in the text as a monospace block;
+// longer ones are rendered as images so indentation survives on mobile.
+export const CODE_IMAGE_MIN_LINES = 10;
+// Blocks that would need more image pages than this are also sent as a
+// monospace block, split across messages, rather than as a stack of photos.
+export const CODE_IMAGE_MAX_LINES = CODE_LINES_PER_PAGE * CODE_MAX_PAGES;
+
+const FENCE_OPEN_RE = /^\s*(```|~~~)\s*([^\s`]*)/;
+
+// Split text into text, table and code parts at markdown table and code fence boundaries.
+// Lines inside a code fence are never treated as table rows.
 export function splitAtTables(text: string): MessagePart[] {
   const lines = text.split("\n");
   const parts: MessagePart[] = [];
   let textLines: string[] = [];
   let tableLines: string[] = [];
+  let fence: { marker: string; language: string; open: string; lines: string[] } | null = null;
+
+  const flushText = () => {
+    if (textLines.length > 0) {
+      parts.push({ type: "text", content: textLines.join("\n") });
+      textLines = [];
+    }
+  };
+  const flushTable = () => {
+    if (tableLines.length > 0) {
+      parts.push({ type: "table", lines: tableLines });
+      tableLines = [];
+    }
+  };
 
   for (const line of lines) {
-    if (/^\s*\|/.test(line)) {
-      if (textLines.length > 0) {
-        parts.push({ type: "text", content: textLines.join("\n") });
-        textLines = [];
+    if (fence) {
+      const trimmed = line.trim();
+      if (/^(`{3,}|~{3,})$/.test(trimmed) && trimmed[0] === fence.marker[0]) {
+        if (fence.lines.length >= CODE_IMAGE_MIN_LINES && fence.lines.length <= CODE_IMAGE_MAX_LINES) {
+          flushText();
+          parts.push({ type: "code", language: fence.language, lines: fence.lines });
+        } else {
+          textLines.push(fence.open, ...fence.lines, line);
+        }
+        fence = null;
+      } else {
+        fence.lines.push(line);
       }
+      continue;
+    }
+    const open = line.match(FENCE_OPEN_RE);
+    if (open) {
+      flushTable();
+      fence = { marker: open[1], language: open[2], open: line, lines: [] };
+    } else if (/^\s*\|/.test(line)) {
+      flushText();
       tableLines.push(line);
     } else {
-      if (tableLines.length > 0) {
-        parts.push({ type: "table", lines: tableLines });
-        tableLines = [];
-      }
+      flushTable();
       textLines.push(line);
     }
   }
-  if (tableLines.length > 0) parts.push({ type: "table", lines: tableLines });
-  if (textLines.length > 0) parts.push({ type: "text", content: textLines.join("\n") });
+  // An unclosed fence is left as it was written
+  if (fence) textLines.push(fence.open, ...fence.lines);
+  flushTable();
+  flushText();
 
   return parts;
 }
@@ -56,82 +98,68 @@ function tableAsText(lines: string[]): string {
   if (contentRows.length === 0) return lines.join("\n");
 
   const fmtRow = (cells: string[], bold: boolean) =>
-    cells.map((c) => (bold ? `*${escapeMd(c)}*` : escapeMd(c))).join(" | ");
+    cells.map((c) => (bold ? `**${escapeMd(c)}**` : escapeMd(c))).join(" | ");
 
   return [fmtRow(contentRows[0], true), ...contentRows.slice(1).map((r) => fmtRow(r, false))].join("\n");
 }
 
-// ---------------------------------------------------------------------------
-// Message splitting
-// ---------------------------------------------------------------------------
-
-export function splitMessage(text: string, limit = 4000): string[] {
-  if (!text) return [];
-  if (text.length <= limit) return [text];
-  const chunks: string[] = [];
-  let remaining = text;
-  while (remaining.length > limit) {
-    let splitAt = remaining.lastIndexOf("\n", limit);
-    if (splitAt <= 0) splitAt = limit;
-    chunks.push(remaining.slice(0, splitAt));
-    remaining = remaining.slice(splitAt).replace(/^\n/, "");
-  }
-  if (remaining.length > 0) chunks.push(remaining);
-  return chunks;
-}
-
 // ---------------------------------------------------------------------------
 // Send helpers
 // ---------------------------------------------------------------------------
 
-// Convert GitHub-flavored markdown bold (**text**) to Telegram Markdown bold (*text*).
-function normalizeMarkdown(text: string): string {
-  return text.replace(/\*\*(.+?)\*\*/g, "*$1*");
-}
-
+// Convert the Markdown to Telegram HTML and send it in chunks that each parse on
+// their own. A chunk Telegram still refuses is resent as plain text.
 async function sendTextChunk(
-  send: (text: string, markdown: boolean) => Promise<void>,
+  send: (text: string, html: boolean) => Promise<void>,
   text: string
 ): Promise<void> {
   if (!text.trim()) return;
-  for (const chunk of splitMessage(text)) {
+  for (const chunk of splitTelegramHtml(markdownToTelegramHtml(text))) {
     try {
-      await send(normalizeMarkdown(chunk), true);
+      await send(chunk, true);
     } catch {
-      await send(chunk, false);
+      await send(htmlToPlainText(chunk), false);
     }
   }
 }
 
 async function sendParts(
-  sendText: (text: string, markdown: boolean) => Promise<void>,
-  sendPhoto: (buf: Buffer) => Promise<void>,
+  sendText: (text: string, html: boolean) => Promise<void>,
+  sendPhoto: (buf: Buffer, filename: string) => Promise<void>,
   text: string
 ): Promise<void> {
   const parts = splitAtTables(text);
   for (const part of parts) {
     if (part.type === "text") {
       await sendTextChunk(sendText, part.content);
-    } else {
+    } else if (part.type === "table") {
       try {
         log({ message: `sendParts: rendering table (${part.lines.length} lines)` });
         const png = renderTableAsPng(part.lines);
         log({ message: `sendParts: sending photo (${png.length} bytes)` });
-        await sendPhoto(png);
+        await sendPhoto(png, "table.png");
         log({ message: `sendParts: photo sent` });
       } catch (err) {
         log({ message: `sendParts: table render/send failed, falling back to text: ${err instanceof Error ? err.message : String(err)}` });
         await sendTextChunk(sendText, tableAsText(part.lines));
       }
+    } else {
+      try {
+        log({ message: `sendParts: rendering code block (${part.lines.length} lines, ${part.language || "no language"})` });
+        for (const png of renderCodeAsPngs(part.lines, part.language)) await sendPhoto(png, "code.png");
+      } catch (err) {
+        log({ message: `sendParts: code render/send failed, falling back to text: ${err instanceof Error ? err.message : String(err)}` });
+        await sendTextChunk(sendText, ["```" + part.language, ...part.lines, "```"].join("\n"));
+      }
     }
   }
 }
 
 export async function sendMarkdownReply(ctx: Context, text: string): Promise<void> {
   await sendParts(
-    (chunk, md) =>
-      md ? ctx.reply(chunk, { parse_mode: "Markdown" }) : ctx.reply(chunk),
-    (buf) => ctx.replyWithPhoto(new InputFile(buf, "table.png")),
+    (chunk, html) =>
+      html ? ctx.reply(chunk, { parse_mode: "HTML" }) : ctx.reply(chunk),
+    (buf, filename) => ctx.replyWithPhoto(new InputFile(buf, filename)),
     text
   );
 }
@@ -149,13 +177,13 @@ export async function sendMarkdownMessageWithMessageId(
 ): Promise<number | null> {
   let lastMessageId: number | null = null;
   await sendParts(
-    async (chunk, md) => {
-      const sent = md
-        ? await bot.api.sendMessage(chatId, chunk, { parse_mode: "Markdown" })
+    async (chunk, html) => {
+      const sent = html
+        ? await bot.api.sendMessage(chatId, chunk, { parse_mode: "HTML" })
         : await bot.api.sendMessage(chatId, chunk);
       lastMessageId = sent.message_id;
     },
-    (buf) => bot.api.sendPhoto(chatId, new InputFile(buf, "table.png")),
+    (buf, filename) => bot.api.sendPhoto(chatId, new InputFile(buf, filename)),
     text
   );
   return lastMessageId;